@@ -1,6 +1,10 @@
 import type {
   AddOnSet,
   AddOnSetVariant,
+  AddOnSetCurrencyValue,
+  AddOnSetMainVariant,
+  AddOnSetRule,
+  AddOnRuleType,
   DiscountType,
   Prisma,
 } from "@prisma/client";
@@ -12,6 +16,9 @@ import prisma from "~/db.server";
 
 export type AddOnSetWithVariants = AddOnSet & {
   selectedVariants: AddOnSetVariant[];
+  currencyValues: AddOnSetCurrencyValue[];
+  mainVariants: AddOnSetMainVariant[];
+  rules: AddOnSetRule[];
 };
 
 export interface CreateAddOnSetInput {
@@ -26,9 +33,13 @@ export interface CreateAddOnSetInput {
   discountLabel?: string;
   customImageUrl?: string;
   isDefaultSelected?: boolean;
+  isRequired?: boolean;
   subscriptionOnly?: boolean;
   showQuantitySelector?: boolean;
   maxQuantity?: number;
+  addOnsPerMainUnit?: number | null;
+  completesBundle?: boolean;
+  productGroupId?: string | null;
   selectedVariantIds?: string[];
 }
 
@@ -43,9 +54,13 @@ export interface UpdateAddOnSetInput {
   discountLabel?: string | null;
   customImageUrl?: string | null;
   isDefaultSelected?: boolean;
+  isRequired?: boolean;
   subscriptionOnly?: boolean;
   showQuantitySelector?: boolean;
   maxQuantity?: number;
+  addOnsPerMainUnit?: number | null;
+  completesBundle?: boolean;
+  productGroupId?: string | null;
 }
 
 export interface AddVariantInput {
@@ -56,6 +71,22 @@ export interface AddVariantInput {
   position?: number;
 }
 
+export interface CurrencyValueInput {
+  currencyCode: string; // ISO 4217, e.g. "EUR"
+  discountValue: number;
+}
+
+export interface AddOnRuleInput {
+  type: AddOnRuleType;
+  relatedAddOnSetId: string; // Another add-on set of the same bundle
+}
+
+export interface MainVariantInput {
+  shopifyVariantId: string;
+  variantTitle?: string | null;
+  productTitle?: string | null;
+}
+
 // ============================================================================
 // QUERIES
 // ============================================================================
@@ -72,6 +103,15 @@ export async function getAddOnSets(
       selectedVariants: {
         orderBy: { position: "asc" },
       },
+      currencyValues: {
+        orderBy: { currencyCode: "asc" },
+      },
+      mainVariants: {
+        orderBy: { createdAt: "asc" },
+      },
+      rules: {
+        orderBy: { createdAt: "asc" },
+      },
     },
     orderBy: { position: "asc" },
   });
@@ -89,6 +129,15 @@ export async function getAddOnSet(
       selectedVariants: {
         orderBy: { position: "asc" },
       },
+      currencyValues: {
+        orderBy: { currencyCode: "asc" },
+      },
+      mainVariants: {
+        orderBy: { createdAt: "asc" },
+      },
+      rules: {
+        orderBy: { createdAt: "asc" },
+      },
     },
   });
 }
@@ -116,10 +165,13 @@ export async function createAddOnSet(
 ): Promise<AddOnSet> {
   const position = input.position ?? await getNextAddOnSetPosition(input.bundleId);
 
-  // If FREE_GIFT, ensure isDefaultSelected is false
+  // If FREE_GIFT, ensure isDefaultSelected and isRequired are false (free gifts are always included)
   const isDefaultSelected = input.discountType === "FREE_GIFT"
     ? false
     : (input.isDefaultSelected ?? false);
+  const isRequired = input.discountType === "FREE_GIFT"
+    ? false
+    : (input.isRequired ?? false);
 
   return prisma.addOnSet.create({
     data: {
@@ -134,9 +186,13 @@ export async function createAddOnSet(
       discountLabel: input.discountLabel,
       customImageUrl: input.customImageUrl,
       isDefaultSelected,
+      isRequired,
       subscriptionOnly: input.subscriptionOnly ?? false,
       showQuantitySelector: input.showQuantitySelector ?? false,
       maxQuantity: input.maxQuantity ?? 10,
+      addOnsPerMainUnit: input.addOnsPerMainUnit ?? null,
+      completesBundle: input.completesBundle ?? false,
+      productGroupId: input.productGroupId ?? null,
     },
   });
 }
@@ -148,11 +204,20 @@ export async function updateAddOnSet(
   id: string,
   input: UpdateAddOnSetInput
 ): Promise<AddOnSet> {
-  // If changing to FREE_GIFT, ensure isDefaultSelected is false
-  let updateData: Prisma.AddOnSetUpdateInput = { ...input };
+  const { productGroupId, ...fields } = input;
+
+  // If changing to FREE_GIFT, ensure isDefaultSelected and isRequired are false
+  let updateData: Prisma.AddOnSetUpdateInput = { ...fields };
+
+  if (productGroupId !== undefined) {
+    updateData.productGroup = productGroupId
+      ? { connect: { id: productGroupId } }
+      : { disconnect: true };
+  }
 
   if (input.discountType === "FREE_GIFT") {
     updateData.isDefaultSelected = false;
+    updateData.isRequired = false;
   }
 
   return prisma.addOnSet.update({
@@ -334,3 +399,114 @@ export async function updateVariantCache(
     data,
   });
 }
+
+/**
+ * Update cached product data on every add-on set for a product (called from webhook)
+ */
+export async function updateAddOnSetProductCache(
+  shopifyProductId: string,
+  data: {
+    productTitle?: string;
+    productImageUrl?: string | null;
+  }
+): Promise<number> {
+  const result = await prisma.addOnSet.updateMany({
+    where: { shopifyProductId },
+    data,
+  });
+  return result.count;
+}
+
+// ============================================================================
+// CURRENCY VALUES
+// ============================================================================
+
+/**
+ * Set all per-currency discount values for an add-on set (replaces existing)
+ */
+export async function setCurrencyValuesForSet(
+  addOnSetId: string,
+  values: CurrencyValueInput[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.addOnSetCurrencyValue.deleteMany({
+      where: { addOnSetId },
+    }),
+    ...values.map((value) =>
+      prisma.addOnSetCurrencyValue.create({
+        data: {
+          addOnSetId,
+          currencyCode: value.currencyCode.toUpperCase(),
+          discountValue: value.discountValue,
+        },
+      })
+    ),
+  ]);
+}
+
+// ============================================================================
+// MAIN PRODUCT VARIANTS
+// ============================================================================
+
+/**
+ * Set the main product variants an add-on set is offered with (replaces existing)
+ * An empty list offers the add-on with every variant
+ */
+export async function setMainVariantsForSet(
+  addOnSetId: string,
+  variants: MainVariantInput[]
+): Promise<void> {
+  const uniqueVariants = variants.filter(
+    (variant, index) => variants.findIndex((other) => other.shopifyVariantId === variant.shopifyVariantId) === index
+  );
+
+  await prisma.$transaction([
+    prisma.addOnSetMainVariant.deleteMany({
+      where: { addOnSetId },
+    }),
+    ...uniqueVariants.map((variant) =>
+      prisma.addOnSetMainVariant.create({
+        data: {
+          addOnSetId,
+          shopifyVariantId: variant.shopifyVariantId,
+          variantTitle: variant.variantTitle,
+          productTitle: variant.productTitle,
+        },
+      })
+    ),
+  ]);
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Set the dependency/exclusion rules of an add-on set (replaces existing)
+ * Rules referencing the set itself are dropped, and one rule is kept per related set
+ */
+export async function setRulesForSet(
+  addOnSetId: string,
+  rules: AddOnRuleInput[]
+): Promise<void> {
+  const uniqueRules = rules.filter(
+    (rule, index) =>
+      rule.relatedAddOnSetId !== addOnSetId &&
+      rules.findIndex((other) => other.relatedAddOnSetId === rule.relatedAddOnSetId) === index
+  );
+
+  await prisma.$transaction([
+    prisma.addOnSetRule.deleteMany({
+      where: { addOnSetId },
+    }),
+    ...uniqueRules.map((rule) =>
+      prisma.addOnSetRule.create({
+        data: {
+          addOnSetId,
+          relatedAddOnSetId: rule.relatedAddOnSetId,
+          type: rule.type,
+        },
+      })
+    ),
+  ]);
+}
@@ -4,14 +4,18 @@ import type {
   SelectionMode,
   TargetingType,
   DiscountCombination,
+  CustomerEligibility,
   AddOnSet,
   WidgetStyle,
   BundleTargetedItem,
   ProductGroup,
   ProductGroupItem,
+  BundleDiscountTier,
+  DiscountType,
   Prisma,
 } from "@prisma/client";
 import prisma from "~/db.server";
+import { getAddOnSets } from "./addOnSet.server";
 
 // ============================================================================
 // TYPES
@@ -26,6 +30,7 @@ export type BundleWithRelations = Bundle & {
   widgetStyle: WidgetStyle | null;
   targetedItems?: BundleTargetedItem[];
   productGroups?: ProductGroupWithItems[];
+  discountTiers?: BundleDiscountTier[];
   _count?: {
     addOnSets: number;
     targetedItems: number;
@@ -41,11 +46,27 @@ export interface CreateBundleInput {
   startDate?: Date;
   endDate?: Date;
   selectionMode?: SelectionMode;
+  minSelections?: number;
+  maxSelections?: number | null;
   targetingType?: TargetingType;
   combineWithProductDiscounts?: DiscountCombination;
   combineWithOrderDiscounts?: DiscountCombination;
   combineWithShippingDiscounts?: DiscountCombination;
   deleteAddOnsWithMain?: boolean;
+  shippingPerkEnabled?: boolean;
+  shippingPerkMinAddOns?: number;
+  shippingPerkPercentage?: number;
+  shippingPerkLabel?: string | null;
+  completeBundleEnabled?: boolean;
+  completeBundleDiscountType?: DiscountType;
+  completeBundleDiscountValue?: number | null;
+  completeBundleLabel?: string | null;
+  customerEligibility?: CustomerEligibility;
+  eligibleCustomerTags?: string | null;
+  hideBundleForIneligible?: boolean;
+  presentAsBundle?: boolean;
+  bundleLineTitle?: string | null;
+  bundleLineImage?: string | null;
 }
 
 export interface UpdateBundleInput {
@@ -55,6 +76,8 @@ export interface UpdateBundleInput {
   startDate?: Date | null;
   endDate?: Date | null;
   selectionMode?: SelectionMode;
+  minSelections?: number;
+  maxSelections?: number | null;
   targetingType?: TargetingType;
   combineWithProductDiscounts?: DiscountCombination;
   combineWithOrderDiscounts?: DiscountCombination;
@@ -63,6 +86,27 @@ export interface UpdateBundleInput {
   deleteAddOnsWithMain?: boolean;
   showSoldOutLabel?: boolean;
   soldOutLabelText?: string;
+  shippingPerkEnabled?: boolean;
+  shippingPerkMinAddOns?: number;
+  shippingPerkPercentage?: number;
+  shippingPerkLabel?: string | null;
+  completeBundleEnabled?: boolean;
+  completeBundleDiscountType?: DiscountType;
+  completeBundleDiscountValue?: number | null;
+  completeBundleLabel?: string | null;
+  customerEligibility?: CustomerEligibility;
+  eligibleCustomerTags?: string | null;
+  hideBundleForIneligible?: boolean;
+  presentAsBundle?: boolean;
+  bundleLineTitle?: string | null;
+  bundleLineImage?: string | null;
+}
+
+export interface DiscountTierInput {
+  minAddOns: number;
+  discountType: DiscountType;
+  discountValue: number;
+  discountLabel?: string | null;
 }
 
 export interface BundleListFilters {
@@ -142,6 +186,9 @@ export async function getBundle(
         },
         orderBy: { position: "asc" },
       },
+      discountTiers: {
+        orderBy: { minAddOns: "asc" },
+      },
       widgetStyle: true,
     },
   });
@@ -165,6 +212,60 @@ export async function bundleTitleExists(
   return count > 0;
 }
 
+/**
+ * Get the shop's active, currently scheduled bundles
+ * Used to build the shop-wide function configs (cart transform, cart validation)
+ */
+export async function getActiveScheduledBundles(shop: string): Promise<BundleWithRelations[]> {
+  const now = new Date();
+
+  return prisma.bundle.findMany({
+    where: {
+      shop,
+      status: "ACTIVE",
+      OR: [
+        { startDate: null },
+        { startDate: { lte: now } },
+      ],
+      AND: [
+        {
+          OR: [
+            { endDate: null },
+            { endDate: { gte: now } },
+          ],
+        },
+      ],
+    },
+    include: {
+      addOnSets: true,
+      widgetStyle: true,
+      discountTiers: true,
+    },
+  });
+}
+
+/**
+ * Get the shop's active bundles that haven't ended, including ones scheduled to start later
+ * Used by the cart transform config, which checks the schedule when the function runs
+ */
+export async function getActiveUnexpiredBundles(shop: string): Promise<BundleWithRelations[]> {
+  return prisma.bundle.findMany({
+    where: {
+      shop,
+      status: "ACTIVE",
+      OR: [
+        { endDate: null },
+        { endDate: { gte: new Date() } },
+      ],
+    },
+    include: {
+      addOnSets: true,
+      widgetStyle: true,
+      discountTiers: true,
+    },
+  });
+}
+
 /**
  * Get active bundles for a specific product
  * Used by the widget to determine which bundle to display
@@ -326,11 +427,27 @@ export async function createBundle(
       startDate: input.startDate,
       endDate: input.endDate,
       selectionMode: input.selectionMode ?? "MULTIPLE",
+      minSelections: input.minSelections ?? 0,
+      maxSelections: input.maxSelections ?? null,
       targetingType: input.targetingType ?? "ALL_PRODUCTS",
       combineWithProductDiscounts: input.combineWithProductDiscounts ?? "COMBINE",
       combineWithOrderDiscounts: input.combineWithOrderDiscounts ?? "COMBINE",
       combineWithShippingDiscounts: input.combineWithShippingDiscounts ?? "COMBINE",
       deleteAddOnsWithMain: input.deleteAddOnsWithMain ?? false,
+      shippingPerkEnabled: input.shippingPerkEnabled ?? false,
+      shippingPerkMinAddOns: input.shippingPerkMinAddOns ?? 1,
+      shippingPerkPercentage: input.shippingPerkPercentage ?? 100,
+      shippingPerkLabel: input.shippingPerkLabel ?? null,
+      completeBundleEnabled: input.completeBundleEnabled ?? false,
+      completeBundleDiscountType: input.completeBundleDiscountType ?? "PERCENTAGE",
+      completeBundleDiscountValue: input.completeBundleDiscountValue ?? null,
+      completeBundleLabel: input.completeBundleLabel ?? null,
+      customerEligibility: input.customerEligibility ?? "ALL_CUSTOMERS",
+      eligibleCustomerTags: input.eligibleCustomerTags ?? null,
+      hideBundleForIneligible: input.hideBundleForIneligible ?? false,
+      presentAsBundle: input.presentAsBundle ?? false,
+      bundleLineTitle: input.bundleLineTitle ?? null,
+      bundleLineImage: input.bundleLineImage ?? null,
       // Create default widget style
       widgetStyle: {
         create: {},
@@ -390,6 +507,9 @@ export async function duplicateBundle(
     throw new Error("Bundle not found");
   }
 
+  // getBundle only loads the add-ons' selected variants
+  const addOnSets = await getAddOnSets(original.id);
+
   // Create new bundle with copied data
   const newBundle = await prisma.bundle.create({
     data: {
@@ -400,14 +520,40 @@ export async function duplicateBundle(
       startDate: original.startDate,
       endDate: original.endDate,
       selectionMode: original.selectionMode,
+      minSelections: original.minSelections,
+      maxSelections: original.maxSelections,
       targetingType: original.targetingType,
       combineWithProductDiscounts: original.combineWithProductDiscounts,
       combineWithOrderDiscounts: original.combineWithOrderDiscounts,
       combineWithShippingDiscounts: original.combineWithShippingDiscounts,
+      shippingPerkEnabled: original.shippingPerkEnabled,
+      shippingPerkMinAddOns: original.shippingPerkMinAddOns,
+      shippingPerkPercentage: original.shippingPerkPercentage,
+      shippingPerkLabel: original.shippingPerkLabel,
+      completeBundleEnabled: original.completeBundleEnabled,
+      completeBundleDiscountType: original.completeBundleDiscountType,
+      completeBundleDiscountValue: original.completeBundleDiscountValue,
+      completeBundleLabel: original.completeBundleLabel,
+      customerEligibility: original.customerEligibility,
+      eligibleCustomerTags: original.eligibleCustomerTags,
+      hideBundleForIneligible: original.hideBundleForIneligible,
+      presentAsBundle: original.presentAsBundle,
+      bundleLineTitle: original.bundleLineTitle,
+      bundleLineImage: original.bundleLineImage,
+      // Copy discount tiers
+      discountTiers: {
+        create: (original.discountTiers ?? []).map((tier) => ({
+          minAddOns: tier.minAddOns,
+          discountType: tier.discountType,
+          discountValue: tier.discountValue,
+          discountLabel: tier.discountLabel,
+        })),
+      },
       // Copy widget style
       widgetStyle: original.widgetStyle
         ? {
             create: {
+              displayMode: original.widgetStyle.displayMode,
               backgroundColor: original.widgetStyle.backgroundColor,
               fontColor: original.widgetStyle.fontColor,
               buttonColor: original.widgetStyle.buttonColor,
@@ -430,34 +576,146 @@ export async function duplicateBundle(
             },
           }
         : { create: {} },
-      // Copy add-on sets
-      addOnSets: {
-        create: original.addOnSets.map((set) => ({
-          shopifyProductId: set.shopifyProductId,
-          productTitle: set.productTitle,
-          productImageUrl: set.productImageUrl,
-          title: set.title,
-          position: set.position,
-          discountType: set.discountType,
-          discountValue: set.discountValue,
-          discountLabel: set.discountLabel,
-          customImageUrl: set.customImageUrl,
-          isDefaultSelected: set.isDefaultSelected,
-          subscriptionOnly: set.subscriptionOnly,
-          showQuantitySelector: set.showQuantitySelector,
-          maxQuantity: set.maxQuantity,
-        })),
-      },
     },
   });
 
+  // Copy product groups, mapping each group to its copy for the add-ons offered with it
+  const productGroupIds = new Map<string, string>();
+  for (const group of original.productGroups ?? []) {
+    const newGroup = await prisma.productGroup.create({
+      data: {
+        bundleId: newBundle.id,
+        title: group.title,
+        position: group.position,
+        items: {
+          create: group.items.map((item) => ({
+            shopifyResourceId: item.shopifyResourceId,
+            shopifyResourceType: item.shopifyResourceType,
+            title: item.title,
+            imageUrl: item.imageUrl,
+            position: item.position,
+          })),
+        },
+      },
+    });
+    productGroupIds.set(group.id, newGroup.id);
+  }
+
+  // Copy add-on sets, mapping each add-on to its copy for the rules between them
+  const addOnSetIds = new Map<string, string>();
+  for (const set of addOnSets) {
+    const newSet = await prisma.addOnSet.create({
+      data: {
+        bundleId: newBundle.id,
+        shopifyProductId: set.shopifyProductId,
+        productTitle: set.productTitle,
+        productImageUrl: set.productImageUrl,
+        title: set.title,
+        position: set.position,
+        discountType: set.discountType,
+        discountValue: set.discountValue,
+        discountLabel: set.discountLabel,
+        customImageUrl: set.customImageUrl,
+        isDefaultSelected: set.isDefaultSelected,
+        isRequired: set.isRequired,
+        subscriptionOnly: set.subscriptionOnly,
+        showQuantitySelector: set.showQuantitySelector,
+        maxQuantity: set.maxQuantity,
+        addOnsPerMainUnit: set.addOnsPerMainUnit,
+        completesBundle: set.completesBundle,
+        productGroupId: set.productGroupId ? productGroupIds.get(set.productGroupId) ?? null : null,
+        selectedVariants: {
+          create: set.selectedVariants.map((variant) => ({
+            shopifyVariantId: variant.shopifyVariantId,
+            variantTitle: variant.variantTitle,
+            variantSku: variant.variantSku,
+            variantPrice: variant.variantPrice,
+            position: variant.position,
+          })),
+        },
+        currencyValues: {
+          create: set.currencyValues.map((value) => ({
+            currencyCode: value.currencyCode,
+            discountValue: value.discountValue,
+          })),
+        },
+        mainVariants: {
+          create: set.mainVariants.map((variant) => ({
+            shopifyVariantId: variant.shopifyVariantId,
+            variantTitle: variant.variantTitle,
+            productTitle: variant.productTitle,
+          })),
+        },
+      },
+    });
+    addOnSetIds.set(set.id, newSet.id);
+  }
+
+  // Copy dependency/exclusion rules between the copied add-ons
+  const rules = addOnSets.flatMap((set) => set.rules).flatMap((rule) => {
+    const addOnSetId = addOnSetIds.get(rule.addOnSetId);
+    const relatedAddOnSetId = addOnSetIds.get(rule.relatedAddOnSetId);
+    return addOnSetId && relatedAddOnSetId ? [{ type: rule.type, addOnSetId, relatedAddOnSetId }] : [];
+  });
+  if (rules.length > 0) {
+    await prisma.addOnSetRule.createMany({ data: rules });
+  }
+
   return newBundle;
 }
 
+// ============================================================================
+// DISCOUNT TIERS
+// ============================================================================
+
+/**
+ * Replace all discount tiers for a bundle
+ */
+export async function setBundleDiscountTiers(
+  bundleId: string,
+  tiers: DiscountTierInput[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.bundleDiscountTier.deleteMany({ where: { bundleId } }),
+    prisma.bundleDiscountTier.createMany({
+      data: tiers.map((tier) => ({
+        bundleId,
+        minAddOns: tier.minAddOns,
+        discountType: tier.discountType,
+        discountValue: tier.discountValue,
+        discountLabel: tier.discountLabel || null,
+      })),
+    }),
+  ]);
+}
+
 // ============================================================================
 // STATISTICS
 // ============================================================================
 
+/**
+ * Get IDs of a shop's bundles that reference any of the given products or collections,
+ * either as an add-on, a targeted item, a product group item or a synced product
+ */
+export async function getBundleIdsForResources(
+  shop: string,
+  shopifyResourceIds: string[]
+): Promise<string[]> {
+  const bundles = await prisma.bundle.findMany({
+    where: {
+      shop,
+      OR: [
+        { addOnSets: { some: { shopifyProductId: { in: shopifyResourceIds } } } },
+        { targetedItems: { some: { shopifyResourceId: { in: shopifyResourceIds } } } },
+        { productGroups: { some: { items: { some: { shopifyResourceId: { in: shopifyResourceIds } } } } } },
+        { syncedProducts: { some: { shopifyProductId: { in: shopifyResourceIds } } } },
+      ],
+    },
+    select: { id: true },
+  });
+  return bundles.map((bundle) => bundle.id);
+}
+
 /**
  * Get bundle statistics for a shop
  */
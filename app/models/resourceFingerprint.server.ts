@@ -0,0 +1,49 @@
+/**
+ * Resource Fingerprint Model - Tracks which product and collection updates the widget uses
+ */
+
+import { createHash } from "node:crypto";
+import prisma from "~/db.server";
+
+/**
+ * Hash the widget-relevant fields of a product or collection
+ */
+export function buildResourceFingerprint(fields: unknown): string {
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Store a resource's fingerprint
+ * Returns false when it matches the stored one (nothing the widget uses changed)
+ */
+export async function updateResourceFingerprint(
+  shop: string,
+  shopifyResourceId: string,
+  fingerprint: string
+): Promise<boolean> {
+  const existing = await prisma.resourceFingerprint.findUnique({
+    where: { shop_shopifyResourceId: { shop, shopifyResourceId } },
+  });
+  if (existing?.fingerprint === fingerprint) {
+    return false;
+  }
+
+  await prisma.resourceFingerprint.upsert({
+    where: { shop_shopifyResourceId: { shop, shopifyResourceId } },
+    create: { shop, shopifyResourceId, fingerprint },
+    update: { fingerprint },
+  });
+  return true;
+}
+
+/**
+ * Forget a deleted resource's fingerprint
+ */
+export async function deleteResourceFingerprint(
+  shop: string,
+  shopifyResourceId: string
+): Promise<void> {
+  await prisma.resourceFingerprint.deleteMany({
+    where: { shop, shopifyResourceId },
+  });
+}
@@ -3,6 +3,8 @@ import type {
   SelectionMode,
   LayoutType,
   ImageSize,
+  PricingEngine,
+  ThemeAdapter,
 } from "@prisma/client";
 import prisma from "~/db.server";
 
@@ -19,6 +21,13 @@ export interface UpdateShopSettingsInput {
   defaultButtonColor?: string;
   defaultButtonTextColor?: string;
   analyticsEnabled?: boolean;
+  pricingEngine?: PricingEngine;
+  themeAdapter?: ThemeAdapter;
+  allOrNothingAddToCart?: boolean;
+  checkoutValidationEnabled?: boolean;
+  orphanedAddOnMessage?: string;
+  addOnLimitMessage?: string;
+  requiredAddOnMessage?: string;
 }
 
 // ============================================================================
@@ -126,6 +126,23 @@ export async function clearTargetedItems(bundleId: string): Promise<number> {
   return result.count;
 }
 
+/**
+ * Update cached title/image on targeted items for a product or collection (called from webhook)
+ */
+export async function updateTargetedItemCache(
+  shopifyResourceId: string,
+  data: {
+    title?: string;
+    imageUrl?: string | null;
+  }
+): Promise<number> {
+  const result = await prisma.bundleTargetedItem.updateMany({
+    where: { shopifyResourceId },
+    data,
+  });
+  return result.count;
+}
+
 // ============================================================================
 // PRODUCT GROUPS (PRODUCT_GROUPS targeting type)
 // ============================================================================
@@ -339,3 +356,80 @@ export async function reorderProductGroupItems(
     )
   );
 }
+
+/**
+ * Update cached title/image on product group items for a product or collection (called from webhook)
+ */
+export async function updateProductGroupItemCache(
+  shopifyResourceId: string,
+  data: {
+    title?: string;
+    imageUrl?: string | null;
+  }
+): Promise<number> {
+  const result = await prisma.productGroupItem.updateMany({
+    where: { shopifyResourceId },
+    data,
+  });
+  return result.count;
+}
+
+// ============================================================================
+// SYNCED PRODUCTS (products holding a bundle's widget metafield)
+// ============================================================================
+
+/**
+ * Get the products whose metafields were last written for a bundle
+ */
+export async function getSyncedProductIds(bundleId: string): Promise<string[]> {
+  const syncedProducts = await prisma.bundleSyncedProduct.findMany({
+    where: { bundleId },
+    select: { shopifyProductId: true },
+  });
+  return syncedProducts.map((product) => product.shopifyProductId);
+}
+
+/**
+ * Get the other bundles of the shop that synced their config to any of the given products
+ * Returns a map of bundle ID -> the given products it synced
+ */
+export async function getOtherSyncingBundles(
+  shop: string,
+  bundleId: string,
+  productIds: string[]
+): Promise<Map<string, string[]>> {
+  const syncedProducts = await prisma.bundleSyncedProduct.findMany({
+    where: {
+      bundleId: { not: bundleId },
+      shopifyProductId: { in: productIds },
+      bundle: { shop },
+    },
+    select: { bundleId: true, shopifyProductId: true },
+  });
+
+  const bundles = new Map<string, string[]>();
+  for (const product of syncedProducts) {
+    bundles.set(product.bundleId, [...(bundles.get(product.bundleId) ?? []), product.shopifyProductId]);
+  }
+  return bundles;
+}
+
+/**
+ * Replace the set of products whose metafields hold a bundle's config
+ */
+export async function setSyncedProductIds(
+  bundleId: string,
+  productIds: string[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.bundleSyncedProduct.deleteMany({
+      where: { bundleId },
+    }),
+    prisma.bundleSyncedProduct.createMany({
+      data: Array.from(new Set(productIds)).map((shopifyProductId) => ({
+        bundleId,
+        shopifyProductId,
+      })),
+    }),
+  ]);
+}
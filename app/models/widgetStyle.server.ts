@@ -5,6 +5,7 @@ import type {
   DiscountLabelStyle,
   BorderStyle,
   WidgetTemplate,
+  WidgetDisplayMode,
 } from "@prisma/client";
 import prisma from "~/db.server";
 
@@ -33,6 +34,7 @@ export interface UpdateWidgetStyleInput {
   imageSize?: ImageSize;
   discountLabelStyle?: DiscountLabelStyle;
   template?: WidgetTemplate;
+  displayMode?: WidgetDisplayMode;
 }
 
 // ============================================================================
@@ -101,6 +103,7 @@ export async function resetWidgetStyle(bundleId: string): Promise<WidgetStyle> {
     where: { bundleId },
     data: {
       template: "DEFAULT",
+      displayMode: "INLINE",
       backgroundColor: "#ffffff",
       fontColor: "#000000",
       buttonColor: "#000000",
@@ -145,6 +148,7 @@ export async function copyWidgetStyle(
   return prisma.widgetStyle.upsert({
     where: { bundleId: toBundleId },
     update: {
+      displayMode: source.displayMode,
       backgroundColor: source.backgroundColor,
       fontColor: source.fontColor,
       buttonColor: source.buttonColor,
@@ -168,6 +172,7 @@ export async function copyWidgetStyle(
     },
     create: {
       bundleId: toBundleId,
+      displayMode: source.displayMode,
       backgroundColor: source.backgroundColor,
       fontColor: source.fontColor,
       buttonColor: source.buttonColor,
@@ -4,41 +4,44 @@ import { useAppBridge } from "@shopify/app-bridge-react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { getBundle, updateBundle, deleteBundle, bundleTitleExists } from "../models/bundle.server";
-import type { BundleWithRelations } from "../models/bundle.server";
-import { getAddOnSets, createAddOnSet, updateAddOnSet, deleteAddOnSet, setVariantsForSet } from "../models/addOnSet.server";
+import { getBundle, updateBundle, deleteBundle, bundleTitleExists, setBundleDiscountTiers } from "../models/bundle.server";
+import type { BundleWithRelations, DiscountTierInput } from "../models/bundle.server";
+import { getAddOnSets, createAddOnSet, updateAddOnSet, deleteAddOnSet, setVariantsForSet, setCurrencyValuesForSet, setMainVariantsForSet, setRulesForSet } from "../models/addOnSet.server";
 import type { AddOnSetWithVariants } from "../models/addOnSet.server";
-import { updateWidgetStyle, resetWidgetStyle, getOrCreateWidgetStyle, getWidgetStyle } from "../models/widgetStyle.server";
+import { updateWidgetStyle, resetWidgetStyle, getOrCreateWidgetStyle } from "../models/widgetStyle.server";
 import {
   getTargetedItems,
   addTargetedItem,
   removeTargetedItem,
+  createProductGroup,
+  updateProductGroup,
+  deleteProductGroup,
+  addProductGroupItems,
+  clearProductGroupItems,
 } from "../models/targeting.server";
 import {
-  buildWidgetConfig,
-  syncShopMetafields,
-  syncProductMetafields,
   clearShopMetafield,
-  clearProductMetafields,
   fetchProductInfo,
 } from "../services/metafield.sync";
 import {
   activateBundleDiscount,
   deactivateBundleDiscount,
-  updateBundleDiscount,
 } from "../services/discount.sync";
+import { syncBundleMetafields, clearBundleProductMetafields, syncShopFunctions } from "../services/bundle.sync";
 import type { BundleTargetedItem } from "@prisma/client";
 import type {
   BundleStatus,
   SelectionMode,
   TargetingType,
   DiscountCombination,
+  CustomerEligibility,
   DiscountType,
   LayoutType,
   ImageSize,
   DiscountLabelStyle,
   BorderStyle,
   WidgetStyle,
+  WidgetDisplayMode,
 } from "@prisma/client";
 
 // Type for WidgetTemplate until Prisma client is regenerated
@@ -51,16 +54,10 @@ interface LoaderData {
   targetedItems: BundleTargetedItem[];
 }
 
-// Admin GraphQL client type
-type AdminClient = {
-  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<{
-    json: () => Promise<{ data?: Record<string, unknown>; errors?: Array<{ message: string }> }>;
-  }>;
-};
-
 // Style state type for local management
 interface StyleState {
   template: WidgetTemplate;
+  displayMode: WidgetDisplayMode;
   backgroundColor: string;
   fontColor: string;
   buttonColor: string;
@@ -87,6 +84,7 @@ interface StyleState {
 
 const defaultStyleState: StyleState = {
   template: "DEFAULT",
+  displayMode: "INLINE",
   backgroundColor: "#ffffff",
   fontColor: "#000000",
   buttonColor: "#000000",
@@ -111,134 +109,6 @@ const defaultStyleState: StyleState = {
   customJs: "",
 };
 
-// Helper to sync metafields after bundle changes
-async function syncBundleMetafields(
-  admin: AdminClient,
-  bundleId: string,
-  shop: string
-) {
-  console.log("[syncBundleMetafields] Starting sync for bundle:", bundleId);
-
-  try {
-    const bundle = await getBundle(bundleId, shop);
-    if (!bundle) {
-      console.log("[syncBundleMetafields] Bundle not found");
-      return;
-    }
-
-    console.log("[syncBundleMetafields] Bundle status:", bundle.status, "targeting:", bundle.targetingType);
-
-    // Get shop GID first
-    const shopResponse = await admin.graphql(`query { shop { id } }`);
-    const shopResult = await shopResponse.json();
-    const shopGid = (shopResult.data?.shop as { id?: string })?.id;
-    console.log("[syncBundleMetafields] Shop GID:", shopGid);
-
-    // Only sync if bundle is ACTIVE
-    if (bundle.status !== "ACTIVE") {
-      console.log("[syncBundleMetafields] Bundle not active (status:", bundle.status, "), clearing metafields");
-
-      // Clear shop metafields for ALL_PRODUCTS targeting
-      if (shopGid && bundle.targetingType === "ALL_PRODUCTS") {
-        console.log("[syncBundleMetafields] Clearing shop metafield for ALL_PRODUCTS bundle");
-        const clearResult = await clearShopMetafield(admin, shopGid);
-        if (!clearResult.success) {
-          console.error("[syncBundleMetafields] Failed to clear shop metafield:", clearResult.error);
-        }
-      }
-
-      // Clear product metafields for SPECIFIC_PRODUCTS targeting
-      if (bundle.targetingType === "SPECIFIC_PRODUCTS") {
-        const targetedItems = await getTargetedItems(bundleId);
-        const productIds = targetedItems
-          .filter((item) => item.shopifyResourceType === "Product")
-          .map((item) => item.shopifyResourceId);
-
-        if (productIds.length > 0) {
-          console.log("[syncBundleMetafields] Clearing metafields for", productIds.length, "targeted products");
-          await clearProductMetafields(admin, productIds);
-        }
-      }
-
-      return;
-    }
-
-    const [addOnSets, widgetStyle, targetedItems] = await Promise.all([
-      getAddOnSets(bundleId),
-      getWidgetStyle(bundleId),
-      getTargetedItems(bundleId),
-    ]);
-
-    console.log("[syncBundleMetafields] AddOnSets:", addOnSets.length, "WidgetStyle:", !!widgetStyle);
-
-    if (!widgetStyle) {
-      console.log("[syncBundleMetafields] No widget style found");
-      return;
-    }
-
-    // Fetch product info (handles and status) for market-specific pricing and filtering
-    const productIds = addOnSets.map((addOn) => addOn.shopifyProductId);
-    const productInfo = await fetchProductInfo(admin, productIds);
-    console.log("[syncBundleMetafields] Fetched info for", productInfo.size, "products");
-
-    // Build widget config - this will filter out Draft/Unlisted products for the storefront
-    // Create handles map for backwards compatibility
-    const productHandles = new Map<string, string>();
-    for (const [id, info] of productInfo) {
-      productHandles.set(id, info.handle);
-    }
-
-    const widgetConfig = buildWidgetConfig(bundle, addOnSets, widgetStyle, productHandles, productInfo);
-    console.log("[syncBundleMetafields] Built widget config with", widgetConfig.addOns.length, "add-ons (filtered for Active products)");
-
-    // Sync WIDGET config to shop/product metafields (for theme display)
-    if (bundle.targetingType === "ALL_PRODUCTS") {
-      // Sync to shop-level metafield for global bundles
-      console.log("[syncBundleMetafields] Syncing to shop metafield (ALL_PRODUCTS)");
-      if (shopGid) {
-        await syncShopMetafields(admin, shopGid, widgetConfig);
-      }
-    } else if (bundle.targetingType === "SPECIFIC_PRODUCTS") {
-      // IMPORTANT: Clear shop metafield when switching to SPECIFIC targeting
-      // Otherwise the Liquid template falls back to shop metafield and shows widget everywhere
-      if (shopGid) {
-        console.log("[syncBundleMetafields] Clearing shop metafield (switching to SPECIFIC_PRODUCTS)");
-        await clearShopMetafield(admin, shopGid);
-      }
-
-      // Sync to specific product metafields
-      const productIds = targetedItems
-        .filter((item) => item.shopifyResourceType === "Product")
-        .map((item) => item.shopifyResourceId);
-      console.log("[syncBundleMetafields] Syncing to", productIds.length, "product metafields");
-      if (productIds.length > 0) {
-        await syncProductMetafields(admin, productIds, widgetConfig);
-      }
-    }
-
-    // Sync DISCOUNT config to the Shopify discount metafield (for discount function)
-    if (bundle.shopifyDiscountId) {
-      console.log("[syncBundleMetafields] Syncing discount metafield for discount:", bundle.shopifyDiscountId);
-      try {
-        const discountResult = await updateBundleDiscount(admin, bundle);
-        if (discountResult.errors.length > 0) {
-          console.error("[syncBundleMetafields] Discount sync errors:", discountResult.errors);
-        } else {
-          console.log("[syncBundleMetafields] Discount metafield synced successfully");
-        }
-      } catch (error) {
-        console.error("[syncBundleMetafields] Error syncing discount metafield:", error);
-      }
-    } else {
-      console.log("[syncBundleMetafields] No shopifyDiscountId, skipping discount sync");
-    }
-
-    console.log("[syncBundleMetafields] Sync completed for bundle:", bundleId);
-  } catch (error) {
-    console.error("[syncBundleMetafields] Error syncing metafields:", error);
-  }
-}
-
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
@@ -374,6 +244,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const startDate = formData.get("startDate") as string;
     const endDate = formData.get("endDate") as string;
     const selectionMode = formData.get("selectionMode") as SelectionMode;
+    const minSelections = parseInt(formData.get("minSelections") as string) || 0;
+    const maxSelections = parseInt(formData.get("maxSelections") as string) || null;
     const targetingType = formData.get("targetingType") as TargetingType;
     const combineWithProductDiscounts = formData.get("combineWithProductDiscounts") as DiscountCombination;
     const combineWithOrderDiscounts = formData.get("combineWithOrderDiscounts") as DiscountCombination;
@@ -381,6 +253,20 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const deleteAddOnsWithMain = formData.get("deleteAddOnsWithMain") === "true";
     const showSoldOutLabel = formData.get("showSoldOutLabel") === "true";
     const soldOutLabelText = formData.get("soldOutLabelText") as string;
+    const shippingPerkEnabled = formData.get("shippingPerkEnabled") === "true";
+    const shippingPerkMinAddOns = parseInt(formData.get("shippingPerkMinAddOns") as string) || 0;
+    const shippingPerkPercentage = parseInt(formData.get("shippingPerkPercentage") as string) || 0;
+    const shippingPerkLabel = formData.get("shippingPerkLabel") as string;
+    const completeBundleEnabled = formData.get("completeBundleEnabled") === "true";
+    const completeBundleDiscountType = formData.get("completeBundleDiscountType") as DiscountType;
+    const completeBundleDiscountValue = parseFloat(formData.get("completeBundleDiscountValue") as string) || 0;
+    const completeBundleLabel = formData.get("completeBundleLabel") as string;
+    const customerEligibility = (formData.get("customerEligibility") as CustomerEligibility) || "ALL_CUSTOMERS";
+    const eligibleCustomerTags = (formData.get("eligibleCustomerTags") as string || "").trim();
+    const hideBundleForIneligible = formData.get("hideBundleForIneligible") === "true";
+    const presentAsBundle = formData.get("presentAsBundle") === "true";
+    const bundleLineTitle = (formData.get("bundleLineTitle") as string || "").trim();
+    const bundleLineImage = (formData.get("bundleLineImage") as string || "").trim();
 
     // Parse JSON data for batched changes
     const newTargetedItems = JSON.parse(formData.get("newTargetedItems") as string || "[]");
@@ -388,6 +274,10 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const newAddOnSets = JSON.parse(formData.get("newAddOnSets") as string || "[]");
     const modifiedAddOnSets = JSON.parse(formData.get("modifiedAddOnSets") as string || "[]");
     const deletedAddOnSetIds = JSON.parse(formData.get("deletedAddOnSetIds") as string || "[]");
+    const newProductGroups = JSON.parse(formData.get("newProductGroups") as string || "[]");
+    const modifiedProductGroups = JSON.parse(formData.get("modifiedProductGroups") as string || "[]");
+    const deletedProductGroupIds = JSON.parse(formData.get("deletedProductGroupIds") as string || "[]");
+    const discountTiers: DiscountTierInput[] = JSON.parse(formData.get("discountTiers") as string || "[]");
 
     // Validation
     const errors: Record<string, string> = {};
@@ -404,6 +294,42 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       errors.endDate = "End date must be after start date";
     }
 
+    if ([...newProductGroups, ...modifiedProductGroups].some((group: { title: string }) => !group.title)) {
+      errors.productGroups = "Every product group needs a title";
+    }
+
+    const tierCounts = discountTiers.map((tier) => tier.minAddOns);
+    if (discountTiers.some((tier) => !(tier.minAddOns >= 1) || !(tier.discountValue > 0) || (tier.discountType === "PERCENTAGE" && tier.discountValue > 100))) {
+      errors.discountTiers = "Each tier needs at least 1 add-on and a discount value (percentages up to 100)";
+    } else if (new Set(tierCounts).size !== tierCounts.length) {
+      errors.discountTiers = "Each tier needs a different number of add-ons";
+    }
+
+    const addOnCount = (await getAddOnSets(bundleId)).length - deletedAddOnSetIds.length + newAddOnSets.length;
+    if (selectionMode === "SINGLE" && minSelections > 1) {
+      errors.selectionLimits = "Single selection allows a minimum of 1 add-on";
+    } else if (selectionMode === "MULTIPLE" && maxSelections !== null && minSelections > maxSelections) {
+      errors.selectionLimits = "Minimum add-ons can't be more than the maximum";
+    } else if (minSelections > addOnCount) {
+      errors.selectionLimits = "Minimum add-ons can't be more than the number of add-ons";
+    }
+
+    if (shippingPerkEnabled && (shippingPerkMinAddOns < 1 || shippingPerkPercentage < 1 || shippingPerkPercentage > 100)) {
+      errors.shippingPerk = "Shipping perk needs at least 1 add-on and a discount between 1% and 100%";
+    }
+
+    if (completeBundleEnabled && (completeBundleDiscountValue <= 0 || (completeBundleDiscountType === "PERCENTAGE" && completeBundleDiscountValue > 100))) {
+      errors.completeBundle = "Complete-the-bundle discount needs a value (percentages up to 100)";
+    }
+
+    if (customerEligibility === "TAGGED_CUSTOMERS" && !eligibleCustomerTags.replace(/,/g, "").trim()) {
+      errors.customerEligibility = "Enter at least one customer tag";
+    }
+
+    if (presentAsBundle && bundleLineImage && !/^https:\/\/\S+$/.test(bundleLineImage)) {
+      errors.presentAsBundle = "Bundle line image must be a public https URL";
+    }
+
     if (Object.keys(errors).length > 0) {
       return { errors };
     }
@@ -416,6 +342,8 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       startDate: startDate ? new Date(startDate) : null,
       endDate: endDate ? new Date(endDate) : null,
       selectionMode,
+      minSelections,
+      maxSelections: selectionMode === "MULTIPLE" ? maxSelections : null,
       targetingType,
       combineWithProductDiscounts,
       combineWithOrderDiscounts,
@@ -423,7 +351,21 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       deleteAddOnsWithMain,
       showSoldOutLabel,
       soldOutLabelText: soldOutLabelText || "Sold out",
+      shippingPerkEnabled,
+      ...(shippingPerkEnabled ? { shippingPerkMinAddOns, shippingPerkPercentage } : {}),
+      shippingPerkLabel: shippingPerkLabel?.trim() || null,
+      completeBundleEnabled,
+      completeBundleDiscountType,
+      completeBundleDiscountValue: completeBundleEnabled ? completeBundleDiscountValue : null,
+      completeBundleLabel: completeBundleLabel?.trim() || null,
+      customerEligibility,
+      eligibleCustomerTags: customerEligibility === "TAGGED_CUSTOMERS" ? eligibleCustomerTags : null,
+      hideBundleForIneligible: customerEligibility !== "ALL_CUSTOMERS" && hideBundleForIneligible,
+      presentAsBundle,
+      bundleLineTitle: presentAsBundle ? bundleLineTitle || null : null,
+      bundleLineImage: presentAsBundle ? bundleLineImage || null : null,
     });
+    await setBundleDiscountTiers(bundleId, discountTiers);
 
     // 2. Process deleted targeted items
     for (const itemId of deletedTargetedItemIds) {
@@ -441,12 +383,34 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       });
     }
 
-    // 4. Process deleted add-on sets
+    // 4. Process product groups (new groups get real IDs that add-ons may reference)
+    for (const groupId of deletedProductGroupIds) {
+      await deleteProductGroup(groupId);
+    }
+
+    const productGroupIdMap = new Map<string, string>();
+    for (const group of newProductGroups) {
+      const newGroup = await createProductGroup({ bundleId, title: group.title, position: group.position });
+      productGroupIdMap.set(group.id, newGroup.id);
+      await addProductGroupItems(newGroup.id, group.items);
+    }
+
+    for (const group of modifiedProductGroups) {
+      await updateProductGroup(group.id, { title: group.title, position: group.position });
+      await clearProductGroupItems(group.id);
+      await addProductGroupItems(group.id, group.items);
+    }
+
+    const resolveProductGroupId = (groupId: string | null | undefined) =>
+      groupId ? productGroupIdMap.get(groupId) ?? groupId : null;
+
+    // 5. Process deleted add-on sets
     for (const addOnSetId of deletedAddOnSetIds) {
       await deleteAddOnSet(addOnSetId);
     }
 
-    // 5. Process new add-on sets
+    // 6. Process new add-on sets (new sets get real IDs that rules may reference)
+    const addOnSetIdMap = new Map<string, string>();
     for (const addOn of newAddOnSets) {
       const newAddOnSet = await createAddOnSet({
         bundleId,
@@ -457,9 +421,13 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         discountValue: addOn.discountValue,
         discountLabel: addOn.discountLabel,
         isDefaultSelected: addOn.isDefaultSelected,
+        isRequired: addOn.isRequired,
         subscriptionOnly: addOn.subscriptionOnly,
         showQuantitySelector: addOn.showQuantitySelector,
         maxQuantity: addOn.maxQuantity,
+        addOnsPerMainUnit: addOn.addOnsPerMainUnit,
+        completesBundle: addOn.completesBundle,
+        productGroupId: resolveProductGroupId(addOn.productGroupId),
       });
 
       // Create variants for the new add-on
@@ -471,9 +439,18 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           variantPrice: v.variantPrice,
         })));
       }
+
+      if (addOn.currencyValues?.length > 0) {
+        await setCurrencyValuesForSet(newAddOnSet.id, addOn.currencyValues);
+      }
+
+      if (addOn.mainVariants?.length > 0) {
+        await setMainVariantsForSet(newAddOnSet.id, addOn.mainVariants);
+      }
+      addOnSetIdMap.set(addOn.id, newAddOnSet.id);
     }
 
-    // 6. Process modified add-on sets
+    // 7. Process modified add-on sets
     for (const addOn of modifiedAddOnSets) {
       await updateAddOnSet(addOn.id, {
         // Include product info in case the product was changed
@@ -485,9 +462,13 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         discountValue: addOn.discountValue,
         discountLabel: addOn.discountLabel,
         isDefaultSelected: addOn.isDefaultSelected,
+        isRequired: addOn.isRequired,
         subscriptionOnly: addOn.subscriptionOnly,
         showQuantitySelector: addOn.showQuantitySelector,
         maxQuantity: addOn.maxQuantity,
+        addOnsPerMainUnit: addOn.addOnsPerMainUnit,
+        completesBundle: addOn.completesBundle,
+        productGroupId: resolveProductGroupId(addOn.productGroupId),
       });
 
       // Update variants if changed
@@ -499,12 +480,32 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           variantPrice: v.variantPrice,
         })));
       }
+
+      if (addOn.currencyValues) {
+        await setCurrencyValuesForSet(addOn.id, addOn.currencyValues);
+      }
+
+      if (addOn.mainVariants) {
+        await setMainVariantsForSet(addOn.id, addOn.mainVariants);
+      }
+    }
+
+    // 8. Rules of new and modified add-on sets (related sets must still exist)
+    const resolveAddOnSetId = (addOnSetId: string) => addOnSetIdMap.get(addOnSetId) ?? addOnSetId;
+    const existingAddOnSetIds = new Set((await getAddOnSets(bundleId)).map((addOnSet) => addOnSet.id));
+    for (const addOn of [...newAddOnSets, ...modifiedAddOnSets] as Array<{ id: string; requiresAddOnIds?: string[]; excludesAddOnIds?: string[] }>) {
+      if (!addOn.requiresAddOnIds && !addOn.excludesAddOnIds) continue;
+      const rules = [
+        ...(addOn.requiresAddOnIds ?? []).map((id) => ({ type: "REQUIRES" as const, relatedAddOnSetId: resolveAddOnSetId(id) })),
+        ...(addOn.excludesAddOnIds ?? []).map((id) => ({ type: "EXCLUDES" as const, relatedAddOnSetId: resolveAddOnSetId(id) })),
+      ].filter((rule) => existingAddOnSetIds.has(rule.relatedAddOnSetId));
+      await setRulesForSet(resolveAddOnSetId(addOn.id), rules);
     }
 
-    // 7. Sync metafields after all changes
+    // 9. Sync metafields after all changes
     await syncBundleMetafields(admin, bundleId, shop);
 
-    // 8. Manage Shopify discount based on status
+    // 10. Manage Shopify discount based on status
     const updatedBundle = await getBundle(bundleId, shop);
     let discountError: string | null = null;
 
@@ -574,30 +575,23 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         }
       }
 
-      // Clear product metafields if this was a SPECIFIC_PRODUCTS bundle
-      if (bundleToDelete.targetingType === "SPECIFIC_PRODUCTS") {
-        console.log("[deleteBundle] Clearing product metafields for SPECIFIC_PRODUCTS bundle");
-        try {
-          // Get the targeted product IDs
-          const targetedItems = await getTargetedItems(bundleId);
-          const productIds = targetedItems
-            .filter(item => item.shopifyResourceType === "Product")
-            .map(item => item.shopifyResourceId);
-
-          console.log("[deleteBundle] Found", productIds.length, "product metafields to clear");
-
-          if (productIds.length > 0) {
-            await clearProductMetafields(admin, productIds);
-            console.log("[deleteBundle] Product metafields cleared");
-          }
-        } catch (error) {
-          console.error("[deleteBundle] Error clearing product metafields:", error);
-        }
+      // Clear product metafields written for SPECIFIC_PRODUCTS / PRODUCT_GROUPS targeting
+      // (including products reached through targeted collections)
+      console.log("[deleteBundle] Clearing product metafields for", bundleToDelete.targetingType, "bundle");
+      try {
+        await clearBundleProductMetafields(admin, bundleToDelete);
+        console.log("[deleteBundle] Product metafields cleared");
+      } catch (error) {
+        console.error("[deleteBundle] Error clearing product metafields:", error);
       }
     }
 
     await deleteBundle(bundleId, shop);
     console.log("[deleteBundle] Bundle deleted from database");
+
+    // Drop the bundle from the cart transform and cart validation configs
+    await syncShopFunctions(admin, shop);
+
     return { success: true, action: "bundleDeleted", redirect: "/app" };
   }
 
@@ -712,19 +706,41 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const discountValue = formData.get("discountValue") as string;
     const discountLabel = formData.get("discountLabel") as string;
     const isDefaultSelected = formData.get("isDefaultSelected") === "true";
+    const isRequired = formData.get("isRequired") === "true";
     const subscriptionOnly = formData.get("subscriptionOnly") === "true";
     const showQuantitySelector = formData.get("showQuantitySelector") === "true";
     const maxQuantity = parseInt(formData.get("maxQuantity") as string) || 1;
+    const addOnsPerMainUnit = formData.get("addOnsPerMainUnit") as string;
+    const completesBundle = formData.get("completesBundle") === "true";
+    const currencyValues = formData.get("currencyValues") as string;
+    const mainVariants = formData.get("mainVariants") as string;
+    const requiresAddOnIds = formData.get("requiresAddOnIds") as string;
+    const excludesAddOnIds = formData.get("excludesAddOnIds") as string;
 
     await updateAddOnSet(addOnSetId, {
       discountType,
       discountValue: discountValue ? parseFloat(discountValue) : null,
       discountLabel: discountLabel || null,
       isDefaultSelected,
+      isRequired,
       subscriptionOnly,
       showQuantitySelector,
       maxQuantity,
+      addOnsPerMainUnit: addOnsPerMainUnit ? parseInt(addOnsPerMainUnit) : null,
+      completesBundle,
     });
+    if (currencyValues) {
+      await setCurrencyValuesForSet(addOnSetId, JSON.parse(currencyValues));
+    }
+    if (mainVariants) {
+      await setMainVariantsForSet(addOnSetId, JSON.parse(mainVariants));
+    }
+    if (requiresAddOnIds || excludesAddOnIds) {
+      await setRulesForSet(addOnSetId, [
+        ...JSON.parse(requiresAddOnIds || "[]").map((id: string) => ({ type: "REQUIRES" as const, relatedAddOnSetId: id })),
+        ...JSON.parse(excludesAddOnIds || "[]").map((id: string) => ({ type: "EXCLUDES" as const, relatedAddOnSetId: id })),
+      ]);
+    }
 
     // Sync metafields after add-on updated
     await syncBundleMetafields(admin, bundleId, shop);
@@ -894,9 +910,16 @@ interface LocalAddOnSet {
   discountValue: number | null;
   discountLabel: string | null;
   isDefaultSelected: boolean;
+  isRequired: boolean; // Customers can't add the main product to the cart without it
   subscriptionOnly: boolean;
   showQuantitySelector: boolean;
   maxQuantity: number;
+  addOnsPerMainUnit: number | null; // Discounted add-ons per main product unit (null = no limit)
+  completesBundle: boolean; // Required for the "complete the bundle" discount
+  currencyValues: LocalCurrencyValue[]; // FIXED_AMOUNT/FIXED_PRICE per presentment currency
+  mainVariants: LocalMainVariant[]; // Main product variants the add-on is offered with (empty = every variant)
+  requiresAddOnIds: string[]; // Add-ons that must be selected first
+  excludesAddOnIds: string[]; // Add-ons it can't be selected with
   selectedVariants: Array<{
     id: string;
     shopifyVariantId: string;
@@ -904,11 +927,61 @@ interface LocalAddOnSet {
     variantSku: string | null;
     variantPrice: number | null;
   }>;
+  productGroupId: string | null; // PRODUCT_GROUPS: null = offered with every group
   isNew?: boolean; // Track if this is a new item not yet saved
   isModified?: boolean; // Track if this item has been modified
   productStatus?: string; // Shopify product status: ACTIVE, DRAFT, ARCHIVED
 }
 
+interface LocalProductGroupItem {
+  shopifyResourceId: string;
+  shopifyResourceType: "Product" | "Collection";
+  title: string;
+  imageUrl?: string;
+}
+
+interface LocalProductGroup {
+  id: string;
+  title: string;
+  position: number; // Saved position, used to detect reordering
+  items: LocalProductGroupItem[];
+  isNew?: boolean; // Track if this is a new group not yet saved
+  isModified?: boolean; // Track if this group has been modified
+}
+
+interface LocalDiscountTier {
+  id: string;
+  minAddOns: number;
+  discountType: "PERCENTAGE" | "FIXED_AMOUNT";
+  discountValue: number | null;
+  discountLabel: string;
+}
+
+interface LocalMainVariant {
+  shopifyVariantId: string;
+  variantTitle: string | null;
+  productTitle: string | null;
+}
+
+interface LocalCurrencyValue {
+  currencyCode: string; // ISO 4217, e.g. "EUR"
+  discountValue: number;
+}
+
+/**
+ * Keep only complete currency overrides (3-letter code, non-negative value), one per currency
+ */
+function sanitizeCurrencyValues(values: Array<{ currencyCode: string; discountValue: number | null }>): LocalCurrencyValue[] {
+  const byCurrency = new Map<string, number>();
+  for (const value of values) {
+    const currencyCode = value.currencyCode.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(currencyCode) && value.discountValue !== null && value.discountValue >= 0) {
+      byCurrency.set(currencyCode, value.discountValue);
+    }
+  }
+  return Array.from(byCurrency, ([currencyCode, discountValue]) => ({ currencyCode, discountValue }));
+}
+
 export default function EditBundle() {
   const { bundle, addOnSets: initialAddOnSets, widgetStyle, targetedItems: initialTargetedItems } = useLoaderData<LoaderData>();
   const fetcher = useFetcher();
@@ -944,9 +1017,23 @@ export default function EditBundle() {
       discountValue: addOn.discountValue ? Number(addOn.discountValue) : null,
       discountLabel: addOn.discountLabel,
       isDefaultSelected: addOn.isDefaultSelected,
+      isRequired: addOn.isRequired,
       subscriptionOnly: addOn.subscriptionOnly,
       showQuantitySelector: addOn.showQuantitySelector,
       maxQuantity: addOn.maxQuantity,
+      addOnsPerMainUnit: addOn.addOnsPerMainUnit,
+      completesBundle: addOn.completesBundle,
+      currencyValues: addOn.currencyValues.map(v => ({
+        currencyCode: v.currencyCode,
+        discountValue: Number(v.discountValue),
+      })),
+      mainVariants: addOn.mainVariants.map(v => ({
+        shopifyVariantId: v.shopifyVariantId,
+        variantTitle: v.variantTitle,
+        productTitle: v.productTitle,
+      })),
+      requiresAddOnIds: addOn.rules.filter(rule => rule.type === "REQUIRES").map(rule => rule.relatedAddOnSetId),
+      excludesAddOnIds: addOn.rules.filter(rule => rule.type === "EXCLUDES").map(rule => rule.relatedAddOnSetId),
       selectedVariants: addOn.selectedVariants.map(v => ({
         id: v.id,
         shopifyVariantId: v.shopifyVariantId,
@@ -954,18 +1041,48 @@ export default function EditBundle() {
         variantSku: v.variantSku,
         variantPrice: v.variantPrice ? Number(v.variantPrice) : null,
       })),
+      productGroupId: addOn.productGroupId,
       // Product status from Shopify (ACTIVE, DRAFT, ARCHIVED)
       productStatus: (addOn as Record<string, unknown>).productStatus as string | undefined,
     }))
   );
   const [deletedAddOnSetIds, setDeletedAddOnSetIds] = useState<string[]>([]);
 
+  // Local state for product groups (changes only saved on Save button click)
+  const [localProductGroups, setLocalProductGroups] = useState<LocalProductGroup[]>(
+    (bundle.productGroups ?? []).map(group => ({
+      id: group.id,
+      title: group.title,
+      position: group.position,
+      items: group.items.map(item => ({
+        shopifyResourceId: item.shopifyResourceId,
+        shopifyResourceType: item.shopifyResourceType as "Product" | "Collection",
+        title: item.title || "",
+        imageUrl: item.imageUrl || undefined,
+      })),
+    }))
+  );
+  const [deletedProductGroupIds, setDeletedProductGroupIds] = useState<string[]>([]);
+
+  // Local state for discount tiers (replaced as a whole on save)
+  const [localDiscountTiers, setLocalDiscountTiers] = useState<LocalDiscountTier[]>(
+    (bundle.discountTiers ?? []).map(tier => ({
+      id: tier.id,
+      minAddOns: tier.minAddOns,
+      discountType: tier.discountType === "FIXED_AMOUNT" ? "FIXED_AMOUNT" : "PERCENTAGE",
+      discountValue: tier.discountValue ? Number(tier.discountValue) : null,
+      discountLabel: tier.discountLabel || "",
+    }))
+  );
+
   // Track if there are unsaved changes
   const hasUnsavedChanges =
     deletedTargetedItemIds.length > 0 ||
     deletedAddOnSetIds.length > 0 ||
+    deletedProductGroupIds.length > 0 ||
     localTargetedItems.some(item => item.isNew) ||
-    localAddOnSets.some(addOn => addOn.isNew || addOn.isModified);
+    localAddOnSets.some(addOn => addOn.isNew || addOn.isModified) ||
+    localProductGroups.some((group, index) => group.isNew || group.isModified || group.position !== index);
 
   // Show toast for bundle creation (redirected from new bundle page)
   useEffect(() => {
@@ -1003,6 +1120,8 @@ export default function EditBundle() {
     startDate: formatDateTimeLocal(bundle.startDate),
     endDate: formatDateTimeLocal(bundle.endDate),
     selectionMode: bundle.selectionMode,
+    minSelections: String(bundle.minSelections),
+    maxSelections: bundle.maxSelections?.toString() || "",
     targetingType: bundle.targetingType,
     combineWithProductDiscounts: bundle.combineWithProductDiscounts,
     combineWithOrderDiscounts: bundle.combineWithOrderDiscounts,
@@ -1010,6 +1129,20 @@ export default function EditBundle() {
     deleteAddOnsWithMain: bundleExt.deleteAddOnsWithMain as boolean || false,
     showSoldOutLabel: bundleExt.showSoldOutLabel as boolean || false,
     soldOutLabelText: (bundleExt.soldOutLabelText as string) || "Sold out",
+    shippingPerkEnabled: bundle.shippingPerkEnabled,
+    shippingPerkMinAddOns: String(bundle.shippingPerkMinAddOns),
+    shippingPerkPercentage: String(bundle.shippingPerkPercentage),
+    shippingPerkLabel: bundle.shippingPerkLabel || "",
+    completeBundleEnabled: bundle.completeBundleEnabled,
+    completeBundleDiscountType: bundle.completeBundleDiscountType,
+    completeBundleDiscountValue: bundle.completeBundleDiscountValue?.toString() || "",
+    completeBundleLabel: bundle.completeBundleLabel || "",
+    customerEligibility: bundle.customerEligibility,
+    eligibleCustomerTags: bundle.eligibleCustomerTags || "",
+    hideBundleForIneligible: bundle.hideBundleForIneligible,
+    presentAsBundle: bundle.presentAsBundle,
+    bundleLineTitle: bundle.bundleLineTitle || "",
+    bundleLineImage: bundle.bundleLineImage || "",
   });
 
   // Type assertion for widgetStyle properties not yet in Prisma client
@@ -1017,6 +1150,7 @@ export default function EditBundle() {
 
   const [style, setStyle] = useState<StyleState>({
     template: (widgetStyleExt.template as WidgetTemplate) || "DEFAULT",
+    displayMode: widgetStyle.displayMode,
     backgroundColor: widgetStyle.backgroundColor,
     fontColor: widgetStyle.fontColor,
     buttonColor: widgetStyle.buttonColor,
@@ -1064,9 +1198,11 @@ export default function EditBundle() {
       // Reset local state tracking after successful save
       setDeletedTargetedItemIds([]);
       setDeletedAddOnSetIds([]);
+      setDeletedProductGroupIds([]);
       // Reset isNew and isModified flags
       setLocalTargetedItems(prev => prev.map(item => ({ ...item, isNew: false })));
       setLocalAddOnSets(prev => prev.map(addOn => ({ ...addOn, isNew: false, isModified: false })));
+      setLocalProductGroups(prev => prev.map((group, index) => ({ ...group, position: index, isNew: false, isModified: false })));
     } else if (fetcher.data?.action === "bundleDeleted") {
       shopify.toast.show("Bundle deleted");
       navigate("/app");
@@ -1078,6 +1214,7 @@ export default function EditBundle() {
       // Update local style state with defaults
       setStyle({
         template: "DEFAULT",
+        displayMode: "INLINE",
         backgroundColor: "#ffffff",
         fontColor: "#000000",
         buttonColor: "#000000",
@@ -1128,6 +1265,11 @@ export default function EditBundle() {
     const newTargetedItems = localTargetedItems.filter(item => item.isNew);
     const newAddOnSets = localAddOnSets.filter(addOn => addOn.isNew);
     const modifiedAddOnSets = localAddOnSets.filter(addOn => addOn.isModified && !addOn.isNew);
+    const productGroupsToSave = localProductGroups.map((group, index) => ({ ...group, title: group.title.trim(), position: index }));
+    const newProductGroups = productGroupsToSave.filter(group => group.isNew);
+    const modifiedProductGroups = productGroupsToSave.filter((group, index) =>
+      !group.isNew && (group.isModified || localProductGroups[index].position !== index)
+    );
 
     fetcher.submit(
       {
@@ -1136,6 +1278,10 @@ export default function EditBundle() {
         // Convert booleans to string for form submission
         deleteAddOnsWithMain: form.deleteAddOnsWithMain ? "true" : "false",
         showSoldOutLabel: form.showSoldOutLabel ? "true" : "false",
+        shippingPerkEnabled: form.shippingPerkEnabled ? "true" : "false",
+        completeBundleEnabled: form.completeBundleEnabled ? "true" : "false",
+        hideBundleForIneligible: form.hideBundleForIneligible ? "true" : "false",
+        presentAsBundle: form.presentAsBundle ? "true" : "false",
         // Targeted items changes
         newTargetedItems: JSON.stringify(newTargetedItems),
         deletedTargetedItemIds: JSON.stringify(deletedTargetedItemIds),
@@ -1143,10 +1289,21 @@ export default function EditBundle() {
         newAddOnSets: JSON.stringify(newAddOnSets),
         modifiedAddOnSets: JSON.stringify(modifiedAddOnSets),
         deletedAddOnSetIds: JSON.stringify(deletedAddOnSetIds),
+        // Product groups changes
+        newProductGroups: JSON.stringify(newProductGroups),
+        modifiedProductGroups: JSON.stringify(modifiedProductGroups),
+        deletedProductGroupIds: JSON.stringify(deletedProductGroupIds),
+        // Discount tiers (replaced as a whole)
+        discountTiers: JSON.stringify(localDiscountTiers.map(tier => ({
+          minAddOns: tier.minAddOns,
+          discountType: tier.discountType,
+          discountValue: tier.discountValue,
+          discountLabel: tier.discountLabel.trim() || null,
+        }))),
       },
       { method: "POST" }
     );
-  }, [fetcher, form, localTargetedItems, localAddOnSets, deletedTargetedItemIds, deletedAddOnSetIds]);
+  }, [fetcher, form, localTargetedItems, localAddOnSets, localProductGroups, localDiscountTiers, deletedTargetedItemIds, deletedAddOnSetIds, deletedProductGroupIds]);
 
   const handleDeleteBundle = useCallback(() => {
     setIsDeleteBundleModalOpen(true);
@@ -1190,6 +1347,13 @@ export default function EditBundle() {
       setLocalAddOnSets(prev => prev.filter(a => a.id !== addOnSetId));
       setDeletedAddOnSetIds(prev => [...prev, addOnSetId]);
     }
+
+    // Rules referencing it are dropped (saved rules are deleted with the add-on set)
+    setLocalAddOnSets(prev => prev.map(a => ({
+      ...a,
+      requiresAddOnIds: a.requiresAddOnIds.filter(id => id !== addOnSetId),
+      excludesAddOnIds: a.excludesAddOnIds.filter(id => id !== addOnSetId),
+    })));
   };
 
   const openProductPicker = useCallback(async () => {
@@ -1236,9 +1400,17 @@ export default function EditBundle() {
         discountValue: null,
         discountLabel: null,
         isDefaultSelected: false,
+        isRequired: false,
         subscriptionOnly: false,
         showQuantitySelector: false,
         maxQuantity: 1,
+        addOnsPerMainUnit: null,
+        completesBundle: false,
+        currencyValues: [],
+        mainVariants: [],
+        requiresAddOnIds: [],
+        excludesAddOnIds: [],
+        productGroupId: null,
         selectedVariants: selectedVariants.map(v => ({
           id: `new-variant-${v.id}`,
           shopifyVariantId: v.id,
@@ -1397,6 +1569,90 @@ export default function EditBundle() {
     }
   };
 
+  // Product group handlers
+  const handleAddProductGroup = () => {
+    setLocalProductGroups(prev => [
+      ...prev,
+      {
+        id: `new-group-${Date.now()}`,
+        title: `Group ${prev.length + 1}`,
+        position: prev.length,
+        items: [],
+        isNew: true,
+      },
+    ]);
+  };
+
+  const handleUpdateProductGroup = (groupId: string, updates: Partial<LocalProductGroup>) => {
+    setLocalProductGroups(prev => prev.map(group =>
+      group.id === groupId ? { ...group, ...updates, isModified: !group.isNew } : group
+    ));
+  };
+
+  const handleMoveProductGroup = (groupId: string, direction: -1 | 1) => {
+    setLocalProductGroups(prev => {
+      const index = prev.findIndex(group => group.id === groupId);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemoveProductGroup = (groupId: string) => {
+    const group = localProductGroups.find(g => g.id === groupId);
+    setLocalProductGroups(prev => prev.filter(g => g.id !== groupId));
+    if (group && !group.isNew) {
+      // Mark for deletion (will be deleted when Save is clicked)
+      setDeletedProductGroupIds(prev => [...prev, groupId]);
+    }
+    // Add-ons offered only with this group fall back to every group
+    setLocalAddOnSets(prev => prev.map(addOn =>
+      addOn.productGroupId === groupId ? { ...addOn, productGroupId: null } : addOn
+    ));
+  };
+
+  const openProductGroupResourcePicker = async (groupId: string) => {
+    const group = localProductGroups.find(g => g.id === groupId);
+    if (!group) return;
+
+    const selected = await shopify.resourcePicker({ type: "product", multiple: true });
+    if (selected && selected.length > 0) {
+      const existingIds = new Set(group.items.map(item => item.shopifyResourceId));
+      const newItems = selected.filter(resource => !existingIds.has(resource.id));
+      const skippedCount = selected.length - newItems.length;
+
+      if (skippedCount > 0) {
+        shopify.toast.show(`${skippedCount} item(s) already in this group, skipped`);
+      }
+
+      if (newItems.length > 0) {
+        handleUpdateProductGroup(groupId, {
+          items: [
+            ...group.items,
+            ...newItems.map(resource => ({
+              shopifyResourceId: resource.id,
+              shopifyResourceType: "Product" as const,
+              title: resource.title,
+              imageUrl: (resource as { images?: { originalSrc?: string }[] }).images?.[0]?.originalSrc,
+            })),
+          ],
+        });
+        shopify.toast.show(`${newItems.length} product(s) added - click Save to apply`);
+      }
+    }
+  };
+
+  const handleRemoveProductGroupItem = (groupId: string, shopifyResourceId: string) => {
+    const group = localProductGroups.find(g => g.id === groupId);
+    if (group) {
+      handleUpdateProductGroup(groupId, {
+        items: group.items.filter(item => item.shopifyResourceId !== shopifyResourceId),
+      });
+    }
+  };
+
   const handleRemoveTargetedItem = (itemId: string) => {
     const item = localTargetedItems.find(i => i.id === itemId);
     if (item?.isNew) {
@@ -1544,6 +1800,7 @@ export default function EditBundle() {
           >
             <s-option value="ALL_PRODUCTS" selected={form.targetingType === "ALL_PRODUCTS"}>All products</s-option>
             <s-option value="SPECIFIC_PRODUCTS" selected={form.targetingType === "SPECIFIC_PRODUCTS"}>Specific products or collections</s-option>
+            <s-option value="PRODUCT_GROUPS" selected={form.targetingType === "PRODUCT_GROUPS"}>Product groups</s-option>
           </s-select>
 
           {/* Description and targeting UI based on type */}
@@ -1641,6 +1898,49 @@ export default function EditBundle() {
             </s-box>
           )}
 
+          {/* Product groups UI */}
+          {form.targetingType === "PRODUCT_GROUPS" && (
+            <s-box padding="base" borderWidth="base" borderRadius="base" background="subdued">
+              <s-stack direction="block" gap="tight">
+                <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+                  <s-text variant="headingSm">Product groups</s-text>
+                  <s-button variant="secondary" onClick={handleAddProductGroup}>
+                    Add group
+                  </s-button>
+                </div>
+                <s-text color="subdued" variant="bodySm">
+                  Add-ons appear on the products in each group. Assign an add-on to a group in its configuration to offer it only there. Products in several groups show one tab per group.
+                </s-text>
+                {errors.productGroups && (
+                  <s-text color="critical" variant="bodySm">{errors.productGroups}</s-text>
+                )}
+
+                {localProductGroups.length === 0 ? (
+                  <s-text color="subdued" variant="bodySm">
+                    No product groups yet.
+                  </s-text>
+                ) : (
+                  <s-stack direction="block" gap="tight">
+                    {localProductGroups.map((group, index) => (
+                      <ProductGroupCard
+                        key={group.id}
+                        group={group}
+                        isFirst={index === 0}
+                        isLast={index === localProductGroups.length - 1}
+                        isUnsaved={group.isNew || group.isModified}
+                        onTitleChange={(title) => handleUpdateProductGroup(group.id, { title })}
+                        onMove={(direction) => handleMoveProductGroup(group.id, direction)}
+                        onRemove={() => handleRemoveProductGroup(group.id)}
+                        onAddProducts={() => openProductGroupResourcePicker(group.id)}
+                        onRemoveItem={(resourceId) => handleRemoveProductGroupItem(group.id, resourceId)}
+                      />
+                    ))}
+                  </s-stack>
+                )}
+              </s-stack>
+            </s-box>
+          )}
+
         </s-stack>
       </s-section>
 
@@ -1667,6 +1967,8 @@ export default function EditBundle() {
                   key={addOn.id}
                   addOn={addOn}
                   isUnsaved={addOn.isNew || addOn.isModified}
+                  productGroups={form.targetingType === "PRODUCT_GROUPS" ? localProductGroups : undefined}
+                  otherAddOns={localAddOnSets.filter(other => other.id !== addOn.id).map(other => ({ id: other.id, title: other.productTitle || "" }))}
                   onDelete={() => handleDeleteAddOn(addOn.id)}
                   onUpdate={(data) => {
                     // Update local state (will be saved when Save is clicked)
@@ -1678,9 +1980,17 @@ export default function EditBundle() {
                           discountValue: data.discountValue ? parseFloat(data.discountValue) : a.discountValue,
                           discountLabel: data.discountLabel || a.discountLabel,
                           isDefaultSelected: data.isDefaultSelected === "true",
+                          isRequired: data.isRequired === "true",
                           subscriptionOnly: data.subscriptionOnly === "true",
                           showQuantitySelector: data.showQuantitySelector === "true",
                           maxQuantity: data.maxQuantity ? parseInt(data.maxQuantity) : a.maxQuantity,
+                          addOnsPerMainUnit: data.addOnsPerMainUnit ? parseInt(data.addOnsPerMainUnit) : null,
+                          completesBundle: data.completesBundle === "true",
+                          currencyValues: data.currencyValues ? JSON.parse(data.currencyValues) : a.currencyValues,
+                          mainVariants: data.mainVariants ? JSON.parse(data.mainVariants) : a.mainVariants,
+                          requiresAddOnIds: data.requiresAddOnIds ? JSON.parse(data.requiresAddOnIds) : a.requiresAddOnIds,
+                          excludesAddOnIds: data.excludesAddOnIds ? JSON.parse(data.excludesAddOnIds) : a.excludesAddOnIds,
+                          productGroupId: data.productGroupId !== undefined ? data.productGroupId || null : a.productGroupId,
                           isModified: !a.isNew, // Mark as modified if not new
                         };
                       }
@@ -1702,6 +2012,185 @@ export default function EditBundle() {
         </s-stack>
       </s-section>
 
+      <s-section heading="Tiered discounts">
+        <DiscountTiersEditor
+          tiers={localDiscountTiers}
+          error={errors.discountTiers}
+          onChange={(tiers) => {
+            setLocalDiscountTiers(tiers);
+            if (errors.discountTiers) {
+              setErrors((prev) => {
+                const newErrors = { ...prev };
+                delete newErrors.discountTiers;
+                return newErrors;
+              });
+            }
+          }}
+        />
+      </s-section>
+
+      <s-section heading="Shipping perk">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Discount shipping when add-ons are bought with the main product"
+            checked={form.shippingPerkEnabled}
+            onChange={(e: Event) => handleFormChange("shippingPerkEnabled", (e.target as HTMLInputElement).checked)}
+          />
+          {form.shippingPerkEnabled && (
+            <>
+              <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label="Minimum add-ons"
+                    type="number"
+                    value={form.shippingPerkMinAddOns}
+                    min="1"
+                    max="99"
+                    onInput={(e: Event) => handleFormChange("shippingPerkMinAddOns", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+                  />
+                </div>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label="Shipping discount (%)"
+                    type="number"
+                    value={form.shippingPerkPercentage}
+                    min="1"
+                    max="100"
+                    onInput={(e: Event) => handleFormChange("shippingPerkPercentage", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+                  />
+                </div>
+              </div>
+              <s-text-field
+                label="Label (optional)"
+                value={form.shippingPerkLabel}
+                placeholder={form.shippingPerkPercentage === "100" ? "Free shipping" : "e.g., 50% off shipping"}
+                onInput={(e: Event) => handleFormChange("shippingPerkLabel", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                Applies to the shipment containing a main product and at least this many of its add-ons. Use 100% for free shipping.
+              </s-text>
+            </>
+          )}
+          {errors.shippingPerk && (
+            <s-text color="critical" variant="bodySm">{errors.shippingPerk}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Complete the bundle">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Discount the order when the main product and all required add-ons are in the cart"
+            checked={form.completeBundleEnabled}
+            onChange={(e: Event) => handleFormChange("completeBundleEnabled", (e.target as HTMLInputElement).checked)}
+          />
+          {form.completeBundleEnabled && (
+            <>
+              <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                <div style={{ width: "200px" }}>
+                  <s-select
+                    label="Discount type"
+                    value={form.completeBundleDiscountType}
+                    onInput={(e: Event) => handleFormChange("completeBundleDiscountType", (e.target as HTMLSelectElement).value)}
+                  >
+                    <s-option value="PERCENTAGE" selected={form.completeBundleDiscountType === "PERCENTAGE"}>Percentage off</s-option>
+                    <s-option value="FIXED_AMOUNT" selected={form.completeBundleDiscountType === "FIXED_AMOUNT"}>Fixed amount off</s-option>
+                  </s-select>
+                </div>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label={form.completeBundleDiscountType === "PERCENTAGE" ? "Discount (%)" : "Amount off"}
+                    type="number"
+                    value={form.completeBundleDiscountValue}
+                    min="0"
+                    onInput={(e: Event) => handleFormChange("completeBundleDiscountValue", (e.target as HTMLInputElement).value)}
+                  />
+                </div>
+              </div>
+              <s-text-field
+                label="Label (optional)"
+                value={form.completeBundleLabel}
+                placeholder="e.g., Complete the bundle and save"
+                onInput={(e: Event) => handleFormChange("completeBundleLabel", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                Applies to the main product and its add-ons. Mark add-ons as required in their settings; if none are marked, all add-ons are required. Fixed amounts apply once per completed bundle.
+              </s-text>
+            </>
+          )}
+          {errors.completeBundle && (
+            <s-text color="critical" variant="bodySm">{errors.completeBundle}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Customer eligibility">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Who gets the add-on discounts?"
+            value={form.customerEligibility}
+            onInput={(e: Event) => handleFormChange("customerEligibility", (e.target as HTMLSelectElement).value)}
+          >
+            <s-option value="ALL_CUSTOMERS" selected={form.customerEligibility === "ALL_CUSTOMERS"}>All customers</s-option>
+            <s-option value="TAGGED_CUSTOMERS" selected={form.customerEligibility === "TAGGED_CUSTOMERS"}>Logged-in customers with specific tags</s-option>
+            <s-option value="B2B_CUSTOMERS" selected={form.customerEligibility === "B2B_CUSTOMERS"}>B2B customers (buying for a company)</s-option>
+          </s-select>
+          {form.customerEligibility === "TAGGED_CUSTOMERS" && (
+            <s-text-field
+              label="Customer tags"
+              value={form.eligibleCustomerTags}
+              placeholder="e.g., VIP, wholesale"
+              details="Comma-separated. Customers with any of these tags get the discounts."
+              onInput={(e: Event) => handleFormChange("eligibleCustomerTags", (e.target as HTMLInputElement).value)}
+            />
+          )}
+          {form.customerEligibility !== "ALL_CUSTOMERS" && (
+            <s-checkbox
+              label="Hide the bundle from other visitors (otherwise it shows at regular prices)"
+              checked={form.hideBundleForIneligible}
+              onChange={(e: Event) => handleFormChange("hideBundleForIneligible", (e.target as HTMLInputElement).checked)}
+            />
+          )}
+          {errors.customerEligibility && (
+            <s-text color="critical" variant="bodySm">{errors.customerEligibility}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Cart presentation">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Show the main product and its add-ons as one bundle line in the cart"
+            checked={form.presentAsBundle}
+            onChange={(e: Event) => handleFormChange("presentAsBundle", (e.target as HTMLInputElement).checked)}
+          />
+          {form.presentAsBundle && (
+            <>
+              <s-text-field
+                label="Bundle line title (optional)"
+                value={form.bundleLineTitle}
+                placeholder="e.g., Camera + lens kit"
+                details="Defaults to the main product title plus bundle, e.g. Camera bundle."
+                onInput={(e: Event) => handleFormChange("bundleLineTitle", (e.target as HTMLInputElement).value)}
+              />
+              <s-text-field
+                label="Bundle line image URL (optional)"
+                value={form.bundleLineImage}
+                placeholder="https://cdn.shopify.com/..."
+                details="Must be a public https URL. Defaults to the main product image."
+                onInput={(e: Event) => handleFormChange("bundleLineImage", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                The products still appear individually in order details. Add-ons added on their own stay separate lines.
+              </s-text>
+            </>
+          )}
+          {errors.presentAsBundle && (
+            <s-text color="critical" variant="bodySm">{errors.presentAsBundle}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
       {/* Styles Section - Aside */}
       <s-section slot="aside" heading="Styles">
         <s-button ref={stylesButtonRef} variant="secondary" style={{ width: '100%' }}>
@@ -1754,6 +2243,37 @@ export default function EditBundle() {
           <s-option value="MULTIPLE" selected={form.selectionMode === "MULTIPLE"}>Multiple - Customers can select multiple add-ons</s-option>
           <s-option value="SINGLE" selected={form.selectionMode === "SINGLE"}>Single - Customers can select only one add-on</s-option>
         </s-select>
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", marginTop: "12px" }}>
+          <div style={{ width: "140px" }}>
+            <s-text-field
+              label="Minimum add-ons"
+              type="number"
+              value={form.minSelections}
+              min="0"
+              max={form.selectionMode === "SINGLE" ? "1" : "99"}
+              onInput={(e: Event) => handleFormChange("minSelections", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+            />
+          </div>
+          {form.selectionMode === "MULTIPLE" && (
+            <div style={{ width: "140px" }}>
+              <s-text-field
+                label="Maximum add-ons"
+                type="number"
+                value={form.maxSelections}
+                min="1"
+                max="99"
+                placeholder="No limit"
+                onInput={(e: Event) => handleFormChange("maxSelections", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+              />
+            </div>
+          )}
+        </div>
+        <s-text color="subdued" variant="bodySm">
+          Add to cart is blocked until the minimum is selected; other add-ons are disabled once the maximum is reached.
+        </s-text>
+        {errors.selectionLimits && (
+          <s-text color="critical" variant="bodySm">{errors.selectionLimits}</s-text>
+        )}
       </s-section>
 
       {/* Discount Combinations Section - Aside */}
@@ -1991,6 +2511,23 @@ function StylesModal({ style, onStyleChange, onClose, onSave, onReset, bundle, a
               </s-select>
             </div>
 
+            {/* Display Mode Section */}
+            <div style={{ marginBottom: "24px" }}>
+              <s-select
+                label="Display mode"
+                value={style.displayMode}
+                onInput={(e: Event) => onStyleChange("displayMode", (e.target as HTMLSelectElement).value)}
+              >
+                <s-option value="INLINE" selected={style.displayMode === "INLINE"}>Inline (next to the buy buttons)</s-option>
+                <s-option value="MODAL" selected={style.displayMode === "MODAL"}>Modal after Add to Cart</s-option>
+              </s-select>
+              {style.displayMode === "MODAL" && (
+                <s-text color="subdued" variant="bodySm">
+                  Nothing is shown next to the buy buttons. Add to Cart opens a modal with the add-ons.
+                </s-text>
+              )}
+            </div>
+
             {/* Colors Section */}
             <div style={{ marginBottom: "24px" }}>
               <s-stack direction="block" gap="tight">
@@ -2027,6 +2564,8 @@ function StylesModal({ style, onStyleChange, onClose, onSave, onReset, bundle, a
                     >
                       <s-option value="LIST" selected={style.layoutType === "LIST"}>List</s-option>
                       <s-option value="GRID" selected={style.layoutType === "GRID"}>Grid</s-option>
+                      <s-option value="CAROUSEL" selected={style.layoutType === "CAROUSEL"}>Carousel</s-option>
+                      <s-option value="FREQUENTLY_BOUGHT_TOGETHER" selected={style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER"}>Frequently bought together</s-option>
                     </s-select>
                   </div>
                   <div style={{ flex: 1 }}>
@@ -2535,7 +3074,23 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
     }),
   };
 
-  return (
+  // Frequently bought together: image strip and the total of the pre-selected add-ons
+  // (the main product price is only known on the product page)
+  const fbtImageStyle: React.CSSProperties = {
+    width: "64px",
+    height: "64px",
+    objectFit: "cover",
+    display: "block",
+    borderRadius: `${Math.max(4, style.borderRadius / 2)}px`,
+    backgroundColor: "rgba(0,0,0,0.05)",
+  };
+  const fbtAddOnTotal = addOnSets.reduce((total, addOn) => {
+    const variantPrice = addOn.selectedVariants?.[0]?.variantPrice;
+    if (!variantPrice || !(addOn.isDefaultSelected || addOn.discountType === "FREE_GIFT")) return total;
+    return total + calculateDiscountedPrice(Number(variantPrice), addOn.discountType, addOn.discountValue ? Number(addOn.discountValue) : null);
+  }, 0);
+
+  const widget = (
     <div style={previewStyle}>
       {/* Title */}
       {bundle.title && <div style={titleStyle}>{bundle.title}</div>}
@@ -2578,6 +3133,38 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
         </div>
       )}
 
+      {/* Frequently Bought Together Strip */}
+      {style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER" && addOnSets.length > 0 && (
+        <div style={{ marginBottom: "16px" }}>
+          <div style={{ display: "flex", alignItems: "center", flexWrap: "wrap", gap: "8px" }}>
+            <div style={{ ...fbtImageStyle, display: "flex", alignItems: "center", justifyContent: "center", fontSize: "0.75em", opacity: 0.6 }}>
+              Product
+            </div>
+            {addOnSets.slice(0, 3).map((addOn) => (
+              <span
+                key={addOn.id}
+                style={{
+                  display: "inline-flex",
+                  alignItems: "center",
+                  gap: "8px",
+                  opacity: addOn.isDefaultSelected || addOn.discountType === "FREE_GIFT" ? 1 : 0.35,
+                }}
+              >
+                <span style={{ fontSize: "1.4em", fontWeight: 600, opacity: 0.6 }}>+</span>
+                {addOn.productImageUrl ? (
+                  <img src={addOn.productImageUrl} alt={addOn.productTitle || ""} style={fbtImageStyle} />
+                ) : (
+                  <span style={fbtImageStyle} />
+                )}
+              </span>
+            ))}
+          </div>
+          <div style={{ marginTop: "12px", fontWeight: 600 }}>
+            Total price: product price + ${fbtAddOnTotal.toFixed(2)}
+          </div>
+        </div>
+      )}
+
       {/* Add-On List */}
       {addOnSets.length === 0 ? (
         <div style={{ opacity: 0.6, textAlign: "center", padding: "20px" }}>
@@ -2586,9 +3173,10 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
       ) : (
         <div style={{
           display: "flex",
-          flexDirection: style.layoutType === "GRID" ? "row" : "column",
+          flexDirection: style.layoutType === "GRID" || style.layoutType === "CAROUSEL" ? "row" : "column",
           gap: isModern ? "16px" : "12px",
-          flexWrap: "wrap"
+          flexWrap: style.layoutType === "CAROUSEL" ? "nowrap" : "wrap",
+          ...(style.layoutType === "CAROUSEL" && { overflowX: "auto", scrollSnapType: "x mandatory" }),
         }}>
           {addOnSets.slice(0, 3).map((addOn) => {
             const firstVariant = addOn.selectedVariants?.[0];
@@ -2606,7 +3194,9 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
                 gap: "12px",
                 padding: "12px",
                 borderRadius: `${Math.max(4, style.borderRadius / 2)}px`,
-                flex: style.layoutType === "GRID" ? "1 1 45%" : "none",
+                flex: style.layoutType === "GRID" ? "1 1 45%" : style.layoutType === "CAROUSEL" ? "0 0 70%" : "none",
+                // Carousel cards stack the image above the content
+                ...(style.layoutType === "CAROUSEL" && { flexDirection: "column", alignItems: "flex-start", scrollSnapAlign: "start" }),
               };
 
               if (isMinimal) {
@@ -2695,6 +3285,8 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
                   backgroundColor: isMinimal ? "transparent" : "rgba(0,0,0,0.05)",
                   ...(isMinimal && { border: "1px solid rgba(0,0,0,0.08)" }),
                   ...(isModern && { boxShadow: "0 2px 8px rgba(0,0,0,0.1)" }),
+                  // Frequently bought together shows the images in the strip above the list
+                  ...(style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER" && { display: "none" }),
                 }}>
                   {addOn.productImageUrl ? (
                     <img
@@ -2822,20 +3414,404 @@ function StylesModalPreview({ bundle, addOnSets, style }: StylesModalPreviewProp
           )}
         </div>
       )}
+
+      {/* Modal actions (MODAL display mode) */}
+      {style.displayMode === "MODAL" && (
+        <div style={{ display: "flex", gap: "8px", marginTop: "16px" }}>
+          <button
+            type="button"
+            style={{
+              flex: 1,
+              padding: "12px",
+              border: "none",
+              borderRadius: `${style.borderRadius}px`,
+              backgroundColor: style.buttonColor,
+              color: style.buttonTextColor,
+              fontWeight: 600,
+              cursor: "default",
+            }}
+          >
+            Add selected
+          </button>
+          <button
+            type="button"
+            style={{
+              flex: 1,
+              padding: "12px",
+              border: `1px solid ${style.borderColor}`,
+              borderRadius: `${style.borderRadius}px`,
+              backgroundColor: "transparent",
+              color: style.fontColor,
+              cursor: "default",
+            }}
+          >
+            No thanks
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  if (style.displayMode !== "MODAL") {
+    return widget;
+  }
+
+  // MODAL display mode: the widget opens over the product page after Add to Cart
+  return (
+    <div style={{
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      padding: "24px 16px",
+      borderRadius: "8px",
+      backgroundColor: "rgba(0, 0, 0, 0.45)",
+    }}>
+      <div style={{ width: "100%", maxWidth: "480px", backgroundColor: "#ffffff", boxShadow: "0 12px 40px rgba(0, 0, 0, 0.3)", borderRadius: `${style.borderRadius}px` }}>
+        {widget}
+      </div>
     </div>
   );
 }
 
+// Add-On Rules Editor Component
+interface AddOnRulesEditorProps {
+  addOns: Array<{ id: string; title: string }>; // The bundle's other add-ons
+  requiresAddOnIds: string[];
+  excludesAddOnIds: string[];
+  onChange: (rules: { requiresAddOnIds: string[]; excludesAddOnIds: string[] }) => void;
+}
+
+function AddOnRulesEditor({ addOns, requiresAddOnIds, excludesAddOnIds, onChange }: AddOnRulesEditorProps) {
+  const updateRule = (addOnId: string, type: string) => {
+    onChange({
+      requiresAddOnIds: [...requiresAddOnIds.filter((id) => id !== addOnId), ...(type === "REQUIRES" ? [addOnId] : [])],
+      excludesAddOnIds: [...excludesAddOnIds.filter((id) => id !== addOnId), ...(type === "EXCLUDES" ? [addOnId] : [])],
+    });
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Rules</s-text>
+      <s-text color="subdued" variant="bodySm">
+        Only offer this add-on once other add-ons are selected, or keep it from being selected together with them.
+      </s-text>
+      {addOns.length === 0 ? (
+        <s-text variant="bodySm">Add more add-ons to create rules</s-text>
+      ) : (
+        addOns.map((other) => {
+          const type = requiresAddOnIds.includes(other.id)
+            ? "REQUIRES"
+            : excludesAddOnIds.includes(other.id) ? "EXCLUDES" : "";
+          return (
+            <s-select
+              key={other.id}
+              label={other.title || "Untitled add-on"}
+              value={type}
+              onInput={(e: Event) => updateRule(other.id, (e.target as HTMLSelectElement).value)}
+            >
+              <s-option value="" selected={type === ""}>No rule</s-option>
+              <s-option value="REQUIRES" selected={type === "REQUIRES"}>Only offer after this is selected</s-option>
+              <s-option value="EXCLUDES" selected={type === "EXCLUDES"}>Never selected together</s-option>
+            </s-select>
+          );
+        })
+      )}
+    </s-stack>
+  );
+}
+
+// Main Variants Editor Component
+interface MainVariantsEditorProps {
+  variants: LocalMainVariant[];
+  onChange: (variants: LocalMainVariant[]) => void;
+}
+
+function MainVariantsEditor({ variants, onChange }: MainVariantsEditorProps) {
+  const shopify = useAppBridge();
+
+  const chooseVariants = async () => {
+    const selected = await shopify.resourcePicker({
+      type: "variant",
+      multiple: true,
+      selectionIds: variants.map((variant) => ({ id: variant.shopifyVariantId })),
+    });
+
+    // Picker closed without a selection
+    if (!selected) return;
+
+    onChange((selected as Array<{ id: string; title?: string; product?: { title?: string } }>).map((variant) => ({
+      shopifyVariantId: variant.id,
+      variantTitle: variant.title || null,
+      productTitle: variant.product?.title || null,
+    })));
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Main product variants</s-text>
+      <s-text color="subdued" variant="bodySm">
+        Only offer and discount this add-on when the customer picks one of these variants of the main product. Leave empty to offer it with every variant.
+      </s-text>
+      {variants.length > 0 ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+          {variants.map((variant) => (
+            <s-badge key={variant.shopifyVariantId}>
+              {[variant.productTitle, variant.variantTitle].filter(Boolean).join(" - ") || variant.shopifyVariantId}
+            </s-badge>
+          ))}
+        </div>
+      ) : (
+        <s-text variant="bodySm">Offered with every variant</s-text>
+      )}
+      <div style={{ display: "flex", gap: "8px" }}>
+        <s-button variant="secondary" onClick={chooseVariants}>
+          Choose variants
+        </s-button>
+        {variants.length > 0 && (
+          <s-button variant="tertiary" tone="critical" onClick={() => onChange([])}>
+            Clear
+          </s-button>
+        )}
+      </div>
+    </s-stack>
+  );
+}
+
+// Currency Values Editor Component
+interface CurrencyValuesEditorProps {
+  values: Array<{ currencyCode: string; discountValue: number | null }>;
+  onChange: (values: Array<{ currencyCode: string; discountValue: number | null }>) => void;
+}
+
+function CurrencyValuesEditor({ values, onChange }: CurrencyValuesEditorProps) {
+  const updateValue = (index: number, updates: Partial<{ currencyCode: string; discountValue: number | null }>) => {
+    onChange(values.map((value, i) => (i === index ? { ...value, ...updates } : value)));
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Amounts in other currencies</s-text>
+      <s-text color="subdued" variant="bodySm">
+        The amount above is in your store currency and is converted for other currencies. Set an exact amount for a currency to override the conversion.
+      </s-text>
+      {values.map((value, index) => (
+        <div key={index} style={{ display: "flex", alignItems: "flex-end", gap: "8px" }}>
+          <div style={{ width: "100px" }}>
+            <s-text-field
+              label="Currency"
+              value={value.currencyCode}
+              placeholder="EUR"
+              onInput={(e: Event) => updateValue(index, { currencyCode: (e.target as HTMLInputElement).value.toUpperCase() })}
+            />
+          </div>
+          <div style={{ width: "120px" }}>
+            <s-text-field
+              label="Amount"
+              type="number"
+              value={value.discountValue?.toString() || ""}
+              min="0"
+              step="0.01"
+              onInput={(e: Event) => {
+                const amount = parseFloat((e.target as HTMLInputElement).value);
+                updateValue(index, { discountValue: isNaN(amount) ? null : amount });
+              }}
+            />
+          </div>
+          <s-button variant="tertiary" tone="critical" onClick={() => onChange(values.filter((_, i) => i !== index))}>
+            Remove
+          </s-button>
+        </div>
+      ))}
+      <s-button variant="secondary" onClick={() => onChange([...values, { currencyCode: "", discountValue: null }])}>
+        Add currency
+      </s-button>
+    </s-stack>
+  );
+}
+
+// Discount Tiers Editor Component
+interface DiscountTiersEditorProps {
+  tiers: LocalDiscountTier[];
+  error?: string;
+  onChange: (tiers: LocalDiscountTier[]) => void;
+}
+
+function DiscountTiersEditor({ tiers, error, onChange }: DiscountTiersEditorProps) {
+  const updateTier = (id: string, updates: Partial<LocalDiscountTier>) => {
+    onChange(tiers.map(tier => (tier.id === id ? { ...tier, ...updates } : tier)));
+  };
+
+  const handleAddTier = () => {
+    const nextCount = tiers.reduce((max, tier) => Math.max(max, tier.minAddOns), 1) + 1;
+    onChange([
+      ...tiers,
+      {
+        id: `new-tier-${Date.now()}`,
+        minAddOns: nextCount,
+        discountType: "PERCENTAGE",
+        discountValue: null,
+        discountLabel: "",
+      },
+    ]);
+  };
+
+  return (
+    <s-stack direction="block" gap="base">
+      <s-text color="subdued" variant="bodySm">
+        Reward customers for picking more add-ons, e.g. pick 2 get 10% off, pick 3 get 20% off. An unlocked tier replaces the add-ons&apos; own discounts; free gifts stay free.
+      </s-text>
+      {error && (
+        <s-text color="critical" variant="bodySm">{error}</s-text>
+      )}
+
+      {tiers.map((tier) => (
+        <s-box key={tier.id} padding="base" borderWidth="base" borderRadius="base">
+          <div style={{ display: "flex", alignItems: "flex-end", gap: "8px", flexWrap: "wrap" }}>
+            <div style={{ width: "120px" }}>
+              <s-text-field
+                label="Add-ons selected"
+                type="number"
+                value={tier.minAddOns.toString()}
+                min="1"
+                max="99"
+                onInput={(e: Event) => {
+                  const input = e.target as HTMLInputElement;
+                  const numericValue = input.value.replace(/[^0-9]/g, '');
+                  input.value = numericValue;
+                  updateTier(tier.id, { minAddOns: Math.min(99, Math.max(1, parseInt(numericValue) || 1)) });
+                }}
+              />
+            </div>
+            <div style={{ width: "160px" }}>
+              <s-select
+                label="Discount type"
+                value={tier.discountType}
+                onInput={(e: Event) => updateTier(tier.id, { discountType: (e.target as HTMLSelectElement).value as LocalDiscountTier["discountType"] })}
+              >
+                <s-option value="PERCENTAGE" selected={tier.discountType === "PERCENTAGE"}>Percentage off</s-option>
+                <s-option value="FIXED_AMOUNT" selected={tier.discountType === "FIXED_AMOUNT"}>Amount off each</s-option>
+              </s-select>
+            </div>
+            <div style={{ width: "120px" }}>
+              <s-text-field
+                label={tier.discountType === "PERCENTAGE" ? "Percentage" : "Amount"}
+                type="number"
+                value={tier.discountValue?.toString() || ""}
+                onInput={(e: Event) => {
+                  const value = parseFloat((e.target as HTMLInputElement).value);
+                  updateTier(tier.id, { discountValue: isNaN(value) ? null : value });
+                }}
+              />
+            </div>
+            <div style={{ flex: 1, minWidth: "160px" }}>
+              <s-text-field
+                label="Label (optional)"
+                value={tier.discountLabel}
+                placeholder="e.g., 20% off"
+                onInput={(e: Event) => updateTier(tier.id, { discountLabel: (e.target as HTMLInputElement).value })}
+              />
+            </div>
+            <s-button variant="tertiary" tone="critical" onClick={() => onChange(tiers.filter(t => t.id !== tier.id))}>
+              Remove
+            </s-button>
+          </div>
+        </s-box>
+      ))}
+
+      <s-button variant="secondary" onClick={handleAddTier}>
+        Add tier
+      </s-button>
+    </s-stack>
+  );
+}
+
+// Product Group Card Component
+interface ProductGroupCardProps {
+  group: LocalProductGroup;
+  isFirst: boolean;
+  isLast: boolean;
+  isUnsaved?: boolean;
+  onTitleChange: (title: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  onAddProducts: () => void;
+  onRemoveItem: (shopifyResourceId: string) => void;
+}
+
+function ProductGroupCard({ group, isFirst, isLast, isUnsaved, onTitleChange, onMove, onRemove, onAddProducts, onRemoveItem }: ProductGroupCardProps) {
+  const itemImageStyle: React.CSSProperties = {
+    width: "32px",
+    height: "32px",
+    objectFit: "cover",
+    borderRadius: "4px",
+    border: "1px solid #e0e0e0",
+  };
+
+  const placeholderImageStyle: React.CSSProperties = {
+    ...itemImageStyle,
+    backgroundColor: "#f5f5f5",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    fontSize: "8px",
+    color: "#999",
+  };
+
+  return (
+    <s-box padding="base" borderWidth="base" borderRadius="base" background={isUnsaved ? "warning" : "default"}>
+      <s-stack direction="block" gap="tight">
+        <div style={{ display: "flex", alignItems: "flex-end", gap: "8px" }}>
+          <div style={{ flex: 1 }}>
+            <s-text-field
+              label="Group title (shown as tab label)"
+              value={group.title}
+              onInput={(e: Event) => onTitleChange((e.target as HTMLInputElement).value)}
+            />
+          </div>
+          <s-button variant="tertiary" disabled={isFirst || undefined} onClick={() => onMove(-1)}>↑</s-button>
+          <s-button variant="tertiary" disabled={isLast || undefined} onClick={() => onMove(1)}>↓</s-button>
+          <s-button variant="secondary" onClick={onAddProducts}>Add products</s-button>
+          <s-button variant="secondary" tone="critical" onClick={onRemove}>Remove group</s-button>
+        </div>
+
+        {group.items.length === 0 ? (
+          <s-text color="subdued" variant="bodySm">No products in this group yet.</s-text>
+        ) : (
+          <s-stack direction="block" gap="extraTight">
+            {group.items.map((item) => (
+              <div key={item.shopifyResourceId} style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                {item.imageUrl ? (
+                  <img src={item.imageUrl} alt={item.title || item.shopifyResourceId} style={itemImageStyle} />
+                ) : (
+                  <div style={placeholderImageStyle}>No img</div>
+                )}
+                <div style={{ flex: 1 }}>
+                  <s-text>{item.title || item.shopifyResourceId}</s-text>
+                </div>
+                <s-button variant="tertiary" tone="critical" onClick={() => onRemoveItem(item.shopifyResourceId)}>
+                  Remove
+                </s-button>
+              </div>
+            ))}
+          </s-stack>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
 // Add-On Set Card Component
 interface AddOnSetCardProps {
   addOn: LocalAddOnSet;
   isUnsaved?: boolean;
+  productGroups?: Array<{ id: string; title: string }>;
+  otherAddOns: Array<{ id: string; title: string }>;
   onDelete: () => void;
   onUpdate: (data: Record<string, string>) => void;
   onEditVariants: () => void;
 }
 
-function AddOnSetCard({ addOn, isUnsaved, onDelete, onUpdate, onEditVariants }: AddOnSetCardProps) {
+function AddOnSetCard({ addOn, isUnsaved, productGroups, otherAddOns, onDelete, onUpdate, onEditVariants }: AddOnSetCardProps) {
   const [isConfigureModalOpen, setIsConfigureModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
 
@@ -2931,6 +3907,8 @@ function AddOnSetCard({ addOn, isUnsaved, onDelete, onUpdate, onEditVariants }:
       {isConfigureModalOpen && (
         <ConfigureAddOnSetModal
           addOn={addOn}
+          productGroups={productGroups}
+          otherAddOns={otherAddOns}
           onUpdate={onUpdate}
           onEditVariants={onEditVariants}
           onClose={() => setIsConfigureModalOpen(false)}
@@ -2955,19 +3933,28 @@ function AddOnSetCard({ addOn, isUnsaved, onDelete, onUpdate, onEditVariants }:
 // Configure Add-On Set Modal Component
 interface ConfigureAddOnSetModalProps {
   addOn: LocalAddOnSet;
+  productGroups?: Array<{ id: string; title: string }>;
+  otherAddOns: Array<{ id: string; title: string }>;
   onUpdate: (data: Record<string, string>) => void;
   onEditVariants: () => void;
   onClose: () => void;
 }
 
-function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: ConfigureAddOnSetModalProps) {
+function ConfigureAddOnSetModal({ addOn, productGroups, otherAddOns, onUpdate, onEditVariants, onClose }: ConfigureAddOnSetModalProps) {
   const [discountType, setDiscountType] = useState(addOn.discountType);
   const [discountValue, setDiscountValue] = useState(addOn.discountValue?.toString() || "");
   const [discountLabel, setDiscountLabel] = useState(addOn.discountLabel || "");
   const [isDefaultSelected, setIsDefaultSelected] = useState(addOn.isDefaultSelected);
+  const [isRequired, setIsRequired] = useState(addOn.isRequired);
   const [subscriptionOnly, setSubscriptionOnly] = useState(addOn.subscriptionOnly);
   const [showQuantitySelector, setShowQuantitySelector] = useState(addOn.showQuantitySelector);
   const [maxQuantity, setMaxQuantity] = useState(addOn.maxQuantity);
+  const [addOnsPerMainUnit, setAddOnsPerMainUnit] = useState(addOn.addOnsPerMainUnit?.toString() || "");
+  const [completesBundle, setCompletesBundle] = useState(addOn.completesBundle);
+  const [currencyValues, setCurrencyValues] = useState<Array<{ currencyCode: string; discountValue: number | null }>>(addOn.currencyValues);
+  const [productGroupId, setProductGroupId] = useState(addOn.productGroupId || "");
+  const [mainVariants, setMainVariants] = useState<LocalMainVariant[]>(addOn.mainVariants);
+  const [rules, setRules] = useState({ requiresAddOnIds: addOn.requiresAddOnIds, excludesAddOnIds: addOn.excludesAddOnIds });
 
   const handleSave = () => {
     onUpdate({
@@ -2975,9 +3962,21 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
       discountValue,
       discountLabel,
       isDefaultSelected: String(isDefaultSelected),
+      isRequired: String(isRequired),
       subscriptionOnly: String(subscriptionOnly),
       showQuantitySelector: String(showQuantitySelector),
       maxQuantity: String(maxQuantity),
+      addOnsPerMainUnit,
+      completesBundle: String(completesBundle),
+      currencyValues: JSON.stringify(
+        discountType === "FIXED_AMOUNT" || discountType === "FIXED_PRICE"
+          ? sanitizeCurrencyValues(currencyValues)
+          : []
+      ),
+      mainVariants: JSON.stringify(mainVariants),
+      requiresAddOnIds: JSON.stringify(rules.requiresAddOnIds),
+      excludesAddOnIds: JSON.stringify(rules.excludesAddOnIds),
+      ...(productGroups ? { productGroupId } : {}),
     });
     onClose();
   };
@@ -3063,6 +4062,33 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
               </s-button>
             </div>
 
+            {/* Product Group (PRODUCT_GROUPS targeting) */}
+            {productGroups && (
+              <s-select
+                label="Offer with"
+                value={productGroupId}
+                onInput={(e: Event) => setProductGroupId((e.target as HTMLSelectElement).value)}
+              >
+                <s-option value="" selected={productGroupId === ""}>All product groups</s-option>
+                {productGroups.map((group) => (
+                  <s-option key={group.id} value={group.id} selected={productGroupId === group.id}>
+                    {group.title || "Untitled group"}
+                  </s-option>
+                ))}
+              </s-select>
+            )}
+
+            {/* Main product variants (empty = every variant) */}
+            <MainVariantsEditor variants={mainVariants} onChange={setMainVariants} />
+
+            {/* Dependencies and exclusions between add-ons */}
+            <AddOnRulesEditor
+              addOns={otherAddOns}
+              requiresAddOnIds={rules.requiresAddOnIds}
+              excludesAddOnIds={rules.excludesAddOnIds}
+              onChange={setRules}
+            />
+
             {/* Discount Type */}
             <s-select
               label="Discount type"
@@ -3087,6 +4113,11 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
               />
             )}
 
+            {/* Per-currency amounts (other currencies are converted from the shop currency) */}
+            {(discountType === "FIXED_AMOUNT" || discountType === "FIXED_PRICE") && (
+              <CurrencyValuesEditor values={currencyValues} onChange={setCurrencyValues} />
+            )}
+
             {/* Discount Label */}
             <s-text-field
               label="Discount label (optional)"
@@ -3103,6 +4134,12 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
                 disabled={discountType === "FREE_GIFT" || undefined}
                 onChange={(e: Event) => setIsDefaultSelected((e.target as HTMLInputElement).checked)}
               />
+              <s-checkbox
+                label="Customers must select this add-on"
+                checked={isRequired}
+                disabled={discountType === "FREE_GIFT" || undefined}
+                onChange={(e: Event) => setIsRequired((e.target as HTMLInputElement).checked)}
+              />
               <s-checkbox
                 label="Subscription orders only"
                 checked={subscriptionOnly}
@@ -3113,6 +4150,11 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
                 checked={showQuantitySelector}
                 onChange={(e: Event) => setShowQuantitySelector((e.target as HTMLInputElement).checked)}
               />
+              <s-checkbox
+                label="Required to complete the bundle"
+                checked={completesBundle}
+                onChange={(e: Event) => setCompletesBundle((e.target as HTMLInputElement).checked)}
+              />
             </s-stack>
 
             {/* Max Quantity */}
@@ -3135,6 +4177,24 @@ function ConfigureAddOnSetModal({ addOn, onUpdate, onEditVariants, onClose }: Co
                 max="99"
               />
             )}
+
+            {/* Discounted add-ons per main product unit */}
+            <s-text-field
+              label="Discounted add-ons per main product"
+              type="number"
+              value={addOnsPerMainUnit}
+              placeholder="No limit"
+              details="Limits how many of this add-on are discounted for each main product in the cart"
+              onInput={(e: Event) => {
+                const input = e.target as HTMLInputElement;
+                // Remove non-numeric characters; empty means no limit
+                const numericValue = input.value.replace(/[^0-9]/g, '');
+                input.value = numericValue;
+                setAddOnsPerMainUnit(numericValue ? String(Math.min(99, Math.max(1, parseInt(numericValue)))) : "");
+              }}
+              min="1"
+              max="99"
+            />
           </s-stack>
         </div>
 
@@ -7,8 +7,8 @@ import { authenticate } from "../shopify.server";
 import { getBundles, getBundleStats, deleteBundle, duplicateBundle, getBundle, updateBundle } from "../models/bundle.server";
 import type { BundleWithRelations } from "../models/bundle.server";
 import type { BundleStatus } from "@prisma/client";
-import { clearShopMetafield, clearProductMetafields } from "../services/metafield.sync";
-import { getTargetedItems } from "../models/targeting.server";
+import { clearShopMetafield } from "../services/metafield.sync";
+import { clearBundleProductMetafields, syncShopFunctions } from "../services/bundle.sync";
 import { deactivateBundleDiscount } from "../services/discount.sync";
 
 interface LoaderData {
@@ -94,30 +94,23 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         }
       }
 
-      // Clear product metafields if this was a SPECIFIC_PRODUCTS or PRODUCT_GROUPS bundle
-      if (bundleToDelete.targetingType === "SPECIFIC_PRODUCTS" || bundleToDelete.targetingType === "PRODUCT_GROUPS") {
-        console.log("[deleteBundle] Clearing product metafields for", bundleToDelete.targetingType, "bundle");
-        try {
-          // Get the targeted product IDs
-          const targetedItems = await getTargetedItems(bundleId);
-          const productIds = targetedItems
-            .filter(item => item.shopifyResourceType === "Product")
-            .map(item => item.shopifyResourceId);
-
-          console.log("[deleteBundle] Found", productIds.length, "product metafields to clear");
-
-          if (productIds.length > 0) {
-            await clearProductMetafields(admin, productIds);
-            console.log("[deleteBundle] Product metafields cleared");
-          }
-        } catch (error) {
-          console.error("[deleteBundle] Error clearing product metafields:", error);
-        }
+      // Clear product metafields written for SPECIFIC_PRODUCTS / PRODUCT_GROUPS targeting
+      // (including products reached through targeted collections)
+      console.log("[deleteBundle] Clearing product metafields for", bundleToDelete.targetingType, "bundle");
+      try {
+        await clearBundleProductMetafields(admin, bundleToDelete);
+        console.log("[deleteBundle] Product metafields cleared");
+      } catch (error) {
+        console.error("[deleteBundle] Error clearing product metafields:", error);
       }
     }
 
     await deleteBundle(bundleId, shop);
     console.log("[deleteBundle] Bundle deleted from database");
+
+    // Drop the bundle from the cart transform and cart validation configs
+    await syncShopFunctions(admin, shop);
+
     return { success: true, action: "deleted" };
   }
 
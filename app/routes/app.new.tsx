@@ -4,23 +4,26 @@ import { useAppBridge } from "@shopify/app-bridge-react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import { createBundle, bundleTitleExists, getBundle } from "../models/bundle.server";
-import { createAddOnSet, setVariantsForSet } from "../models/addOnSet.server";
+import { createBundle, bundleTitleExists, getBundle, setBundleDiscountTiers } from "../models/bundle.server";
+import type { DiscountTierInput } from "../models/bundle.server";
+import { createAddOnSet, setVariantsForSet, setCurrencyValuesForSet, setMainVariantsForSet, setRulesForSet } from "../models/addOnSet.server";
 import { getOrCreateWidgetStyle, updateWidgetStyle } from "../models/widgetStyle.server";
-import { addTargetedItem } from "../models/targeting.server";
-import { buildWidgetConfig, syncShopMetafields, syncProductMetafields, fetchProductInfo } from "../services/metafield.sync";
+import { addTargetedItem, createProductGroup, addProductGroupItems } from "../models/targeting.server";
 import { activateBundleDiscount } from "../services/discount.sync";
+import { syncBundleMetafields } from "../services/bundle.sync";
 import type {
   BundleStatus,
   SelectionMode,
   TargetingType,
   DiscountCombination,
+  CustomerEligibility,
   DiscountType,
   LayoutType,
   ImageSize,
   DiscountLabelStyle,
   BorderStyle,
   WidgetTemplate,
+  WidgetDisplayMode,
 } from "@prisma/client";
 
 // Local state types for managing data before submission
@@ -33,9 +36,17 @@ interface LocalAddOn {
   discountValue: number | null;
   discountLabel: string;
   isDefaultSelected: boolean;
+  isRequired: boolean; // Customers can't add the main product to the cart without it
   subscriptionOnly: boolean;
   showQuantitySelector: boolean;
   maxQuantity: number;
+  addOnsPerMainUnit: number | null; // Discounted add-ons per main product unit (null = no limit)
+  completesBundle: boolean; // Required for the "complete the bundle" discount
+  currencyValues: Array<{ currencyCode: string; discountValue: number | null }>; // FIXED_AMOUNT/FIXED_PRICE per presentment currency
+  mainVariants: LocalMainVariant[]; // Main product variants the add-on is offered with (empty = every variant)
+  requiresAddOnIds: string[]; // Local IDs of add-ons that must be selected first
+  excludesAddOnIds: string[]; // Local IDs of add-ons it can't be selected with
+  productGroupId: string | null; // local group ID (PRODUCT_GROUPS), null = every group
   selectedVariants: Array<{
     shopifyVariantId: string;
     variantTitle?: string;
@@ -52,6 +63,50 @@ interface LocalTargetedItem {
   imageUrl?: string;
 }
 
+interface LocalProductGroup {
+  id: string; // temporary local ID
+  title: string;
+  items: Array<{
+    shopifyResourceId: string;
+    shopifyResourceType: "Product" | "Collection";
+    title: string;
+    imageUrl?: string;
+  }>;
+}
+
+interface LocalDiscountTier {
+  id: string; // temporary local ID
+  minAddOns: number;
+  discountType: "PERCENTAGE" | "FIXED_AMOUNT";
+  discountValue: number | null;
+  discountLabel: string;
+}
+
+interface LocalMainVariant {
+  shopifyVariantId: string;
+  variantTitle: string | null;
+  productTitle: string | null;
+}
+
+interface LocalCurrencyValue {
+  currencyCode: string; // ISO 4217, e.g. "EUR"
+  discountValue: number;
+}
+
+/**
+ * Keep only complete currency overrides (3-letter code, non-negative value), one per currency
+ */
+function sanitizeCurrencyValues(values: Array<{ currencyCode: string; discountValue: number | null }>): LocalCurrencyValue[] {
+  const byCurrency = new Map<string, number>();
+  for (const value of values) {
+    const currencyCode = value.currencyCode.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(currencyCode) && value.discountValue !== null && value.discountValue >= 0) {
+      byCurrency.set(currencyCode, value.discountValue);
+    }
+  }
+  return Array.from(byCurrency, ([currencyCode, discountValue]) => ({ currencyCode, discountValue }));
+}
+
 interface FormState {
   title: string;
   subtitle: string;
@@ -59,15 +114,32 @@ interface FormState {
   startDate: string;
   endDate: string;
   selectionMode: SelectionMode;
+  minSelections: string;
+  maxSelections: string; // Empty = no limit
   targetingType: TargetingType;
   combineWithProductDiscounts: DiscountCombination;
   combineWithOrderDiscounts: DiscountCombination;
   combineWithShippingDiscounts: DiscountCombination;
   deleteAddOnsWithMain: boolean;
+  shippingPerkEnabled: boolean;
+  shippingPerkMinAddOns: string;
+  shippingPerkPercentage: string;
+  shippingPerkLabel: string;
+  completeBundleEnabled: boolean;
+  completeBundleDiscountType: DiscountType;
+  completeBundleDiscountValue: string;
+  completeBundleLabel: string;
+  customerEligibility: CustomerEligibility;
+  eligibleCustomerTags: string;
+  hideBundleForIneligible: boolean;
+  presentAsBundle: boolean;
+  bundleLineTitle: string;
+  bundleLineImage: string;
 }
 
 interface StyleState {
   template: WidgetTemplate;
+  displayMode: WidgetDisplayMode;
   backgroundColor: string;
   fontColor: string;
   buttonColor: string;
@@ -99,15 +171,32 @@ const defaultFormState: FormState = {
   startDate: "",
   endDate: "",
   selectionMode: "MULTIPLE",
+  minSelections: "0",
+  maxSelections: "",
   targetingType: "ALL_PRODUCTS",
   combineWithProductDiscounts: "COMBINE",
   combineWithOrderDiscounts: "COMBINE",
   combineWithShippingDiscounts: "COMBINE",
   deleteAddOnsWithMain: false,
+  shippingPerkEnabled: false,
+  shippingPerkMinAddOns: "1",
+  shippingPerkPercentage: "100",
+  shippingPerkLabel: "",
+  completeBundleEnabled: false,
+  completeBundleDiscountType: "PERCENTAGE",
+  completeBundleDiscountValue: "",
+  completeBundleLabel: "",
+  customerEligibility: "ALL_CUSTOMERS",
+  eligibleCustomerTags: "",
+  hideBundleForIneligible: false,
+  presentAsBundle: false,
+  bundleLineTitle: "",
+  bundleLineImage: "",
 };
 
 const defaultStyleState: StyleState = {
   template: "DEFAULT",
+  displayMode: "INLINE",
   backgroundColor: "#ffffff",
   fontColor: "#000000",
   buttonColor: "#000000",
@@ -154,20 +243,40 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const startDate = formData.get("startDate") as string;
     const endDate = formData.get("endDate") as string;
     const selectionMode = (formData.get("selectionMode") as SelectionMode) || "MULTIPLE";
+    const minSelections = parseInt(formData.get("minSelections") as string) || 0;
+    const maxSelections = parseInt(formData.get("maxSelections") as string) || null;
     const targetingType = (formData.get("targetingType") as TargetingType) || "ALL_PRODUCTS";
     const combineWithProductDiscounts = (formData.get("combineWithProductDiscounts") as DiscountCombination) || "COMBINE";
     const combineWithOrderDiscounts = (formData.get("combineWithOrderDiscounts") as DiscountCombination) || "COMBINE";
     const combineWithShippingDiscounts = (formData.get("combineWithShippingDiscounts") as DiscountCombination) || "COMBINE";
     const deleteAddOnsWithMain = formData.get("deleteAddOnsWithMain") === "true";
+    const shippingPerkEnabled = formData.get("shippingPerkEnabled") === "true";
+    const shippingPerkMinAddOns = parseInt(formData.get("shippingPerkMinAddOns") as string) || 0;
+    const shippingPerkPercentage = parseInt(formData.get("shippingPerkPercentage") as string) || 0;
+    const shippingPerkLabel = formData.get("shippingPerkLabel") as string;
+    const completeBundleEnabled = formData.get("completeBundleEnabled") === "true";
+    const completeBundleDiscountType = (formData.get("completeBundleDiscountType") as DiscountType) || "PERCENTAGE";
+    const completeBundleDiscountValue = parseFloat(formData.get("completeBundleDiscountValue") as string) || 0;
+    const completeBundleLabel = formData.get("completeBundleLabel") as string;
+    const customerEligibility = (formData.get("customerEligibility") as CustomerEligibility) || "ALL_CUSTOMERS";
+    const eligibleCustomerTags = (formData.get("eligibleCustomerTags") as string || "").trim();
+    const hideBundleForIneligible = formData.get("hideBundleForIneligible") === "true";
+    const presentAsBundle = formData.get("presentAsBundle") === "true";
+    const bundleLineTitle = (formData.get("bundleLineTitle") as string || "").trim();
+    const bundleLineImage = (formData.get("bundleLineImage") as string || "").trim();
 
     // Parse add-ons, styles, targeting from JSON
     const addOnsJson = formData.get("addOns") as string;
     const styleJson = formData.get("style") as string;
     const targetedItemsJson = formData.get("targetedItems") as string;
+    const productGroupsJson = formData.get("productGroups") as string;
+    const discountTiersJson = formData.get("discountTiers") as string;
 
     const addOns: LocalAddOn[] = addOnsJson ? JSON.parse(addOnsJson) : [];
     const style: StyleState = styleJson ? JSON.parse(styleJson) : defaultStyleState;
     const targetedItems: LocalTargetedItem[] = targetedItemsJson ? JSON.parse(targetedItemsJson) : [];
+    const productGroups: LocalProductGroup[] = productGroupsJson ? JSON.parse(productGroupsJson) : [];
+    const discountTiers: DiscountTierInput[] = discountTiersJson ? JSON.parse(discountTiersJson) : [];
 
     // Validation
     const errors: Record<string, string> = {};
@@ -184,6 +293,41 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       errors.endDate = "End date must be after start date";
     }
 
+    if (targetingType === "PRODUCT_GROUPS" && productGroups.some((group) => !group.title.trim())) {
+      errors.productGroups = "Every product group needs a title";
+    }
+
+    const tierCounts = discountTiers.map((tier) => tier.minAddOns);
+    if (discountTiers.some((tier) => !(tier.minAddOns >= 1) || !(tier.discountValue > 0) || (tier.discountType === "PERCENTAGE" && tier.discountValue > 100))) {
+      errors.discountTiers = "Each tier needs at least 1 add-on and a discount value (percentages up to 100)";
+    } else if (new Set(tierCounts).size !== tierCounts.length) {
+      errors.discountTiers = "Each tier needs a different number of add-ons";
+    }
+
+    if (selectionMode === "SINGLE" && minSelections > 1) {
+      errors.selectionLimits = "Single selection allows a minimum of 1 add-on";
+    } else if (selectionMode === "MULTIPLE" && maxSelections !== null && minSelections > maxSelections) {
+      errors.selectionLimits = "Minimum add-ons can't be more than the maximum";
+    } else if (minSelections > addOns.length) {
+      errors.selectionLimits = "Minimum add-ons can't be more than the number of add-ons";
+    }
+
+    if (shippingPerkEnabled && (shippingPerkMinAddOns < 1 || shippingPerkPercentage < 1 || shippingPerkPercentage > 100)) {
+      errors.shippingPerk = "Shipping perk needs at least 1 add-on and a discount between 1% and 100%";
+    }
+
+    if (completeBundleEnabled && (completeBundleDiscountValue <= 0 || (completeBundleDiscountType === "PERCENTAGE" && completeBundleDiscountValue > 100))) {
+      errors.completeBundle = "Complete-the-bundle discount needs a value (percentages up to 100)";
+    }
+
+    if (customerEligibility === "TAGGED_CUSTOMERS" && !eligibleCustomerTags.replace(/,/g, "").trim()) {
+      errors.customerEligibility = "Enter at least one customer tag";
+    }
+
+    if (presentAsBundle && bundleLineImage && !/^https:\/\/\S+$/.test(bundleLineImage)) {
+      errors.presentAsBundle = "Bundle line image must be a public https URL";
+    }
+
     if (Object.keys(errors).length > 0) {
       return { errors };
     }
@@ -197,21 +341,58 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       startDate: startDate ? new Date(startDate) : undefined,
       endDate: endDate ? new Date(endDate) : undefined,
       selectionMode,
+      minSelections,
+      maxSelections: selectionMode === "MULTIPLE" ? maxSelections : null,
       targetingType,
       combineWithProductDiscounts,
       combineWithOrderDiscounts,
       combineWithShippingDiscounts,
       deleteAddOnsWithMain,
+      shippingPerkEnabled,
+      ...(shippingPerkEnabled ? { shippingPerkMinAddOns, shippingPerkPercentage } : {}),
+      shippingPerkLabel: shippingPerkLabel?.trim() || null,
+      completeBundleEnabled,
+      completeBundleDiscountType,
+      completeBundleDiscountValue: completeBundleEnabled ? completeBundleDiscountValue : null,
+      completeBundleLabel: completeBundleLabel?.trim() || null,
+      customerEligibility,
+      eligibleCustomerTags: customerEligibility === "TAGGED_CUSTOMERS" ? eligibleCustomerTags : null,
+      hideBundleForIneligible: customerEligibility !== "ALL_CUSTOMERS" && hideBundleForIneligible,
+      presentAsBundle,
+      bundleLineTitle: presentAsBundle ? bundleLineTitle || null : null,
+      bundleLineImage: presentAsBundle ? bundleLineImage || null : null,
     });
 
     console.log("[createBundle] Bundle created:", bundle.id);
 
     // Create widget style
-    const widgetStyle = await getOrCreateWidgetStyle(bundle.id);
+    await getOrCreateWidgetStyle(bundle.id);
     await updateWidgetStyle(bundle.id, style);
     console.log("[createBundle] Widget style created/updated");
 
+    // Create discount tiers
+    if (discountTiers.length > 0) {
+      await setBundleDiscountTiers(bundle.id, discountTiers);
+      console.log("[createBundle] Discount tiers created:", discountTiers.length);
+    }
+
+    // Create product groups (for PRODUCT_GROUPS) before add-ons so add-ons can reference them
+    const productGroupIdMap = new Map<string, string>();
+    if (targetingType === "PRODUCT_GROUPS") {
+      for (const [index, group] of productGroups.entries()) {
+        const productGroup = await createProductGroup({
+          bundleId: bundle.id,
+          title: group.title.trim(),
+          position: index,
+        });
+        productGroupIdMap.set(group.id, productGroup.id);
+        await addProductGroupItems(productGroup.id, group.items);
+      }
+      console.log("[createBundle] Created", productGroups.length, "product groups");
+    }
+
     // Create add-on sets
+    const addOnSetIdMap = new Map<string, string>();
     for (const addOn of addOns) {
       const addOnSet = await createAddOnSet({
         bundleId: bundle.id,
@@ -222,18 +403,47 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         discountValue: addOn.discountValue ?? undefined,
         discountLabel: addOn.discountLabel || undefined,
         isDefaultSelected: addOn.isDefaultSelected,
+        isRequired: addOn.isRequired,
         subscriptionOnly: addOn.subscriptionOnly,
         showQuantitySelector: addOn.showQuantitySelector,
         maxQuantity: addOn.maxQuantity,
+        addOnsPerMainUnit: addOn.addOnsPerMainUnit,
+        completesBundle: addOn.completesBundle,
+        productGroupId: addOn.productGroupId ? productGroupIdMap.get(addOn.productGroupId) ?? null : null,
       });
 
       // Add variants to the add-on set
       if (addOn.selectedVariants.length > 0) {
         await setVariantsForSet(addOnSet.id, addOn.selectedVariants);
       }
+
+      // Per-currency amounts only apply to fixed discounts
+      const currencyValues = addOn.discountType === "FIXED_AMOUNT" || addOn.discountType === "FIXED_PRICE"
+        ? sanitizeCurrencyValues(addOn.currencyValues)
+        : [];
+      if (currencyValues.length > 0) {
+        await setCurrencyValuesForSet(addOnSet.id, currencyValues);
+      }
+
+      if (addOn.mainVariants.length > 0) {
+        await setMainVariantsForSet(addOnSet.id, addOn.mainVariants);
+      }
+      addOnSetIdMap.set(addOn.id, addOnSet.id);
       console.log("[createBundle] Add-on set created:", addOnSet.id);
     }
 
+    // Rules reference other add-ons, so they are created once every add-on set exists
+    for (const addOn of addOns) {
+      const addOnSetId = addOnSetIdMap.get(addOn.id);
+      const rules = [
+        ...addOn.requiresAddOnIds.map((id) => ({ type: "REQUIRES" as const, relatedAddOnSetId: addOnSetIdMap.get(id) })),
+        ...addOn.excludesAddOnIds.map((id) => ({ type: "EXCLUDES" as const, relatedAddOnSetId: addOnSetIdMap.get(id) })),
+      ].filter((rule): rule is { type: "REQUIRES" | "EXCLUDES"; relatedAddOnSetId: string } => !!rule.relatedAddOnSetId);
+      if (addOnSetId && rules.length > 0) {
+        await setRulesForSet(addOnSetId, rules);
+      }
+    }
+
     // Create targeted items (for SPECIFIC_PRODUCTS)
     if (targetingType === "SPECIFIC_PRODUCTS") {
       for (const item of targetedItems) {
@@ -255,46 +465,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       console.log("[createBundle] Bundle created as ACTIVE, syncing metafields and creating discount");
 
       try {
+        await syncBundleMetafields(admin, bundle.id, shop);
+
         // Get the full bundle with relations
         const fullBundle = await getBundle(bundle.id, shop);
         if (fullBundle) {
-          // Get the updated widget style
-          const updatedWidgetStyle = await getOrCreateWidgetStyle(bundle.id);
-
-          // Build widget config - need to get add-on sets from database
-          const { getAddOnSets } = await import("../models/addOnSet.server");
-          const dbAddOnSets = await getAddOnSets(bundle.id);
-
-          // Fetch product info (handles and status) for filtering and pricing
-          const productIds = dbAddOnSets.map((addOn) => addOn.shopifyProductId);
-          const productInfo = await fetchProductInfo(admin, productIds);
-
-          // Create handles map for backwards compatibility
-          const productHandles = new Map<string, string>();
-          for (const [id, info] of productInfo) {
-            productHandles.set(id, info.handle);
-          }
-
-          const widgetConfig = buildWidgetConfig(fullBundle, dbAddOnSets, updatedWidgetStyle, productHandles, productInfo);
-
-          // Get shop GID
-          const shopResponse = await admin.graphql(`query { shop { id } }`);
-          const shopResult = await shopResponse.json();
-          const shopGid = (shopResult.data?.shop as { id?: string })?.id;
-
-          if (shopGid && targetingType === "ALL_PRODUCTS") {
-            console.log("[createBundle] Syncing to shop metafield");
-            await syncShopMetafields(admin, shopGid, widgetConfig);
-          } else if (targetingType === "SPECIFIC_PRODUCTS" && targetedItems.length > 0) {
-            const productIds = targetedItems
-              .filter((item) => item.shopifyResourceType === "Product")
-              .map((item) => item.shopifyResourceId);
-            if (productIds.length > 0) {
-              console.log("[createBundle] Syncing to", productIds.length, "product metafields");
-              await syncProductMetafields(admin, productIds, widgetConfig);
-            }
-          }
-
           // Create the Shopify automatic discount
           console.log("[createBundle] Creating Shopify discount");
           const discountResult = await activateBundleDiscount(admin, shop, fullBundle);
@@ -337,6 +512,8 @@ export default function NewBundle() {
   const [style, setStyle] = useState<StyleState>(defaultStyleState);
   const [addOns, setAddOns] = useState<LocalAddOn[]>([]);
   const [targetedItems, setTargetedItems] = useState<LocalTargetedItem[]>([]);
+  const [productGroups, setProductGroups] = useState<LocalProductGroup[]>([]);
+  const [discountTiers, setDiscountTiers] = useState<LocalDiscountTier[]>([]);
   const [showEndDate, setShowEndDate] = useState(false);
 
   // Style modal state
@@ -418,9 +595,17 @@ export default function NewBundle() {
         discountValue: null,
         discountLabel: "",
         isDefaultSelected: false,
+        isRequired: false,
         subscriptionOnly: false,
         showQuantitySelector: false,
         maxQuantity: 1,
+        addOnsPerMainUnit: null,
+        completesBundle: false,
+        currencyValues: [],
+        mainVariants: [],
+        requiresAddOnIds: [],
+        excludesAddOnIds: [],
+        productGroupId: null,
         selectedVariants: selectedVariants.map(v => ({
           shopifyVariantId: v.id,
           variantTitle: v.title,
@@ -441,7 +626,14 @@ export default function NewBundle() {
   };
 
   const removeAddOn = (localId: string) => {
-    setAddOns(prev => prev.filter(addOn => addOn.id !== localId));
+    // Also drop the rules of other add-ons referencing it
+    setAddOns(prev => prev
+      .filter(addOn => addOn.id !== localId)
+      .map(addOn => ({
+        ...addOn,
+        requiresAddOnIds: addOn.requiresAddOnIds.filter(id => id !== localId),
+        excludesAddOnIds: addOn.excludesAddOnIds.filter(id => id !== localId),
+      })));
     shopify.toast.show("Add-on removed");
   };
 
@@ -531,6 +723,76 @@ export default function NewBundle() {
     setTargetedItems(prev => prev.filter(item => item.id !== localId));
   };
 
+  // Product group management
+  const addProductGroup = () => {
+    setProductGroups(prev => [...prev, { id: generateLocalId(), title: `Group ${prev.length + 1}`, items: [] }]);
+  };
+
+  const updateProductGroup = (localId: string, updates: Partial<LocalProductGroup>) => {
+    setProductGroups(prev => prev.map(group =>
+      group.id === localId ? { ...group, ...updates } : group
+    ));
+  };
+
+  const moveProductGroup = (localId: string, direction: -1 | 1) => {
+    setProductGroups(prev => {
+      const index = prev.findIndex(group => group.id === localId);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeProductGroup = (localId: string) => {
+    setProductGroups(prev => prev.filter(group => group.id !== localId));
+    // Add-ons offered only with this group fall back to every group
+    setAddOns(prev => prev.map(addOn =>
+      addOn.productGroupId === localId ? { ...addOn, productGroupId: null } : addOn
+    ));
+  };
+
+  const openProductGroupResourcePicker = async (localId: string) => {
+    const group = productGroups.find(g => g.id === localId);
+    if (!group) return;
+
+    const selected = await shopify.resourcePicker({ type: "product", multiple: true });
+    if (selected && selected.length > 0) {
+      const existingIds = new Set(group.items.map(item => item.shopifyResourceId));
+      const newItems = selected.filter(resource => !existingIds.has(resource.id));
+      const skippedCount = selected.length - newItems.length;
+
+      if (skippedCount > 0) {
+        shopify.toast.show(`${skippedCount} item(s) already in this group, skipped`);
+      }
+
+      if (newItems.length > 0) {
+        updateProductGroup(localId, {
+          items: [
+            ...group.items,
+            ...newItems.map(resource => ({
+              shopifyResourceId: resource.id,
+              shopifyResourceType: "Product" as const,
+              title: resource.title,
+              imageUrl: (resource as { images?: { originalSrc?: string }[] }).images?.[0]?.originalSrc,
+            })),
+          ],
+        });
+        shopify.toast.show(`${newItems.length} product(s) added`);
+      }
+    }
+  };
+
+  const removeProductGroupItem = (localId: string, shopifyResourceId: string) => {
+    const group = productGroups.find(g => g.id === localId);
+    if (group) {
+      updateProductGroup(localId, {
+        items: group.items.filter(item => item.shopifyResourceId !== shopifyResourceId),
+      });
+    }
+  };
+
   // Reset styles to defaults (just updates local state, not saved until Save is clicked)
   const handleResetStyles = () => {
     setStyle(defaultStyleState);
@@ -551,10 +813,17 @@ export default function NewBundle() {
     formData.append("addOns", JSON.stringify(addOns));
     formData.append("style", JSON.stringify(style));
     formData.append("targetedItems", JSON.stringify(targetedItems));
+    formData.append("productGroups", JSON.stringify(productGroups));
+    formData.append("discountTiers", JSON.stringify(discountTiers.map(tier => ({
+      minAddOns: tier.minAddOns,
+      discountType: tier.discountType,
+      discountValue: tier.discountValue,
+      discountLabel: tier.discountLabel.trim() || null,
+    }))));
 
     console.log("Submitting with", addOns.length, "add-ons");
     fetcher.submit(formData, { method: "POST" });
-  }, [form, addOns, style, targetedItems, fetcher]);
+  }, [form, addOns, style, targetedItems, productGroups, discountTiers, fetcher]);
 
   // Attach event listeners for web component buttons
   useEffect(() => {
@@ -708,6 +977,7 @@ export default function NewBundle() {
           >
             <s-option value="ALL_PRODUCTS" selected={form.targetingType === "ALL_PRODUCTS"}>All products</s-option>
             <s-option value="SPECIFIC_PRODUCTS" selected={form.targetingType === "SPECIFIC_PRODUCTS"}>Specific products or collections</s-option>
+            <s-option value="PRODUCT_GROUPS" selected={form.targetingType === "PRODUCT_GROUPS"}>Product groups</s-option>
           </s-select>
 
           {/* Description and targeting UI based on type */}
@@ -797,6 +1067,48 @@ export default function NewBundle() {
             </s-box>
           )}
 
+          {/* Product groups UI */}
+          {form.targetingType === "PRODUCT_GROUPS" && (
+            <s-box padding="base" borderWidth="base" borderRadius="base" background="subdued">
+              <s-stack direction="block" gap="tight">
+                <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+                  <s-text variant="headingSm">Product groups</s-text>
+                  <s-button variant="secondary" onClick={addProductGroup}>
+                    Add group
+                  </s-button>
+                </div>
+                <s-text color="subdued" variant="bodySm">
+                  Add-ons appear on the products in each group. Assign an add-on to a group in its configuration to offer it only there. Products in several groups show one tab per group.
+                </s-text>
+                {errors.productGroups && (
+                  <s-text color="critical" variant="bodySm">{errors.productGroups}</s-text>
+                )}
+
+                {productGroups.length === 0 ? (
+                  <s-text color="subdued" variant="bodySm">
+                    No product groups yet.
+                  </s-text>
+                ) : (
+                  <s-stack direction="block" gap="tight">
+                    {productGroups.map((group, index) => (
+                      <ProductGroupCard
+                        key={group.id}
+                        group={group}
+                        isFirst={index === 0}
+                        isLast={index === productGroups.length - 1}
+                        onTitleChange={(title) => updateProductGroup(group.id, { title })}
+                        onMove={(direction) => moveProductGroup(group.id, direction)}
+                        onRemove={() => removeProductGroup(group.id)}
+                        onAddProducts={() => openProductGroupResourcePicker(group.id)}
+                        onRemoveItem={(resourceId) => removeProductGroupItem(group.id, resourceId)}
+                      />
+                    ))}
+                  </s-stack>
+                )}
+              </s-stack>
+            </s-box>
+          )}
+
           {/* Delete add-ons with main product option */}
           <s-checkbox
             label="Delete add-on products after Main Product is deleted from cart"
@@ -828,6 +1140,8 @@ export default function NewBundle() {
                 <AddOnCard
                   key={addOn.id}
                   addOn={addOn}
+                  productGroups={form.targetingType === "PRODUCT_GROUPS" ? productGroups : undefined}
+                  otherAddOns={addOns.filter(other => other.id !== addOn.id).map(other => ({ id: other.id, title: other.productTitle }))}
                   onDelete={() => removeAddOn(addOn.id)}
                   onUpdate={(updates) => updateAddOn(addOn.id, updates)}
                   onEditVariants={() => {
@@ -844,6 +1158,185 @@ export default function NewBundle() {
         </s-stack>
       </s-section>
 
+      <s-section heading="Tiered discounts">
+        <DiscountTiersEditor
+          tiers={discountTiers}
+          error={errors.discountTiers}
+          onChange={(tiers) => {
+            setDiscountTiers(tiers);
+            if (errors.discountTiers) {
+              setErrors((prev) => {
+                const newErrors = { ...prev };
+                delete newErrors.discountTiers;
+                return newErrors;
+              });
+            }
+          }}
+        />
+      </s-section>
+
+      <s-section heading="Shipping perk">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Discount shipping when add-ons are bought with the main product"
+            checked={form.shippingPerkEnabled}
+            onChange={(e: Event) => handleChange("shippingPerkEnabled", (e.target as HTMLInputElement).checked)}
+          />
+          {form.shippingPerkEnabled && (
+            <>
+              <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label="Minimum add-ons"
+                    type="number"
+                    value={form.shippingPerkMinAddOns}
+                    min="1"
+                    max="99"
+                    onInput={(e: Event) => handleChange("shippingPerkMinAddOns", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+                  />
+                </div>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label="Shipping discount (%)"
+                    type="number"
+                    value={form.shippingPerkPercentage}
+                    min="1"
+                    max="100"
+                    onInput={(e: Event) => handleChange("shippingPerkPercentage", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+                  />
+                </div>
+              </div>
+              <s-text-field
+                label="Label (optional)"
+                value={form.shippingPerkLabel}
+                placeholder={form.shippingPerkPercentage === "100" ? "Free shipping" : "e.g., 50% off shipping"}
+                onInput={(e: Event) => handleChange("shippingPerkLabel", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                Applies to the shipment containing a main product and at least this many of its add-ons. Use 100% for free shipping.
+              </s-text>
+            </>
+          )}
+          {errors.shippingPerk && (
+            <s-text color="critical" variant="bodySm">{errors.shippingPerk}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Complete the bundle">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Discount the order when the main product and all required add-ons are in the cart"
+            checked={form.completeBundleEnabled}
+            onChange={(e: Event) => handleChange("completeBundleEnabled", (e.target as HTMLInputElement).checked)}
+          />
+          {form.completeBundleEnabled && (
+            <>
+              <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+                <div style={{ width: "200px" }}>
+                  <s-select
+                    label="Discount type"
+                    value={form.completeBundleDiscountType}
+                    onInput={(e: Event) => handleChange("completeBundleDiscountType", (e.target as HTMLSelectElement).value)}
+                  >
+                    <s-option value="PERCENTAGE" selected={form.completeBundleDiscountType === "PERCENTAGE"}>Percentage off</s-option>
+                    <s-option value="FIXED_AMOUNT" selected={form.completeBundleDiscountType === "FIXED_AMOUNT"}>Fixed amount off</s-option>
+                  </s-select>
+                </div>
+                <div style={{ width: "160px" }}>
+                  <s-text-field
+                    label={form.completeBundleDiscountType === "PERCENTAGE" ? "Discount (%)" : "Amount off"}
+                    type="number"
+                    value={form.completeBundleDiscountValue}
+                    min="0"
+                    onInput={(e: Event) => handleChange("completeBundleDiscountValue", (e.target as HTMLInputElement).value)}
+                  />
+                </div>
+              </div>
+              <s-text-field
+                label="Label (optional)"
+                value={form.completeBundleLabel}
+                placeholder="e.g., Complete the bundle and save"
+                onInput={(e: Event) => handleChange("completeBundleLabel", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                Applies to the main product and its add-ons. Mark add-ons as required in their settings; if none are marked, all add-ons are required. Fixed amounts apply once per completed bundle.
+              </s-text>
+            </>
+          )}
+          {errors.completeBundle && (
+            <s-text color="critical" variant="bodySm">{errors.completeBundle}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Customer eligibility">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Who gets the add-on discounts?"
+            value={form.customerEligibility}
+            onInput={(e: Event) => handleChange("customerEligibility", (e.target as HTMLSelectElement).value)}
+          >
+            <s-option value="ALL_CUSTOMERS" selected={form.customerEligibility === "ALL_CUSTOMERS"}>All customers</s-option>
+            <s-option value="TAGGED_CUSTOMERS" selected={form.customerEligibility === "TAGGED_CUSTOMERS"}>Logged-in customers with specific tags</s-option>
+            <s-option value="B2B_CUSTOMERS" selected={form.customerEligibility === "B2B_CUSTOMERS"}>B2B customers (buying for a company)</s-option>
+          </s-select>
+          {form.customerEligibility === "TAGGED_CUSTOMERS" && (
+            <s-text-field
+              label="Customer tags"
+              value={form.eligibleCustomerTags}
+              placeholder="e.g., VIP, wholesale"
+              details="Comma-separated. Customers with any of these tags get the discounts."
+              onInput={(e: Event) => handleChange("eligibleCustomerTags", (e.target as HTMLInputElement).value)}
+            />
+          )}
+          {form.customerEligibility !== "ALL_CUSTOMERS" && (
+            <s-checkbox
+              label="Hide the bundle from other visitors (otherwise it shows at regular prices)"
+              checked={form.hideBundleForIneligible}
+              onChange={(e: Event) => handleChange("hideBundleForIneligible", (e.target as HTMLInputElement).checked)}
+            />
+          )}
+          {errors.customerEligibility && (
+            <s-text color="critical" variant="bodySm">{errors.customerEligibility}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Cart presentation">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            label="Show the main product and its add-ons as one bundle line in the cart"
+            checked={form.presentAsBundle}
+            onChange={(e: Event) => handleChange("presentAsBundle", (e.target as HTMLInputElement).checked)}
+          />
+          {form.presentAsBundle && (
+            <>
+              <s-text-field
+                label="Bundle line title (optional)"
+                value={form.bundleLineTitle}
+                placeholder="e.g., Camera + lens kit"
+                details="Defaults to the main product title plus bundle, e.g. Camera bundle."
+                onInput={(e: Event) => handleChange("bundleLineTitle", (e.target as HTMLInputElement).value)}
+              />
+              <s-text-field
+                label="Bundle line image URL (optional)"
+                value={form.bundleLineImage}
+                placeholder="https://cdn.shopify.com/..."
+                details="Must be a public https URL. Defaults to the main product image."
+                onInput={(e: Event) => handleChange("bundleLineImage", (e.target as HTMLInputElement).value)}
+              />
+              <s-text color="subdued" variant="bodySm">
+                The products still appear individually in order details. Add-ons added on their own stay separate lines.
+              </s-text>
+            </>
+          )}
+          {errors.presentAsBundle && (
+            <s-text color="critical" variant="bodySm">{errors.presentAsBundle}</s-text>
+          )}
+        </s-stack>
+      </s-section>
+
       {/* Styles Section - Aside */}
       <s-section slot="aside" heading="Styles">
         <s-button ref={stylesButtonRef} variant="secondary" style={{ width: '100%' }}>
@@ -873,6 +1366,37 @@ export default function NewBundle() {
           <s-option value="MULTIPLE" selected={form.selectionMode === "MULTIPLE"}>Multiple - Customers can select multiple add-ons</s-option>
           <s-option value="SINGLE" selected={form.selectionMode === "SINGLE"}>Single - Customers can select only one add-on</s-option>
         </s-select>
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", marginTop: "12px" }}>
+          <div style={{ width: "140px" }}>
+            <s-text-field
+              label="Minimum add-ons"
+              type="number"
+              value={form.minSelections}
+              min="0"
+              max={form.selectionMode === "SINGLE" ? "1" : "99"}
+              onInput={(e: Event) => handleChange("minSelections", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+            />
+          </div>
+          {form.selectionMode === "MULTIPLE" && (
+            <div style={{ width: "140px" }}>
+              <s-text-field
+                label="Maximum add-ons"
+                type="number"
+                value={form.maxSelections}
+                min="1"
+                max="99"
+                placeholder="No limit"
+                onInput={(e: Event) => handleChange("maxSelections", (e.target as HTMLInputElement).value.replace(/[^0-9]/g, ''))}
+              />
+            </div>
+          )}
+        </div>
+        <s-text color="subdued" variant="bodySm">
+          Add to cart is blocked until the minimum is selected; other add-ons are disabled once the maximum is reached.
+        </s-text>
+        {errors.selectionLimits && (
+          <s-text color="critical" variant="bodySm">{errors.selectionLimits}</s-text>
+        )}
       </s-section>
 
       {/* Discount Combinations Section - Aside */}
@@ -1105,6 +1629,23 @@ function StylesModal({ style, onStyleChange, onClose, onReset, title, subtitle,
               </s-select>
             </div>
 
+            {/* Display Mode Section */}
+            <div style={{ marginBottom: "24px" }}>
+              <s-select
+                label="Display mode"
+                value={style.displayMode}
+                onInput={(e: Event) => onStyleChange("displayMode", (e.target as HTMLSelectElement).value)}
+              >
+                <s-option value="INLINE" selected={style.displayMode === "INLINE"}>Inline (next to the buy buttons)</s-option>
+                <s-option value="MODAL" selected={style.displayMode === "MODAL"}>Modal after Add to Cart</s-option>
+              </s-select>
+              {style.displayMode === "MODAL" && (
+                <s-text color="subdued" variant="bodySm">
+                  Nothing is shown next to the buy buttons. Add to Cart opens a modal with the add-ons.
+                </s-text>
+              )}
+            </div>
+
             {/* Colors Section */}
             <div style={{ marginBottom: "24px" }}>
               <s-stack direction="block" gap="tight">
@@ -1141,6 +1682,8 @@ function StylesModal({ style, onStyleChange, onClose, onReset, title, subtitle,
                     >
                       <s-option value="LIST" selected={style.layoutType === "LIST"}>List</s-option>
                       <s-option value="GRID" selected={style.layoutType === "GRID"}>Grid</s-option>
+                      <s-option value="CAROUSEL" selected={style.layoutType === "CAROUSEL"}>Carousel</s-option>
+                      <s-option value="FREQUENTLY_BOUGHT_TOGETHER" selected={style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER"}>Frequently bought together</s-option>
                     </s-select>
                   </div>
                   <div style={{ flex: 1 }}>
@@ -1655,7 +2198,23 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
     }),
   };
 
-  return (
+  // Frequently bought together: image strip and the total of the pre-selected add-ons
+  // (the main product price is only known on the product page)
+  const fbtImageStyle: React.CSSProperties = {
+    width: "64px",
+    height: "64px",
+    objectFit: "cover",
+    display: "block",
+    borderRadius: `${Math.max(4, style.borderRadius / 2)}px`,
+    backgroundColor: "rgba(0,0,0,0.05)",
+  };
+  const fbtAddOnTotal = addOns.reduce((total, addOn) => {
+    const variantPrice = addOn.selectedVariants?.[0]?.variantPrice;
+    if (!variantPrice || !(addOn.isDefaultSelected || addOn.discountType === "FREE_GIFT")) return total;
+    return total + calculateDiscountedPrice(Number(variantPrice), addOn.discountType, addOn.discountValue ? Number(addOn.discountValue) : null);
+  }, 0);
+
+  const widget = (
     <div style={previewStyle}>
       {/* Title */}
       {title && <div style={titleStyle}>{title || "Bundle Title"}</div>}
@@ -1698,6 +2257,38 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
         </div>
       )}
 
+      {/* Frequently Bought Together Strip */}
+      {style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER" && addOns.length > 0 && (
+        <div style={{ marginBottom: "16px" }}>
+          <div style={{ display: "flex", alignItems: "center", flexWrap: "wrap", gap: "8px" }}>
+            <div style={{ ...fbtImageStyle, display: "flex", alignItems: "center", justifyContent: "center", fontSize: "0.75em", opacity: 0.6 }}>
+              Product
+            </div>
+            {addOns.slice(0, 3).map((addOn) => (
+              <span
+                key={addOn.id}
+                style={{
+                  display: "inline-flex",
+                  alignItems: "center",
+                  gap: "8px",
+                  opacity: addOn.isDefaultSelected || addOn.discountType === "FREE_GIFT" ? 1 : 0.35,
+                }}
+              >
+                <span style={{ fontSize: "1.4em", fontWeight: 600, opacity: 0.6 }}>+</span>
+                {addOn.productImageUrl ? (
+                  <img src={addOn.productImageUrl} alt={addOn.productTitle || ""} style={fbtImageStyle} />
+                ) : (
+                  <span style={fbtImageStyle} />
+                )}
+              </span>
+            ))}
+          </div>
+          <div style={{ marginTop: "12px", fontWeight: 600 }}>
+            Total price: product price + ${fbtAddOnTotal.toFixed(2)}
+          </div>
+        </div>
+      )}
+
       {/* Add-On List */}
       {addOns.length === 0 ? (
         <div style={{ opacity: 0.6, textAlign: "center", padding: "20px" }}>
@@ -1706,9 +2297,10 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
       ) : (
         <div style={{
           display: "flex",
-          flexDirection: style.layoutType === "GRID" ? "row" : "column",
+          flexDirection: style.layoutType === "GRID" || style.layoutType === "CAROUSEL" ? "row" : "column",
           gap: isModern ? "16px" : "12px",
-          flexWrap: "wrap"
+          flexWrap: style.layoutType === "CAROUSEL" ? "nowrap" : "wrap",
+          ...(style.layoutType === "CAROUSEL" && { overflowX: "auto", scrollSnapType: "x mandatory" }),
         }}>
           {addOns.slice(0, 3).map((addOn) => {
             const firstVariant = addOn.selectedVariants?.[0];
@@ -1727,7 +2319,9 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
                 gap: "12px",
                 padding: "12px",
                 borderRadius: `${Math.max(4, style.borderRadius / 2)}px`,
-                flex: style.layoutType === "GRID" ? "1 1 45%" : "none",
+                flex: style.layoutType === "GRID" ? "1 1 45%" : style.layoutType === "CAROUSEL" ? "0 0 70%" : "none",
+                // Carousel cards stack the image above the content
+                ...(style.layoutType === "CAROUSEL" && { flexDirection: "column", alignItems: "flex-start", scrollSnapAlign: "start" }),
               };
 
               if (isMinimal) {
@@ -1816,6 +2410,8 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
                   backgroundColor: isMinimal ? "transparent" : "rgba(0,0,0,0.05)",
                   ...(isMinimal && { border: "1px solid rgba(0,0,0,0.08)" }),
                   ...(isModern && { boxShadow: "0 2px 8px rgba(0,0,0,0.1)" }),
+                  // Frequently bought together shows the images in the strip above the list
+                  ...(style.layoutType === "FREQUENTLY_BOUGHT_TOGETHER" && { display: "none" }),
                 }}>
                   {addOn.productImageUrl ? (
                     <img
@@ -1908,19 +2504,402 @@ function StylesModalPreview({ title, subtitle, selectionMode, addOns, style, end
           )}
         </div>
       )}
+
+      {/* Modal actions (MODAL display mode) */}
+      {style.displayMode === "MODAL" && (
+        <div style={{ display: "flex", gap: "8px", marginTop: "16px" }}>
+          <button
+            type="button"
+            style={{
+              flex: 1,
+              padding: "12px",
+              border: "none",
+              borderRadius: `${style.borderRadius}px`,
+              backgroundColor: style.buttonColor,
+              color: style.buttonTextColor,
+              fontWeight: 600,
+              cursor: "default",
+            }}
+          >
+            Add selected
+          </button>
+          <button
+            type="button"
+            style={{
+              flex: 1,
+              padding: "12px",
+              border: `1px solid ${style.borderColor}`,
+              borderRadius: `${style.borderRadius}px`,
+              backgroundColor: "transparent",
+              color: style.fontColor,
+              cursor: "default",
+            }}
+          >
+            No thanks
+          </button>
+        </div>
+      )}
     </div>
   );
+
+  if (style.displayMode !== "MODAL") {
+    return widget;
+  }
+
+  // MODAL display mode: the widget opens over the product page after Add to Cart
+  return (
+    <div style={{
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      padding: "24px 16px",
+      borderRadius: "8px",
+      backgroundColor: "rgba(0, 0, 0, 0.45)",
+    }}>
+      <div style={{ width: "100%", maxWidth: "480px", backgroundColor: "#ffffff", boxShadow: "0 12px 40px rgba(0, 0, 0, 0.3)", borderRadius: `${style.borderRadius}px` }}>
+        {widget}
+      </div>
+    </div>
+  );
+}
+
+// Add-On Rules Editor Component
+interface AddOnRulesEditorProps {
+  addOns: Array<{ id: string; title: string }>; // The bundle's other add-ons
+  requiresAddOnIds: string[];
+  excludesAddOnIds: string[];
+  onChange: (rules: { requiresAddOnIds: string[]; excludesAddOnIds: string[] }) => void;
+}
+
+function AddOnRulesEditor({ addOns, requiresAddOnIds, excludesAddOnIds, onChange }: AddOnRulesEditorProps) {
+  const updateRule = (addOnId: string, type: string) => {
+    onChange({
+      requiresAddOnIds: [...requiresAddOnIds.filter((id) => id !== addOnId), ...(type === "REQUIRES" ? [addOnId] : [])],
+      excludesAddOnIds: [...excludesAddOnIds.filter((id) => id !== addOnId), ...(type === "EXCLUDES" ? [addOnId] : [])],
+    });
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Rules</s-text>
+      <s-text color="subdued" variant="bodySm">
+        Only offer this add-on once other add-ons are selected, or keep it from being selected together with them.
+      </s-text>
+      {addOns.length === 0 ? (
+        <s-text variant="bodySm">Add more add-ons to create rules</s-text>
+      ) : (
+        addOns.map((other) => {
+          const type = requiresAddOnIds.includes(other.id)
+            ? "REQUIRES"
+            : excludesAddOnIds.includes(other.id) ? "EXCLUDES" : "";
+          return (
+            <s-select
+              key={other.id}
+              label={other.title || "Untitled add-on"}
+              value={type}
+              onInput={(e: Event) => updateRule(other.id, (e.target as HTMLSelectElement).value)}
+            >
+              <s-option value="" selected={type === ""}>No rule</s-option>
+              <s-option value="REQUIRES" selected={type === "REQUIRES"}>Only offer after this is selected</s-option>
+              <s-option value="EXCLUDES" selected={type === "EXCLUDES"}>Never selected together</s-option>
+            </s-select>
+          );
+        })
+      )}
+    </s-stack>
+  );
+}
+
+// Main Variants Editor Component
+interface MainVariantsEditorProps {
+  variants: LocalMainVariant[];
+  onChange: (variants: LocalMainVariant[]) => void;
+}
+
+function MainVariantsEditor({ variants, onChange }: MainVariantsEditorProps) {
+  const shopify = useAppBridge();
+
+  const chooseVariants = async () => {
+    const selected = await shopify.resourcePicker({
+      type: "variant",
+      multiple: true,
+      selectionIds: variants.map((variant) => ({ id: variant.shopifyVariantId })),
+    });
+
+    // Picker closed without a selection
+    if (!selected) return;
+
+    onChange((selected as Array<{ id: string; title?: string; product?: { title?: string } }>).map((variant) => ({
+      shopifyVariantId: variant.id,
+      variantTitle: variant.title || null,
+      productTitle: variant.product?.title || null,
+    })));
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Main product variants</s-text>
+      <s-text color="subdued" variant="bodySm">
+        Only offer and discount this add-on when the customer picks one of these variants of the main product. Leave empty to offer it with every variant.
+      </s-text>
+      {variants.length > 0 ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "6px" }}>
+          {variants.map((variant) => (
+            <s-badge key={variant.shopifyVariantId}>
+              {[variant.productTitle, variant.variantTitle].filter(Boolean).join(" - ") || variant.shopifyVariantId}
+            </s-badge>
+          ))}
+        </div>
+      ) : (
+        <s-text variant="bodySm">Offered with every variant</s-text>
+      )}
+      <div style={{ display: "flex", gap: "8px" }}>
+        <s-button variant="secondary" onClick={chooseVariants}>
+          Choose variants
+        </s-button>
+        {variants.length > 0 && (
+          <s-button variant="tertiary" tone="critical" onClick={() => onChange([])}>
+            Clear
+          </s-button>
+        )}
+      </div>
+    </s-stack>
+  );
+}
+
+// Currency Values Editor Component
+interface CurrencyValuesEditorProps {
+  values: Array<{ currencyCode: string; discountValue: number | null }>;
+  onChange: (values: Array<{ currencyCode: string; discountValue: number | null }>) => void;
+}
+
+function CurrencyValuesEditor({ values, onChange }: CurrencyValuesEditorProps) {
+  const updateValue = (index: number, updates: Partial<{ currencyCode: string; discountValue: number | null }>) => {
+    onChange(values.map((value, i) => (i === index ? { ...value, ...updates } : value)));
+  };
+
+  return (
+    <s-stack direction="block" gap="tight">
+      <s-text variant="headingSm">Amounts in other currencies</s-text>
+      <s-text color="subdued" variant="bodySm">
+        The amount above is in your store currency and is converted for other currencies. Set an exact amount for a currency to override the conversion.
+      </s-text>
+      {values.map((value, index) => (
+        <div key={index} style={{ display: "flex", alignItems: "flex-end", gap: "8px" }}>
+          <div style={{ width: "100px" }}>
+            <s-text-field
+              label="Currency"
+              value={value.currencyCode}
+              placeholder="EUR"
+              onInput={(e: Event) => updateValue(index, { currencyCode: (e.target as HTMLInputElement).value.toUpperCase() })}
+            />
+          </div>
+          <div style={{ width: "120px" }}>
+            <s-text-field
+              label="Amount"
+              type="number"
+              value={value.discountValue?.toString() || ""}
+              min="0"
+              step="0.01"
+              onInput={(e: Event) => {
+                const amount = parseFloat((e.target as HTMLInputElement).value);
+                updateValue(index, { discountValue: isNaN(amount) ? null : amount });
+              }}
+            />
+          </div>
+          <s-button variant="tertiary" tone="critical" onClick={() => onChange(values.filter((_, i) => i !== index))}>
+            Remove
+          </s-button>
+        </div>
+      ))}
+      <s-button variant="secondary" onClick={() => onChange([...values, { currencyCode: "", discountValue: null }])}>
+        Add currency
+      </s-button>
+    </s-stack>
+  );
+}
+
+// Discount Tiers Editor Component
+interface DiscountTiersEditorProps {
+  tiers: LocalDiscountTier[];
+  error?: string;
+  onChange: (tiers: LocalDiscountTier[]) => void;
+}
+
+function DiscountTiersEditor({ tiers, error, onChange }: DiscountTiersEditorProps) {
+  const updateTier = (id: string, updates: Partial<LocalDiscountTier>) => {
+    onChange(tiers.map(tier => (tier.id === id ? { ...tier, ...updates } : tier)));
+  };
+
+  const handleAddTier = () => {
+    const nextCount = tiers.reduce((max, tier) => Math.max(max, tier.minAddOns), 1) + 1;
+    onChange([
+      ...tiers,
+      {
+        id: `local_tier_${Date.now()}`,
+        minAddOns: nextCount,
+        discountType: "PERCENTAGE",
+        discountValue: null,
+        discountLabel: "",
+      },
+    ]);
+  };
+
+  return (
+    <s-stack direction="block" gap="base">
+      <s-text color="subdued" variant="bodySm">
+        Reward customers for picking more add-ons, e.g. pick 2 get 10% off, pick 3 get 20% off. An unlocked tier replaces the add-ons&apos; own discounts; free gifts stay free.
+      </s-text>
+      {error && (
+        <s-text color="critical" variant="bodySm">{error}</s-text>
+      )}
+
+      {tiers.map((tier) => (
+        <s-box key={tier.id} padding="base" borderWidth="base" borderRadius="base">
+          <div style={{ display: "flex", alignItems: "flex-end", gap: "8px", flexWrap: "wrap" }}>
+            <div style={{ width: "120px" }}>
+              <s-text-field
+                label="Add-ons selected"
+                type="number"
+                value={tier.minAddOns.toString()}
+                min="1"
+                max="99"
+                onInput={(e: Event) => {
+                  const input = e.target as HTMLInputElement;
+                  const numericValue = input.value.replace(/[^0-9]/g, '');
+                  input.value = numericValue;
+                  updateTier(tier.id, { minAddOns: Math.min(99, Math.max(1, parseInt(numericValue) || 1)) });
+                }}
+              />
+            </div>
+            <div style={{ width: "160px" }}>
+              <s-select
+                label="Discount type"
+                value={tier.discountType}
+                onInput={(e: Event) => updateTier(tier.id, { discountType: (e.target as HTMLSelectElement).value as LocalDiscountTier["discountType"] })}
+              >
+                <s-option value="PERCENTAGE" selected={tier.discountType === "PERCENTAGE"}>Percentage off</s-option>
+                <s-option value="FIXED_AMOUNT" selected={tier.discountType === "FIXED_AMOUNT"}>Amount off each</s-option>
+              </s-select>
+            </div>
+            <div style={{ width: "120px" }}>
+              <s-text-field
+                label={tier.discountType === "PERCENTAGE" ? "Percentage" : "Amount"}
+                type="number"
+                value={tier.discountValue?.toString() || ""}
+                onInput={(e: Event) => {
+                  const value = parseFloat((e.target as HTMLInputElement).value);
+                  updateTier(tier.id, { discountValue: isNaN(value) ? null : value });
+                }}
+              />
+            </div>
+            <div style={{ flex: 1, minWidth: "160px" }}>
+              <s-text-field
+                label="Label (optional)"
+                value={tier.discountLabel}
+                placeholder="e.g., 20% off"
+                onInput={(e: Event) => updateTier(tier.id, { discountLabel: (e.target as HTMLInputElement).value })}
+              />
+            </div>
+            <s-button variant="tertiary" tone="critical" onClick={() => onChange(tiers.filter(t => t.id !== tier.id))}>
+              Remove
+            </s-button>
+          </div>
+        </s-box>
+      ))}
+
+      <s-button variant="secondary" onClick={handleAddTier}>
+        Add tier
+      </s-button>
+    </s-stack>
+  );
+}
+
+// Product Group Card Component
+interface ProductGroupCardProps {
+  group: LocalProductGroup;
+  isFirst: boolean;
+  isLast: boolean;
+  onTitleChange: (title: string) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  onAddProducts: () => void;
+  onRemoveItem: (shopifyResourceId: string) => void;
+}
+
+function ProductGroupCard({ group, isFirst, isLast, onTitleChange, onMove, onRemove, onAddProducts, onRemoveItem }: ProductGroupCardProps) {
+  const itemImageStyle: React.CSSProperties = {
+    width: "32px",
+    height: "32px",
+    objectFit: "cover",
+    borderRadius: "4px",
+    border: "1px solid #e0e0e0",
+  };
+
+  const placeholderImageStyle: React.CSSProperties = {
+    ...itemImageStyle,
+    backgroundColor: "#f5f5f5",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    fontSize: "8px",
+    color: "#999",
+  };
+
+  return (
+    <s-box padding="base" borderWidth="base" borderRadius="base" background="default">
+      <s-stack direction="block" gap="tight">
+        <div style={{ display: "flex", alignItems: "flex-end", gap: "8px" }}>
+          <div style={{ flex: 1 }}>
+            <s-text-field
+              label="Group title (shown as tab label)"
+              value={group.title}
+              onInput={(e: Event) => onTitleChange((e.target as HTMLInputElement).value)}
+            />
+          </div>
+          <s-button variant="tertiary" disabled={isFirst || undefined} onClick={() => onMove(-1)}>↑</s-button>
+          <s-button variant="tertiary" disabled={isLast || undefined} onClick={() => onMove(1)}>↓</s-button>
+          <s-button variant="secondary" onClick={onAddProducts}>Add products</s-button>
+          <s-button variant="secondary" tone="critical" onClick={onRemove}>Remove group</s-button>
+        </div>
+
+        {group.items.length === 0 ? (
+          <s-text color="subdued" variant="bodySm">No products in this group yet.</s-text>
+        ) : (
+          <s-stack direction="block" gap="extraTight">
+            {group.items.map((item) => (
+              <div key={item.shopifyResourceId} style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                {item.imageUrl ? (
+                  <img src={item.imageUrl} alt={item.title || item.shopifyResourceId} style={itemImageStyle} />
+                ) : (
+                  <div style={placeholderImageStyle}>No img</div>
+                )}
+                <div style={{ flex: 1 }}>
+                  <s-text>{item.title || item.shopifyResourceId}</s-text>
+                </div>
+                <s-button variant="tertiary" tone="critical" onClick={() => onRemoveItem(item.shopifyResourceId)}>
+                  Remove
+                </s-button>
+              </div>
+            ))}
+          </s-stack>
+        )}
+      </s-stack>
+    </s-box>
+  );
 }
 
 // Add-On Card Component for local management
 interface AddOnCardProps {
   addOn: LocalAddOn;
+  productGroups?: Array<{ id: string; title: string }>;
+  otherAddOns: Array<{ id: string; title: string }>;
   onDelete: () => void;
   onUpdate: (updates: Partial<LocalAddOn>) => void;
   onEditVariants: () => void;
 }
 
-function AddOnCard({ addOn, onDelete, onUpdate, onEditVariants }: AddOnCardProps) {
+function AddOnCard({ addOn, productGroups, otherAddOns, onDelete, onUpdate, onEditVariants }: AddOnCardProps) {
   const [isConfigureModalOpen, setIsConfigureModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
 
@@ -2003,6 +2982,8 @@ function AddOnCard({ addOn, onDelete, onUpdate, onEditVariants }: AddOnCardProps
       {isConfigureModalOpen && (
         <ConfigureAddOnModal
           addOn={addOn}
+          productGroups={productGroups}
+          otherAddOns={otherAddOns}
           onUpdate={onUpdate}
           onEditVariants={onEditVariants}
           onClose={() => setIsConfigureModalOpen(false)}
@@ -2027,12 +3008,14 @@ function AddOnCard({ addOn, onDelete, onUpdate, onEditVariants }: AddOnCardProps
 // Configure Add-On Modal Component
 interface ConfigureAddOnModalProps {
   addOn: LocalAddOn;
+  productGroups?: Array<{ id: string; title: string }>;
+  otherAddOns: Array<{ id: string; title: string }>;
   onUpdate: (updates: Partial<LocalAddOn>) => void;
   onEditVariants: () => void;
   onClose: () => void;
 }
 
-function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: ConfigureAddOnModalProps) {
+function ConfigureAddOnModal({ addOn, productGroups, otherAddOns, onUpdate, onEditVariants, onClose }: ConfigureAddOnModalProps) {
   const modalOverlayStyle: React.CSSProperties = {
     position: "fixed",
     top: 0,
@@ -2114,6 +3097,36 @@ function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: Confi
               </s-button>
             </div>
 
+            {/* Product Group (PRODUCT_GROUPS targeting) */}
+            {productGroups && (
+              <s-select
+                label="Offer with"
+                value={addOn.productGroupId || ""}
+                onInput={(e: Event) => onUpdate({ productGroupId: (e.target as HTMLSelectElement).value || null })}
+              >
+                <s-option value="" selected={!addOn.productGroupId}>All product groups</s-option>
+                {productGroups.map((group) => (
+                  <s-option key={group.id} value={group.id} selected={addOn.productGroupId === group.id}>
+                    {group.title || "Untitled group"}
+                  </s-option>
+                ))}
+              </s-select>
+            )}
+
+            {/* Main product variants (empty = every variant) */}
+            <MainVariantsEditor
+              variants={addOn.mainVariants}
+              onChange={(mainVariants) => onUpdate({ mainVariants })}
+            />
+
+            {/* Dependencies and exclusions between add-ons */}
+            <AddOnRulesEditor
+              addOns={otherAddOns}
+              requiresAddOnIds={addOn.requiresAddOnIds}
+              excludesAddOnIds={addOn.excludesAddOnIds}
+              onChange={onUpdate}
+            />
+
             {/* Discount Type */}
             <s-select
               label="Discount type"
@@ -2141,6 +3154,14 @@ function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: Confi
               />
             )}
 
+            {/* Per-currency amounts (other currencies are converted from the shop currency) */}
+            {(addOn.discountType === "FIXED_AMOUNT" || addOn.discountType === "FIXED_PRICE") && (
+              <CurrencyValuesEditor
+                values={addOn.currencyValues}
+                onChange={(currencyValues) => onUpdate({ currencyValues })}
+              />
+            )}
+
             {/* Discount Label */}
             <s-text-field
               label="Discount label (optional)"
@@ -2157,6 +3178,12 @@ function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: Confi
                 disabled={addOn.discountType === "FREE_GIFT" || undefined}
                 onChange={(e: Event) => onUpdate({ isDefaultSelected: (e.target as HTMLInputElement).checked })}
               />
+              <s-checkbox
+                label="Customers must select this add-on"
+                checked={addOn.isRequired}
+                disabled={addOn.discountType === "FREE_GIFT" || undefined}
+                onChange={(e: Event) => onUpdate({ isRequired: (e.target as HTMLInputElement).checked })}
+              />
               <s-checkbox
                 label="Subscription orders only"
                 checked={addOn.subscriptionOnly}
@@ -2167,6 +3194,11 @@ function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: Confi
                 checked={addOn.showQuantitySelector}
                 onChange={(e: Event) => onUpdate({ showQuantitySelector: (e.target as HTMLInputElement).checked })}
               />
+              <s-checkbox
+                label="Required to complete the bundle"
+                checked={addOn.completesBundle}
+                onChange={(e: Event) => onUpdate({ completesBundle: (e.target as HTMLInputElement).checked })}
+              />
             </s-stack>
 
             {/* Max Quantity */}
@@ -2189,6 +3221,24 @@ function ConfigureAddOnModal({ addOn, onUpdate, onEditVariants, onClose }: Confi
                 max="99"
               />
             )}
+
+            {/* Discounted add-ons per main product unit */}
+            <s-text-field
+              label="Discounted add-ons per main product"
+              type="number"
+              value={addOn.addOnsPerMainUnit?.toString() || ""}
+              placeholder="No limit"
+              details="Limits how many of this add-on are discounted for each main product in the cart"
+              onInput={(e: Event) => {
+                const input = e.target as HTMLInputElement;
+                // Remove non-numeric characters; empty means no limit
+                const numericValue = input.value.replace(/[^0-9]/g, '');
+                input.value = numericValue;
+                onUpdate({ addOnsPerMainUnit: numericValue ? Math.min(99, Math.max(1, parseInt(numericValue))) : null });
+              }}
+              min="1"
+              max="99"
+            />
           </s-stack>
         </div>
 
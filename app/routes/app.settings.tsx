@@ -5,7 +5,10 @@ import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
 import { getShopSettings, updateShopSettings } from "../models/shopSettings.server";
-import type { ShopSettings, SelectionMode, LayoutType, ImageSize } from "@prisma/client";
+import { syncAllBundles } from "../services/bundle.sync";
+import { syncCartValidation } from "../services/cartValidation.sync";
+import { syncStorefrontSettings } from "../services/storefrontSettings.sync";
+import type { ShopSettings, SelectionMode, LayoutType, ImageSize, PricingEngine, ThemeAdapter } from "@prisma/client";
 
 interface MetafieldInfo {
   id: string;
@@ -352,6 +355,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const defaultButtonColor = formData.get("defaultButtonColor") as string;
   const defaultButtonTextColor = formData.get("defaultButtonTextColor") as string;
   const analyticsEnabled = formData.get("analyticsEnabled") === "true";
+  const pricingEngine = (formData.get("pricingEngine") as PricingEngine) || "DISCOUNT_FUNCTION";
+  const themeAdapter = (formData.get("themeAdapter") as ThemeAdapter) || "AUTO";
+  const allOrNothingAddToCart = formData.get("allOrNothingAddToCart") === "true";
+  const checkoutValidationEnabled = formData.get("checkoutValidationEnabled") === "true";
+  const orphanedAddOnMessage = ((formData.get("orphanedAddOnMessage") as string) || "").trim();
+  const addOnLimitMessage = ((formData.get("addOnLimitMessage") as string) || "").trim();
+  const requiredAddOnMessage = ((formData.get("requiredAddOnMessage") as string) || "").trim();
+
+  if (!orphanedAddOnMessage || !addOnLimitMessage || !requiredAddOnMessage) {
+    return { success: false, error: "Checkout validation messages cannot be empty" };
+  }
+
+  const previousSettings = await getShopSettings(shop);
 
   await updateShopSettings(shop, {
     defaultSelectionMode,
@@ -362,8 +378,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     defaultButtonColor,
     defaultButtonTextColor,
     analyticsEnabled,
+    pricingEngine,
+    themeAdapter,
+    allOrNothingAddToCart,
+    checkoutValidationEnabled,
+    orphanedAddOnMessage,
+    addOnLimitMessage,
+    requiredAddOnMessage,
   });
 
+  if (
+    themeAdapter !== previousSettings.themeAdapter ||
+    allOrNothingAddToCart !== previousSettings.allOrNothingAddToCart
+  ) {
+    console.log("[Settings] Storefront settings changed - syncing storefront settings");
+    const storefrontResult = await syncStorefrontSettings(admin, shop);
+    if (!storefrontResult.success) {
+      return { success: false, error: storefrontResult.error };
+    }
+  }
+
+  // Discount configs and the cart transform both depend on the pricing engine
+  if (pricingEngine !== previousSettings.pricingEngine) {
+    console.log("[Settings] Pricing engine changed to", pricingEngine, "- re-syncing bundles");
+    await syncAllBundles(admin, shop);
+  }
+
+  if (
+    checkoutValidationEnabled !== previousSettings.checkoutValidationEnabled ||
+    orphanedAddOnMessage !== previousSettings.orphanedAddOnMessage ||
+    addOnLimitMessage !== previousSettings.addOnLimitMessage ||
+    requiredAddOnMessage !== previousSettings.requiredAddOnMessage
+  ) {
+    console.log("[Settings] Checkout validation changed - syncing cart validation");
+    const validationResult = await syncCartValidation(admin, shop);
+    if (!validationResult.success) {
+      return { success: false, error: validationResult.error };
+    }
+  }
+
   return { success: true };
 };
 
@@ -383,6 +436,13 @@ export default function Settings() {
     defaultButtonColor: settings.defaultButtonColor,
     defaultButtonTextColor: settings.defaultButtonTextColor,
     analyticsEnabled: settings.analyticsEnabled,
+    pricingEngine: settings.pricingEngine,
+    themeAdapter: settings.themeAdapter,
+    allOrNothingAddToCart: settings.allOrNothingAddToCart,
+    checkoutValidationEnabled: settings.checkoutValidationEnabled,
+    orphanedAddOnMessage: settings.orphanedAddOnMessage,
+    addOnLimitMessage: settings.addOnLimitMessage,
+    requiredAddOnMessage: settings.requiredAddOnMessage,
   });
 
   const isSubmitting = fetcher.state === "submitting";
@@ -459,6 +519,8 @@ export default function Settings() {
       {
         ...form,
         analyticsEnabled: String(form.analyticsEnabled),
+        allOrNothingAddToCart: String(form.allOrNothingAddToCart),
+        checkoutValidationEnabled: String(form.checkoutValidationEnabled),
       },
       { method: "POST" }
     );
@@ -497,6 +559,8 @@ export default function Settings() {
           >
             <option value="LIST">List</option>
             <option value="GRID">Grid</option>
+            <option value="CAROUSEL">Carousel</option>
+            <option value="FREQUENTLY_BOUGHT_TOGETHER">Frequently bought together</option>
           </s-select>
 
           <s-select
@@ -544,6 +608,81 @@ export default function Settings() {
         </s-stack>
       </s-section>
 
+      <s-section heading="Pricing engine">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="How add-on prices are applied"
+            value={form.pricingEngine}
+            onChange={(e: Event) => handleChange("pricingEngine", (e.target as HTMLSelectElement).value)}
+          >
+            <option value="DISCOUNT_FUNCTION">Automatic discount (add-on discounts shown at checkout)</option>
+            <option value="CART_TRANSFORM">Cart transform (add-on line prices changed directly)</option>
+          </s-select>
+          <s-text color="subdued">
+            Cart transform pricing requires a Shopify Plus plan and does not compete with other automatic discounts. Both engines use the same bundle settings; complete-the-bundle and shipping discounts always apply as discounts.
+          </s-text>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Theme integration">
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="How the widget adds bundles to the cart"
+            value={form.themeAdapter}
+            onChange={(e: Event) => handleChange("themeAdapter", (e.target as HTMLSelectElement).value)}
+          >
+            <option value="AUTO">Detect automatically</option>
+            <option value="DAWN">Dawn-based theme (product form and cart drawer)</option>
+            <option value="SECTION_RENDERING">Cart drawer refreshed with the Section Rendering API</option>
+            <option value="FALLBACK">Generic (intercept every add to cart request)</option>
+          </s-select>
+          <s-text color="subdued">
+            The widget uses the theme&apos;s own add to cart and cart drawer refresh when it recognizes the theme. Choose Generic if bundles are added twice or the cart drawer doesn&apos;t update.
+          </s-text>
+          <s-checkbox
+            checked={form.allOrNothingAddToCart}
+            onChange={(e: Event) => handleChange("allOrNothingAddToCart", (e.target as HTMLInputElement).checked)}
+          >
+            Only add bundles to the cart when every selected add-on can be added
+          </s-checkbox>
+          <s-text color="subdued">
+            The main product is added first, then the selected add-ons. By default, add-ons that are sold out or can&apos;t be added are left out and the customer is told which ones. With this option, the whole bundle is removed from the cart instead.
+          </s-text>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Checkout validation">
+        <s-stack direction="block" gap="base">
+          <s-checkbox
+            checked={form.checkoutValidationEnabled}
+            onChange={(e: Event) => handleChange("checkoutValidationEnabled", (e.target as HTMLInputElement).checked)}
+          >
+            Block checkout for add-ons that break bundle rules
+          </s-checkbox>
+          <s-text color="subdued">
+            Customers cannot check out with an add-on whose main product was removed from the cart, with more of an add-on than its maximum quantity, or without the required add-ons of a bundle.
+          </s-text>
+          <s-text-field
+            label="Add-on without its main product"
+            value={form.orphanedAddOnMessage}
+            onInput={(e: Event) => handleChange("orphanedAddOnMessage", (e.target as HTMLInputElement).value)}
+            details="Use {addon} for the add-on name"
+          />
+          <s-text-field
+            label="Add-on over its maximum quantity"
+            value={form.addOnLimitMessage}
+            onInput={(e: Event) => handleChange("addOnLimitMessage", (e.target as HTMLInputElement).value)}
+            details="Use {addon} for the add-on name and {max} for the maximum quantity"
+          />
+          <s-text-field
+            label="Required add-on missing"
+            value={form.requiredAddOnMessage}
+            onInput={(e: Event) => handleChange("requiredAddOnMessage", (e.target as HTMLInputElement).value)}
+            details="Use {addon} for the add-on name"
+          />
+        </s-stack>
+      </s-section>
+
       <s-section heading="Analytics">
         <s-checkbox
           checked={form.analyticsEnabled}
@@ -0,0 +1,40 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { fetchSyncedWidgetConfig } from "../services/metafield.sync";
+
+/**
+ * App proxy: resolved widget config for a product
+ * GET /apps/addon-bundle/config?product=<product ID or GID>
+ *
+ * Returns the config the metafield sync wrote for the product (or the shop's
+ * ALL_PRODUCTS config), for storefronts that can't read the metafields
+ * (headless storefronts, themes without the app block)
+ */
+
+// Configs change when a merchant saves a bundle, so a short shared cache is enough
+const CACHE_HEADERS = {
+  "Cache-Control": "public, max-age=60, stale-while-revalidate=300",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  // Throws a 400 response when the proxy signature is invalid
+  const { session, admin } = await authenticate.public.appProxy(request);
+
+  if (!session || !admin) {
+    return Response.json({ error: "App is not installed" }, { status: 404 });
+  }
+
+  const product = new URL(request.url).searchParams.get("product")?.trim();
+  if (!product || !/^(gid:\/\/shopify\/Product\/)?\d+$/.test(product)) {
+    return Response.json({ error: "Missing or invalid product parameter" }, { status: 400 });
+  }
+  const productId = product.startsWith("gid://") ? product : `gid://shopify/Product/${product}`;
+
+  try {
+    const config = await fetchSyncedWidgetConfig(admin, productId);
+    return Response.json({ config }, { headers: CACHE_HEADERS });
+  } catch (error) {
+    console.error("[Config Proxy] Error fetching widget config:", error);
+    return Response.json({ error: "Failed to load the widget config" }, { status: 502 });
+  }
+};
@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { deleteResourceFingerprint } from "../models/resourceFingerprint.server";
+import { syncBundlesForResources, syncInBackground } from "../services/bundle.sync";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, admin, topic, shop } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  if (admin) {
+    const collectionId = `gid://shopify/Collection/${(payload as { id: number }).id}`;
+    await deleteResourceFingerprint(shop, collectionId);
+    syncInBackground("Webhook", () => syncBundlesForResources(admin, shop, [collectionId]));
+  }
+
+  return new Response();
+};
@@ -0,0 +1,47 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { updateTargetedItemCache, updateProductGroupItemCache } from "../models/targeting.server";
+import { getBundleIdsForResources } from "../models/bundle.server";
+import { buildResourceFingerprint, updateResourceFingerprint } from "../models/resourceFingerprint.server";
+import { syncBundlesForResources, syncInBackground } from "../services/bundle.sync";
+import { fetchCollectionProductIds } from "../services/metafield.sync";
+
+interface CollectionUpdatePayload {
+  admin_graphql_api_id: string;
+  title: string;
+  image?: { src: string } | null;
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, admin, topic, shop } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const collection = payload as CollectionUpdatePayload;
+  const collectionId = collection.admin_graphql_api_id;
+  const imageUrl = collection.image?.src ?? null;
+
+  // Refresh cached collection data shown in the admin
+  await updateTargetedItemCache(collectionId, { title: collection.title, imageUrl });
+  await updateProductGroupItemCache(collectionId, { title: collection.title, imageUrl });
+
+  // Bundles only use the collection's products, so re-sync when they changed
+  if (admin) {
+    syncInBackground("Webhook", async () => {
+      if ((await getBundleIdsForResources(shop, [collectionId])).length === 0) {
+        return;
+      }
+
+      const productIds = await fetchCollectionProductIds(admin, collectionId);
+      const fingerprint = buildResourceFingerprint([...productIds].sort());
+      if (!(await updateResourceFingerprint(shop, collectionId, fingerprint))) {
+        console.log("[Webhook] No widget changes for", collectionId);
+        return;
+      }
+
+      await syncBundlesForResources(admin, shop, [collectionId]);
+    });
+  }
+
+  return new Response();
+};
@@ -0,0 +1,19 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { deleteResourceFingerprint } from "../models/resourceFingerprint.server";
+import { syncBundlesForResources, syncInBackground } from "../services/bundle.sync";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, admin, topic, shop } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // Re-sync so the deleted product drops out of widget configs
+  if (admin) {
+    const productId = `gid://shopify/Product/${(payload as { id: number }).id}`;
+    await deleteResourceFingerprint(shop, productId);
+    syncInBackground("Webhook", () => syncBundlesForResources(admin, shop, [productId]));
+  }
+
+  return new Response();
+};
@@ -0,0 +1,88 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { updateAddOnSetProductCache, updateVariantCache } from "../models/addOnSet.server";
+import { updateTargetedItemCache, updateProductGroupItemCache } from "../models/targeting.server";
+import { getBundleIdsForResources } from "../models/bundle.server";
+import { buildResourceFingerprint, updateResourceFingerprint } from "../models/resourceFingerprint.server";
+import { syncBundlesForResources, syncInBackground } from "../services/bundle.sync";
+import { fetchProductCollectionIds } from "../services/metafield.sync";
+
+interface ProductUpdatePayload {
+  admin_graphql_api_id: string;
+  title: string;
+  handle?: string;
+  status?: string;
+  image?: { src: string } | null;
+  images?: Array<{ src: string }>;
+  variants?: Array<{
+    admin_graphql_api_id: string;
+    title: string;
+    sku: string | null;
+    price: string;
+  }>;
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { payload, admin, topic, shop } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const product = payload as ProductUpdatePayload;
+  const productId = product.admin_graphql_api_id;
+  const imageUrl = product.image?.src ?? product.images?.[0]?.src ?? null;
+
+  // Refresh cached product data shown in the admin
+  await updateAddOnSetProductCache(productId, {
+    productTitle: product.title,
+    productImageUrl: imageUrl,
+  });
+  await updateTargetedItemCache(productId, { title: product.title, imageUrl });
+  await updateProductGroupItemCache(productId, { title: product.title, imageUrl });
+
+  for (const variant of product.variants ?? []) {
+    await updateVariantCache(variant.admin_graphql_api_id, {
+      variantTitle: variant.title,
+      variantSku: variant.sku ?? undefined,
+      variantPrice: parseFloat(variant.price),
+    });
+  }
+
+  // Status/handle changes affect what the storefront widget can show, and the
+  // product may have joined a collection that a bundle targets (products that no
+  // bundle uses yet are picked up by the collections/update webhook)
+  if (admin) {
+    syncInBackground("Webhook", async () => {
+      if ((await getBundleIdsForResources(shop, [productId])).length === 0) {
+        return;
+      }
+
+      let collectionIds: string[];
+      try {
+        collectionIds = await fetchProductCollectionIds(admin, productId);
+      } catch (error) {
+        // Without the collections the fingerprint would be wrong, so only sync the product
+        console.error("[Webhook] Error fetching product collections:", error);
+        await syncBundlesForResources(admin, shop, [productId]);
+        return;
+      }
+
+      // Other updates (inventory, tags, our own metafield writes...) don't change the widget
+      const fingerprint = buildResourceFingerprint({
+        title: product.title,
+        handle: product.handle,
+        status: product.status,
+        imageUrl,
+        variants: (product.variants ?? []).map((variant) => [variant.admin_graphql_api_id, variant.title, variant.price]),
+        collectionIds: [...collectionIds].sort(),
+      });
+      if (!(await updateResourceFingerprint(shop, productId, fingerprint))) {
+        console.log("[Webhook] No widget changes for", productId);
+        return;
+      }
+
+      await syncBundlesForResources(admin, shop, [productId, ...collectionIds]);
+    });
+  }
+
+  return new Response();
+};
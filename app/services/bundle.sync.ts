@@ -0,0 +1,382 @@
+/**
+ * Bundle Sync Service
+ * Pushes a bundle's current state to Shopify (widget metafields + discount config)
+ */
+
+import { getBundle, getBundles, getBundleIdsForResources } from "../models/bundle.server";
+import type { BundleWithRelations } from "../models/bundle.server";
+import { getAddOnSets } from "../models/addOnSet.server";
+import { getWidgetStyle } from "../models/widgetStyle.server";
+import { getOtherSyncingBundles, getSyncedProductIds, setSyncedProductIds } from "../models/targeting.server";
+import {
+  buildWidgetConfig,
+  syncShopMetafields,
+  syncProductMetafields,
+  clearShopMetafield,
+  clearProductMetafields,
+  fetchProductInfo,
+  fetchCollectionProductIds,
+  buildProductGroupWidgetConfig,
+} from "./metafield.sync";
+import { updateBundleDiscount } from "./discount.sync";
+import { syncCartTransform } from "./cartTransform.sync";
+import { syncCartValidation } from "./cartValidation.sync";
+
+// Admin API client type
+interface AdminGraphQLClient {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<{
+    json: () => Promise<{ data?: Record<string, unknown>; errors?: Array<{ message: string }> }>;
+  }>;
+}
+
+/**
+ * Sync metafields after bundle changes
+ */
+export async function syncBundleMetafields(
+  admin: AdminGraphQLClient,
+  bundleId: string,
+  shop: string
+) {
+  console.log("[syncBundleMetafields] Starting sync for bundle:", bundleId);
+
+  try {
+    const bundle = await getBundle(bundleId, shop);
+    if (!bundle) {
+      console.log("[syncBundleMetafields] Bundle not found");
+      return;
+    }
+
+    console.log("[syncBundleMetafields] Bundle status:", bundle.status, "targeting:", bundle.targetingType);
+
+    // Get shop GID first
+    const shopResponse = await admin.graphql(`query { shop { id } }`);
+    const shopResult = await shopResponse.json();
+    const shopGid = (shopResult.data?.shop as { id?: string })?.id;
+    console.log("[syncBundleMetafields] Shop GID:", shopGid);
+
+    // Only sync if bundle is ACTIVE
+    if (bundle.status !== "ACTIVE") {
+      console.log("[syncBundleMetafields] Bundle not active (status:", bundle.status, "), clearing metafields");
+
+      // Clear shop metafields for ALL_PRODUCTS targeting
+      if (shopGid && bundle.targetingType === "ALL_PRODUCTS") {
+        console.log("[syncBundleMetafields] Clearing shop metafield for ALL_PRODUCTS bundle");
+        const clearResult = await clearShopMetafield(admin, shopGid);
+        if (!clearResult.success) {
+          console.error("[syncBundleMetafields] Failed to clear shop metafield:", clearResult.error);
+        }
+      }
+
+      // Clear product metafields for SPECIFIC_PRODUCTS / PRODUCT_GROUPS targeting
+      await clearBundleProductMetafields(admin, bundle);
+
+      // Stop merging, pricing and validating the bundle's cart lines
+      await syncShopFunctions(admin, shop);
+
+      return;
+    }
+
+    const widgetConfig = await buildBundleWidgetConfig(admin, bundle);
+    if (!widgetConfig) {
+      console.log("[syncBundleMetafields] No widget style found");
+      return;
+    }
+
+    // Sync WIDGET config to shop/product metafields (for theme display)
+    if (bundle.targetingType === "ALL_PRODUCTS") {
+      // Sync to shop-level metafield for global bundles
+      console.log("[syncBundleMetafields] Syncing to shop metafield (ALL_PRODUCTS)");
+      if (shopGid) {
+        await syncShopMetafields(admin, shopGid, widgetConfig);
+      }
+
+      // Clear product metafields left over from SPECIFIC_PRODUCTS / PRODUCT_GROUPS targeting
+      await updateSyncedProducts(admin, shop, bundleId, []);
+    } else if (bundle.targetingType === "SPECIFIC_PRODUCTS") {
+      // IMPORTANT: Clear shop metafield when switching to SPECIFIC targeting
+      // Otherwise the Liquid template falls back to shop metafield and shows widget everywhere
+      if (shopGid) {
+        console.log("[syncBundleMetafields] Clearing shop metafield (switching to SPECIFIC_PRODUCTS)");
+        await clearShopMetafield(admin, shopGid);
+      }
+
+      // Sync to specific product metafields (collections expanded into their products)
+      const productIds = Array.from((await resolveTargetedProducts(admin, bundle)).keys());
+      console.log("[syncBundleMetafields] Syncing to", productIds.length, "product metafields");
+      if (productIds.length > 0) {
+        await syncProductMetafields(admin, productIds, widgetConfig);
+      }
+      await updateSyncedProducts(admin, shop, bundleId, productIds);
+    } else if (bundle.targetingType === "PRODUCT_GROUPS") {
+      // Same as SPECIFIC_PRODUCTS: the shop metafield would show the widget everywhere
+      if (shopGid) {
+        console.log("[syncBundleMetafields] Clearing shop metafield (switching to PRODUCT_GROUPS)");
+        await clearShopMetafield(admin, shopGid);
+      }
+
+      // Products in the same set of groups share a config, so sync them together
+      const memberships = await resolveTargetedProducts(admin, bundle);
+      const productsByGroupSet = new Map<string, { groupIds: Set<string>; productIds: string[] }>();
+      for (const [productId, groupIds] of memberships) {
+        const key = Array.from(groupIds).sort().join(",");
+        const entry = productsByGroupSet.get(key) ?? { groupIds, productIds: [] };
+        entry.productIds.push(productId);
+        productsByGroupSet.set(key, entry);
+      }
+
+      console.log("[syncBundleMetafields] Syncing product groups to", productsByGroupSet.size, "distinct configs");
+      for (const { groupIds, productIds } of productsByGroupSet.values()) {
+        const groupConfig = buildProductGroupWidgetConfig(widgetConfig, groupIds);
+        await syncProductMetafields(admin, productIds, groupConfig);
+      }
+      await updateSyncedProducts(admin, shop, bundleId, Array.from(memberships.keys()));
+    }
+
+    // Sync DISCOUNT config to the Shopify discount metafield (for discount function)
+    if (bundle.shopifyDiscountId) {
+      console.log("[syncBundleMetafields] Syncing discount metafield for discount:", bundle.shopifyDiscountId);
+      try {
+        const discountResult = await updateBundleDiscount(admin, bundle);
+        if (discountResult.errors.length > 0) {
+          console.error("[syncBundleMetafields] Discount sync errors:", discountResult.errors);
+        } else {
+          console.log("[syncBundleMetafields] Discount metafield synced successfully");
+        }
+      } catch (error) {
+        console.error("[syncBundleMetafields] Error syncing discount metafield:", error);
+      }
+    } else {
+      console.log("[syncBundleMetafields] No shopifyDiscountId, skipping discount sync");
+    }
+
+    // Sync the cart transform and cart validation configs (shared by all bundles in the shop)
+    await syncShopFunctions(admin, shop);
+
+    console.log("[syncBundleMetafields] Sync completed for bundle:", bundleId);
+  } catch (error) {
+    console.error("[syncBundleMetafields] Error syncing metafields:", error);
+  }
+}
+
+/**
+ * Build a bundle's storefront widget config
+ * Returns null when the bundle has no widget style
+ */
+export async function buildBundleWidgetConfig(
+  admin: AdminGraphQLClient,
+  bundle: BundleWithRelations
+) {
+  const [addOnSets, widgetStyle] = await Promise.all([
+    getAddOnSets(bundle.id),
+    getWidgetStyle(bundle.id),
+  ]);
+
+  console.log("[buildBundleWidgetConfig] AddOnSets:", addOnSets.length, "WidgetStyle:", !!widgetStyle);
+
+  if (!widgetStyle) {
+    return null;
+  }
+
+  // Fetch product info (handles and status) for market-specific pricing and filtering
+  const productIds = addOnSets.map((addOn) => addOn.shopifyProductId);
+  const productInfo = await fetchProductInfo(admin, productIds);
+  console.log("[buildBundleWidgetConfig] Fetched info for", productInfo.size, "products");
+
+  // Build widget config - this will filter out Draft/Unlisted products for the storefront
+  // Create handles map for backwards compatibility
+  const productHandles = new Map<string, string>();
+  for (const [id, info] of productInfo) {
+    productHandles.set(id, info.handle);
+  }
+
+  const widgetConfig = buildWidgetConfig(bundle, addOnSets, widgetStyle, productHandles, productInfo);
+  console.log("[buildBundleWidgetConfig] Built widget config with", widgetConfig.addOns.length, "add-ons (filtered for Active products)");
+
+  return widgetConfig;
+}
+
+/**
+ * Clear the product metafields a bundle has written (e.g. when it is deactivated or deleted)
+ */
+export async function clearBundleProductMetafields(
+  admin: AdminGraphQLClient,
+  bundle: BundleWithRelations
+) {
+  // Include directly targeted products in case they were synced before tracking existed
+  const productIds = new Set(await getSyncedProductIds(bundle.id));
+  for (const item of bundle.targetedItems ?? []) {
+    if (item.shopifyResourceType === "Product") productIds.add(item.shopifyResourceId);
+  }
+  for (const group of bundle.productGroups ?? []) {
+    for (const item of group.items) {
+      if (item.shopifyResourceType === "Product") productIds.add(item.shopifyResourceId);
+    }
+  }
+
+  await setSyncedProductIds(bundle.id, []);
+  if (productIds.size > 0) {
+    console.log("[syncBundleMetafields] Clearing metafields for", productIds.size, "targeted products");
+    await releaseProducts(admin, bundle.shop, bundle.id, Array.from(productIds));
+  }
+}
+
+/**
+ * Clear the config metafield of products a bundle no longer targets.
+ * Products another bundle also syncs to keep a config: that bundle is re-synced
+ * so its config replaces the one being removed.
+ */
+async function releaseProducts(
+  admin: AdminGraphQLClient,
+  shop: string,
+  bundleId: string,
+  productIds: string[]
+) {
+  const otherBundles = await getOtherSyncingBundles(shop, bundleId, productIds);
+  const claimed = new Set(Array.from(otherBundles.values()).flat());
+  const unclaimed = productIds.filter((id) => !claimed.has(id));
+
+  if (unclaimed.length > 0) {
+    await clearProductMetafields(admin, unclaimed);
+  }
+
+  // Sequential to stay within Admin API rate limits
+  for (const [otherBundleId, otherProductIds] of otherBundles) {
+    console.log("[syncBundleMetafields] Re-syncing bundle", otherBundleId, "for", otherProductIds.length, "shared products");
+    await syncBundleMetafields(admin, otherBundleId, shop);
+  }
+}
+
+/**
+ * Record the products now holding a bundle's config and clear the ones that no longer do
+ * (products removed from the bundle or from a targeted collection)
+ */
+async function updateSyncedProducts(
+  admin: AdminGraphQLClient,
+  shop: string,
+  bundleId: string,
+  productIds: string[]
+) {
+  const current = new Set(productIds);
+  const previous = await getSyncedProductIds(bundleId);
+  const removed = previous.filter((id) => !current.has(id));
+
+  await setSyncedProductIds(bundleId, productIds);
+  if (removed.length > 0) {
+    console.log("[syncBundleMetafields] Clearing metafields for", removed.length, "products no longer targeted");
+    await releaseProducts(admin, shop, bundleId, removed);
+  }
+}
+
+/**
+ * Resolve the products a bundle targets, expanding collections into their products
+ * Returns a map of product ID -> IDs of the product groups containing it
+ * (always empty for SPECIFIC_PRODUCTS targeting)
+ */
+async function resolveTargetedProducts(
+  admin: AdminGraphQLClient,
+  bundle: BundleWithRelations
+): Promise<Map<string, Set<string>>> {
+  const targets = new Map<string, Set<string>>();
+  const collectionProducts = new Map<string, string[]>();
+
+  const addResource = async (
+    resource: { shopifyResourceId: string; shopifyResourceType: string },
+    groupId?: string
+  ) => {
+    let productIds = [resource.shopifyResourceId];
+    if (resource.shopifyResourceType === "Collection") {
+      if (!collectionProducts.has(resource.shopifyResourceId)) {
+        collectionProducts.set(
+          resource.shopifyResourceId,
+          await fetchCollectionProductIds(admin, resource.shopifyResourceId)
+        );
+      }
+      productIds = collectionProducts.get(resource.shopifyResourceId) ?? [];
+    }
+
+    for (const productId of productIds) {
+      const groupIds = targets.get(productId) ?? new Set<string>();
+      if (groupId) groupIds.add(groupId);
+      targets.set(productId, groupIds);
+    }
+  };
+
+  if (bundle.targetingType === "SPECIFIC_PRODUCTS") {
+    for (const item of bundle.targetedItems ?? []) {
+      await addResource(item);
+    }
+  } else if (bundle.targetingType === "PRODUCT_GROUPS") {
+    for (const group of bundle.productGroups ?? []) {
+      for (const item of group.items) {
+        await addResource(item, group.id);
+      }
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Re-sync every bundle in the shop that references any of the given products or collections
+ * (called from webhooks when the resources change in Shopify)
+ */
+export async function syncBundlesForResources(
+  admin: AdminGraphQLClient,
+  shop: string,
+  shopifyResourceIds: string[]
+) {
+  const bundleIds = await getBundleIdsForResources(shop, shopifyResourceIds);
+  console.log("[syncBundlesForResources]", bundleIds.length, "bundles reference", shopifyResourceIds.join(", "));
+
+  // Sequential to stay within Admin API rate limits
+  for (const bundleId of bundleIds) {
+    await syncBundleMetafields(admin, bundleId, shop);
+  }
+
+  return bundleIds;
+}
+
+/**
+ * Run a webhook's bundle re-sync after the webhook has been answered: Shopify expects
+ * a response within 5 seconds, retries late ones and eventually drops the subscription
+ */
+export function syncInBackground(label: string, task: () => Promise<unknown>) {
+  task().catch((error) => {
+    console.error(`[${label}] Background sync failed:`, error);
+  });
+}
+
+/**
+ * Sync the shop-wide function configs built from all active bundles
+ * (cart transform and cart validation)
+ */
+export async function syncShopFunctions(
+  admin: AdminGraphQLClient,
+  shop: string
+) {
+  const cartTransformResult = await syncCartTransform(admin, shop);
+  if (!cartTransformResult.success) {
+    console.error("[syncShopFunctions] Cart transform sync failed:", cartTransformResult.error);
+  }
+
+  const cartValidationResult = await syncCartValidation(admin, shop);
+  if (!cartValidationResult.success) {
+    console.error("[syncShopFunctions] Cart validation sync failed:", cartValidationResult.error);
+  }
+}
+
+/**
+ * Re-sync every bundle in the shop (e.g. after the pricing engine setting changes)
+ */
+export async function syncAllBundles(
+  admin: AdminGraphQLClient,
+  shop: string
+) {
+  const bundles = await getBundles(shop);
+  console.log("[syncAllBundles] Syncing", bundles.length, "bundles");
+
+  // Sequential to stay within Admin API rate limits
+  for (const bundle of bundles) {
+    await syncBundleMetafields(admin, bundle.id, shop);
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Cart Transform Sync Service
+ * Registers the add-on bundle cart transform and keeps its config up to date:
+ * "present as bundle" lines and, with the cart transform pricing engine, add-on pricing
+ */
+
+import type { PricingEngine } from "@prisma/client";
+import { getActiveUnexpiredBundles } from "../models/bundle.server";
+import { getAddOnSets } from "../models/addOnSet.server";
+import { getShopSettings } from "../models/shopSettings.server";
+import { buildDiscountConfig, buildDiscountInputVariables } from "./metafield.sync";
+import type { DiscountFunctionConfig } from "./metafield.sync";
+
+// Admin API client type
+interface AdminGraphQLClient {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<{
+    json: () => Promise<{ data?: Record<string, unknown>; errors?: Array<{ message: string }> }>;
+  }>;
+}
+
+// Extension handle from extensions/addon-bundle-cart-transform/shopify.extension.toml
+const CART_TRANSFORM_HANDLE = "addon-bundle-cart-transform";
+
+/**
+ * Cart transform function config (read by the function from the cart transform metafield)
+ * Keyed by bundle ID, matching the `_bundle_id` line property set by the widget
+ */
+export interface CartTransformConfig {
+  bundles: Record<string, {
+    title: string | null;
+    imageUrl: string | null;
+  }>;
+  pricingEngine: PricingEngine;
+  // Add-on pricing per bundle, from the same config as the discount function (CART_TRANSFORM only)
+  pricing: Record<string, Pick<DiscountFunctionConfig, "addOns" | "tiers" | "customerEligibility"> & {
+    customerTags: string[];
+  }>;
+  // Schedule of the scheduled bundles, as dates in the shop's timezone (both days included);
+  // the function compares them with the shop's local date, so bundles start and end without a re-sync
+  schedules: Record<string, {
+    startDate: string | null;
+    endDate: string | null;
+  }>;
+}
+
+// Cart transform input query variables (read from the function-input metafield)
+interface CartTransformInputVariables {
+  customerTags: string[]; // Tags of every priced bundle, passed to buyerIdentity.customer.hasTags
+}
+
+interface SyncCartTransformResult {
+  success: boolean;
+  error?: string;
+}
+
+// GraphQL response types
+interface UserError {
+  field: string;
+  message: string;
+}
+
+interface ShopTimezoneResponse {
+  shop?: {
+    ianaTimezone: string;
+  };
+}
+
+interface CartTransformsResponse {
+  cartTransforms?: {
+    nodes?: Array<{
+      id: string;
+      functionId: string;
+    }>;
+  };
+}
+
+interface CartTransformCreateResponse {
+  cartTransformCreate?: {
+    cartTransform?: {
+      id: string;
+    };
+    userErrors?: UserError[];
+  };
+}
+
+interface MetafieldsSetResponse {
+  metafieldsSet?: {
+    userErrors?: UserError[];
+  };
+}
+
+/**
+ * Date of an instant in the given timezone (YYYY-MM-DD, like the function's shop.localTime.date)
+ */
+function toShopDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Build the cart transform config from the shop's active bundles that haven't ended
+ * @param timezone - The shop's IANA timezone, for the schedule dates
+ */
+export async function buildCartTransformConfig(shop: string, timezone: string): Promise<CartTransformConfig> {
+  const [bundles, settings] = await Promise.all([
+    getActiveUnexpiredBundles(shop),
+    getShopSettings(shop),
+  ]);
+  const config: CartTransformConfig = {
+    bundles: {},
+    pricingEngine: settings.pricingEngine,
+    pricing: {},
+    schedules: {},
+  };
+
+  for (const bundle of bundles) {
+    if (bundle.startDate || bundle.endDate) {
+      config.schedules[bundle.id] = {
+        startDate: bundle.startDate ? toShopDate(bundle.startDate, timezone) : null,
+        endDate: bundle.endDate ? toShopDate(bundle.endDate, timezone) : null,
+      };
+    }
+
+    if (bundle.presentAsBundle) {
+      config.bundles[bundle.id] = {
+        title: bundle.bundleLineTitle?.trim() || null,
+        imageUrl: bundle.bundleLineImage?.trim() || null,
+      };
+    }
+
+    if (settings.pricingEngine === "CART_TRANSFORM") {
+      const { addOns, tiers, customerEligibility } = buildDiscountConfig(
+        bundle,
+        await getAddOnSets(bundle.id),
+        settings.pricingEngine
+      );
+      config.pricing[bundle.id] = {
+        addOns,
+        tiers,
+        customerEligibility,
+        customerTags: buildDiscountInputVariables(bundle).customerTags,
+      };
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Push the shop's present-as-bundle and add-on pricing config to the cart transform
+ * Creates the cart transform on first use; Shopify allows one per function per shop
+ */
+export async function syncCartTransform(
+  admin: AdminGraphQLClient,
+  shop: string
+): Promise<SyncCartTransformResult> {
+  try {
+    const config = await buildCartTransformConfig(shop, await getShopTimezone(admin));
+    const bundleCount = Object.keys(config.bundles).length;
+    const pricedCount = Object.keys(config.pricing).length;
+    console.log("[syncCartTransform] Presented bundles:", bundleCount, "priced bundles:", pricedCount);
+
+    const inputVariables: CartTransformInputVariables = {
+      customerTags: Array.from(new Set(Object.values(config.pricing).flatMap((pricing) => pricing.customerTags))),
+    };
+    const metafields = [
+      {
+        namespace: "$app:addon-bundle",
+        key: "config",
+        type: "json",
+        value: JSON.stringify(config),
+      },
+      {
+        namespace: "$app:addon-bundle",
+        key: "function-input",
+        type: "json",
+        value: JSON.stringify(inputVariables),
+      },
+    ];
+
+    const cartTransformId = await getCartTransformId(admin);
+
+    if (!cartTransformId) {
+      // Nothing to merge or price yet, so don't register the cart transform
+      if (bundleCount === 0 && pricedCount === 0) {
+        return { success: true };
+      }
+
+      console.log("[syncCartTransform] Creating cart transform");
+      const response = await admin.graphql(
+        `#graphql
+        mutation CreateCartTransform($functionHandle: String!, $metafields: [MetafieldInput!]) {
+          cartTransformCreate(functionHandle: $functionHandle, blockOnFailure: false, metafields: $metafields) {
+            cartTransform {
+              id
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }`,
+        {
+          variables: {
+            functionHandle: CART_TRANSFORM_HANDLE,
+            metafields,
+          },
+        }
+      );
+
+      const result = await response.json();
+      const data = result.data as CartTransformCreateResponse;
+      const userErrors = data?.cartTransformCreate?.userErrors ?? [];
+      if (result.errors?.length || userErrors.length > 0) {
+        const error = [...(result.errors ?? []), ...userErrors].map((e) => e.message).join(", ");
+        console.error("[syncCartTransform] Failed to create cart transform:", error);
+        return { success: false, error };
+      }
+
+      console.log("[syncCartTransform] Created cart transform:", data?.cartTransformCreate?.cartTransform?.id);
+      return { success: true };
+    }
+
+    const response = await admin.graphql(
+      `#graphql
+      mutation SetCartTransformConfig($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: {
+          metafields: metafields.map((metafield) => ({ ...metafield, ownerId: cartTransformId })),
+        },
+      }
+    );
+
+    const result = await response.json();
+    const userErrors = (result.data as MetafieldsSetResponse)?.metafieldsSet?.userErrors ?? [];
+    if (result.errors?.length || userErrors.length > 0) {
+      const error = [...(result.errors ?? []), ...userErrors].map((e) => e.message).join(", ");
+      console.error("[syncCartTransform] Failed to update cart transform config:", error);
+      return { success: false, error };
+    }
+
+    console.log("[syncCartTransform] Cart transform config updated");
+    return { success: true };
+  } catch (error) {
+    console.error("[syncCartTransform] Error syncing cart transform:", error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * The shop's IANA timezone (UTC when it can't be read)
+ */
+async function getShopTimezone(admin: AdminGraphQLClient): Promise<string> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetShopTimezone {
+      shop {
+        ianaTimezone
+      }
+    }`
+  );
+
+  const result = await response.json();
+  return (result.data as ShopTimezoneResponse)?.shop?.ianaTimezone ?? "UTC";
+}
+
+/**
+ * Find the cart transform registered by this app, if any
+ * (the cartTransforms query only returns the calling app's cart transforms)
+ */
+async function getCartTransformId(admin: AdminGraphQLClient): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetCartTransforms {
+      cartTransforms(first: 1) {
+        nodes {
+          id
+          functionId
+        }
+      }
+    }`
+  );
+
+  const result = await response.json();
+  const cartTransforms = (result.data as CartTransformsResponse)?.cartTransforms?.nodes ?? [];
+  return cartTransforms[0]?.id ?? null;
+}
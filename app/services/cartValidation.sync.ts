@@ -0,0 +1,214 @@
+/**
+ * Cart Validation Sync Service
+ * Registers the add-on bundle cart and checkout validation and keeps its config
+ * (add-on limits, required add-ons and merchant error messages) up to date
+ */
+
+import { getActiveScheduledBundles } from "../models/bundle.server";
+import { getAddOnSets } from "../models/addOnSet.server";
+import { getShopSettings } from "../models/shopSettings.server";
+import { buildDiscountConfig } from "./metafield.sync";
+
+// Admin API client type
+interface AdminGraphQLClient {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<{
+    json: () => Promise<{ data?: Record<string, unknown>; errors?: Array<{ message: string }> }>;
+  }>;
+}
+
+// Extension handle from extensions/addon-bundle-cart-validation/shopify.extension.toml
+const CART_VALIDATION_HANDLE = "addon-bundle-cart-validation";
+
+/**
+ * Cart validation function config (read by the function from the validation metafield)
+ * Keyed by bundle ID, matching the `_addon_bundle_id` line property set by the widget
+ */
+export interface CartValidationConfig {
+  messages: {
+    orphanedAddOn: string;
+    addOnLimit: string;
+    requiredAddOn: string;
+  };
+  bundles: Record<string, {
+    addOns: Array<{
+      addOnId: string;
+      title: string;
+      targetVariantIds: string[];
+      maxQuantity: number;
+      isRequired: boolean; // Main lines added with the bundle need this add-on in their group
+      mainVariantIds: string[]; // Main product variants the add-on is offered with (empty = every variant)
+    }>;
+  }>;
+}
+
+interface SyncCartValidationResult {
+  success: boolean;
+  error?: string;
+}
+
+// GraphQL response types
+interface UserError {
+  field: string[] | null;
+  message: string;
+}
+
+interface ValidationsResponse {
+  validations?: {
+    nodes?: Array<{
+      id: string;
+      metafield: { id: string } | null;
+    }>;
+  };
+}
+
+interface ValidationMutationResponse {
+  validationCreate?: {
+    validation?: { id: string };
+    userErrors?: UserError[];
+  };
+  validationUpdate?: {
+    validation?: { id: string };
+    userErrors?: UserError[];
+  };
+}
+
+/**
+ * Build the cart validation config from the shop settings and active bundles
+ */
+export async function buildCartValidationConfig(shop: string): Promise<CartValidationConfig> {
+  const [bundles, settings] = await Promise.all([
+    getActiveScheduledBundles(shop),
+    getShopSettings(shop),
+  ]);
+  const config: CartValidationConfig = {
+    messages: {
+      orphanedAddOn: settings.orphanedAddOnMessage,
+      addOnLimit: settings.addOnLimitMessage,
+      requiredAddOn: settings.requiredAddOnMessage,
+    },
+    bundles: {},
+  };
+
+  for (const bundle of bundles) {
+    const { addOns } = buildDiscountConfig(bundle, await getAddOnSets(bundle.id));
+    config.bundles[bundle.id] = {
+      addOns: addOns.map((addOn) => ({
+        addOnId: addOn.addOnId,
+        title: addOn.title || addOn.productTitle,
+        targetVariantIds: addOn.targetVariantIds,
+        maxQuantity: addOn.maxQuantity,
+        isRequired: addOn.isRequired,
+        mainVariantIds: addOn.mainVariantIds,
+      })),
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Push the shop's validation config and enabled state to the cart validation
+ * Creates the validation the first time it is enabled
+ */
+export async function syncCartValidation(
+  admin: AdminGraphQLClient,
+  shop: string
+): Promise<SyncCartValidationResult> {
+  try {
+    const settings = await getShopSettings(shop);
+    const validationId = await getCartValidationId(admin);
+
+    // Never enabled, so nothing to register
+    if (!validationId && !settings.checkoutValidationEnabled) {
+      return { success: true };
+    }
+
+    const config = await buildCartValidationConfig(shop);
+    console.log("[syncCartValidation] Enabled:", settings.checkoutValidationEnabled, "bundles:", Object.keys(config.bundles).length);
+
+    const validation = {
+      title: "Add-on bundle rules",
+      enable: settings.checkoutValidationEnabled,
+      blockOnFailure: false,
+      metafields: [
+        {
+          namespace: "$app:addon-bundle",
+          key: "config",
+          type: "json",
+          value: JSON.stringify(config),
+        },
+      ],
+    };
+
+    const response = validationId
+      ? await admin.graphql(
+          `#graphql
+          mutation UpdateCartValidation($id: ID!, $validation: ValidationUpdateInput!) {
+            validationUpdate(id: $id, validation: $validation) {
+              validation {
+                id
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }`,
+          { variables: { id: validationId, validation } }
+        )
+      : await admin.graphql(
+          `#graphql
+          mutation CreateCartValidation($validation: ValidationCreateInput!) {
+            validationCreate(validation: $validation) {
+              validation {
+                id
+              }
+              userErrors {
+                field
+                message
+              }
+            }
+          }`,
+          { variables: { validation: { ...validation, functionHandle: CART_VALIDATION_HANDLE } } }
+        );
+
+    const result = await response.json();
+    const data = result.data as ValidationMutationResponse;
+    const userErrors = (validationId ? data?.validationUpdate : data?.validationCreate)?.userErrors ?? [];
+    if (result.errors?.length || userErrors.length > 0) {
+      const error = [...(result.errors ?? []), ...userErrors].map((e) => e.message).join(", ");
+      console.error("[syncCartValidation] Failed to sync cart validation:", error);
+      return { success: false, error };
+    }
+
+    console.log("[syncCartValidation] Cart validation", validationId ? "updated" : "created");
+    return { success: true };
+  } catch (error) {
+    console.error("[syncCartValidation] Error syncing cart validation:", error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Find the validation registered by this app, if any
+ * (only our validation has a config metafield in the app's reserved namespace)
+ */
+async function getCartValidationId(admin: AdminGraphQLClient): Promise<string | null> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetCartValidations {
+      validations(first: 25) {
+        nodes {
+          id
+          metafield(namespace: "$app:addon-bundle", key: "config") {
+            id
+          }
+        }
+      }
+    }`
+  );
+
+  const result = await response.json();
+  const validations = (result.data as ValidationsResponse)?.validations?.nodes ?? [];
+  return validations.find((validation) => validation.metafield)?.id ?? null;
+}
@@ -13,7 +13,8 @@ interface AdminGraphQLClient {
 }
 import { updateBundle } from "../models/bundle.server";
 import { getAddOnSets } from "../models/addOnSet.server";
-import { buildDiscountConfig } from "./metafield.sync";
+import { getShopSettings } from "../models/shopSettings.server";
+import { buildDiscountConfig, buildDiscountInputVariables } from "./metafield.sync";
 
 // The app name for matching (slugified version of app name from shopify.app.toml)
 const APP_NAME_PATTERNS = ["claude-addon-bundle-app", "addon-bundle"];
@@ -68,6 +69,17 @@ interface ShopifyFunctionsResponse {
   };
 }
 
+/**
+ * Discount classes the function generates for a bundle
+ * ORDER and SHIPPING are only requested when the bundle uses them
+ */
+function getDiscountClasses(bundle: BundleWithRelations): string[] {
+  const discountClasses = ["PRODUCT"];
+  if (bundle.completeBundleEnabled) discountClasses.push("ORDER");
+  if (bundle.shippingPerkEnabled) discountClasses.push("SHIPPING");
+  return discountClasses;
+}
+
 /**
  * Create an automatic discount for a bundle
  */
@@ -78,10 +90,13 @@ export async function createBundleDiscount(
 ): Promise<CreateDiscountResult> {
   console.log("[createBundleDiscount] Starting discount creation for bundle:", bundle.id, bundle.title);
 
-  const addOnSets = await getAddOnSets(bundle.id);
+  const [addOnSets, settings] = await Promise.all([
+    getAddOnSets(bundle.id),
+    getShopSettings(shop),
+  ]);
   console.log("[createBundleDiscount] Found", addOnSets.length, "add-on sets");
 
-  const discountConfig = buildDiscountConfig(bundle, addOnSets);
+  const discountConfig = buildDiscountConfig(bundle, addOnSets, settings.pricingEngine);
   console.log("[createBundleDiscount] Built discount config with", discountConfig.addOns.length, "add-ons");
 
   // Build combination settings
@@ -128,7 +143,7 @@ export async function createBundleDiscount(
             shippingDiscounts: combinesWithShippingDiscounts,
           },
           // Required for new unified Discount API - specifies what discount types this function generates
-          discountClasses: ["PRODUCT"],
+          discountClasses: getDiscountClasses(bundle),
           metafields: [
             {
               namespace: "$app:addon-bundle",
@@ -136,6 +151,12 @@ export async function createBundleDiscount(
               value: JSON.stringify(discountConfig),
               type: "json",
             },
+            {
+              namespace: "$app:addon-bundle",
+              key: "function-input",
+              value: JSON.stringify(buildDiscountInputVariables(bundle)),
+              type: "json",
+            },
           ],
         },
       },
@@ -189,8 +210,11 @@ export async function updateBundleDiscount(
     return { success: false, errors: [{ field: "discountId", message: "No discount ID found" }] };
   }
 
-  const addOnSets = await getAddOnSets(bundle.id);
-  const discountConfig = buildDiscountConfig(bundle, addOnSets);
+  const [addOnSets, settings] = await Promise.all([
+    getAddOnSets(bundle.id),
+    getShopSettings(bundle.shop),
+  ]);
+  const discountConfig = buildDiscountConfig(bundle, addOnSets, settings.pricingEngine);
 
   const combinesWithProductDiscounts = bundle.combineWithProductDiscounts === "COMBINE";
   const combinesWithOrderDiscounts = bundle.combineWithOrderDiscounts === "COMBINE";
@@ -220,7 +244,7 @@ export async function updateBundleDiscount(
             shippingDiscounts: combinesWithShippingDiscounts,
           },
           // Required for new unified Discount API
-          discountClasses: ["PRODUCT"],
+          discountClasses: getDiscountClasses(bundle),
         },
       },
     }
@@ -258,6 +282,13 @@ export async function updateBundleDiscount(
             value: JSON.stringify(discountConfig),
             type: "json",
           },
+          {
+            ownerId: bundle.shopifyDiscountId,
+            namespace: "$app:addon-bundle",
+            key: "function-input",
+            value: JSON.stringify(buildDiscountInputVariables(bundle)),
+            type: "json",
+          },
         ],
       },
     }
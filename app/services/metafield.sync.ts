@@ -11,6 +11,7 @@ interface AdminGraphQLClient {
     json: () => Promise<{ data?: unknown; errors?: Array<{ message: string }> }>;
   }>;
 }
+import type { PricingEngine } from "@prisma/client";
 import type { BundleWithRelations } from "../models/bundle.server";
 import { getAddOnSets } from "../models/addOnSet.server";
 import { getWidgetStyle } from "../models/widgetStyle.server";
@@ -26,57 +27,108 @@ interface AddOnConfig {
   imageUrl: string | null;
   title: string | null;
   targetVariantIds: string[];
+  mainVariantIds: string[]; // Main product variants the add-on is discounted with (empty = every variant)
+  requiresAddOnIds: string[]; // Only discounted when all of these add-ons are in the same bundle group
+  excludesAddOnIds: string[]; // Can't be selected with these add-ons (both directions)
   discountType: string;
   discountValue: number | null;
+  currencyValues: Record<string, number>; // FIXED_AMOUNT/FIXED_PRICE per presentment currency code
   discountLabel: string | null;
   isDefaultSelected: boolean;
+  isRequired: boolean; // Must be in the cart with the main product (cart validation)
   subscriptionOnly: boolean;
   showQuantitySelector: boolean;
   maxQuantity: number;
+  addOnsPerMainUnit: number | null; // Discounted add-ons per main product unit (null = no limit)
   message: string;
 }
 
-interface DiscountFunctionConfig {
+interface DiscountTierConfig {
+  minAddOns: number; // Distinct add-ons in the same bundle group needed to unlock the tier
+  discountType: string;
+  discountValue: number;
+  message: string;
+}
+
+interface ShippingPerkConfig {
+  minAddOns: number; // Distinct add-ons with the same main product needed to unlock the perk
+  percentage: number; // Percentage off shipping (100 = free)
+  message: string;
+}
+
+interface CompleteBundleConfig {
+  requiredAddOnIds: string[]; // Add-ons that must all be in the cart with the main product
+  discountType: string; // PERCENTAGE or FIXED_AMOUNT (per completed bundle)
+  discountValue: number;
+  message: string;
+}
+
+export interface DiscountFunctionConfig {
   bundleId: string;
   addOns: AddOnConfig[];
+  tiers: DiscountTierConfig[]; // Sorted by minAddOns ascending
+  shippingPerk: ShippingPerkConfig | null;
+  completeBundle: CompleteBundleConfig | null;
+  customerEligibility: string; // ALL_CUSTOMERS, TAGGED_CUSTOMERS or B2B_CUSTOMERS
+  pricingEngine: PricingEngine; // CART_TRANSFORM: add-on prices are set by the cart transform, not discounted
   selectionStrategy: "FIRST" | "ALL";
 }
 
+// Discount function input query variables (read from the function-input metafield)
+interface DiscountFunctionInputVariables {
+  customerTags: string[]; // Passed to buyerIdentity.customer.hasAnyTag
+}
+
+interface WidgetAddOnConfig {
+  addOnId: string;
+  shopifyProductId: string;
+  productHandle: string | null; // Product handle for fetching market-specific prices
+  productTitle: string | null;
+  imageUrl: string | null;
+  title: string | null;
+  discountType: string;
+  discountValue: number | null;
+  currencyValues: Record<string, number>; // FIXED_AMOUNT/FIXED_PRICE per presentment currency code
+  discountLabel: string | null;
+  isDefaultSelected: boolean;
+  isRequired: boolean; // Add to cart is blocked until the add-on is selected
+  subscriptionOnly: boolean;
+  showQuantitySelector: boolean;
+  maxQuantity: number;
+  productGroupId: string | null; // PRODUCT_GROUPS: null = offered with every group
+  mainVariantIds: string[]; // Main product variants the add-on is offered with (empty = every variant)
+  requiresAddOnIds: string[]; // Only shown once all of these add-ons are selected
+  excludesAddOnIds: string[]; // Deselected when one of these add-ons is selected (both directions)
+  selectedVariants: Array<{
+    shopifyVariantId: string;
+    variantTitle: string | null;
+    variantPrice: number | null;
+  }>;
+}
+
 interface WidgetConfig {
   bundleId: string;
   title: string;
   subtitle: string | null;
   selectionMode: string;
+  minSelections: number; // Add-ons the customer must select before adding to cart (MULTIPLE)
+  maxSelections: number | null; // Further checkboxes are disabled at the limit (null = no limit)
   targetingType: string;
   startDate: string | null;
   endDate: string | null;
   deleteAddonsOnMainDelete: boolean; // Cart Transform: remove addons when main product deleted
   showSoldOutLabel: boolean; // Show sold-out label for out-of-stock variants
   soldOutLabelText: string; // Custom label text for sold-out items
-  addOns: Array<{
-    addOnId: string;
-    shopifyProductId: string;
-    productHandle: string | null; // Product handle for fetching market-specific prices
-    productTitle: string | null;
-    imageUrl: string | null;
-    title: string | null;
-    discountType: string;
-    discountValue: number | null;
-    discountLabel: string | null;
-    isDefaultSelected: boolean;
-    subscriptionOnly: boolean;
-    showQuantitySelector: boolean;
-    maxQuantity: number;
-    selectedVariants: Array<{
-      shopifyVariantId: string;
-      variantTitle: string | null;
-      variantPrice: number | null;
-    }>;
-  }>;
+  tiers: DiscountTierConfig[]; // Tiered discounts, shown as a progress message
+  customerEligibility: string; // Checked against the Liquid customer object
+  customerTags: string[];
+  hideBundleForIneligible: boolean; // Hide the widget instead of only the discounts
+  addOns: WidgetAddOnConfig[];
   style: Record<string, string | number | boolean>;
   productGroups?: Array<{
+    groupId: string;
     title: string;
-    addOns: string[]; // Add-on IDs
+    addOns: WidgetAddOnConfig[]; // Rendered as tabs by addon-tabs.liquid
   }>;
 }
 
@@ -85,31 +137,150 @@ interface WidgetConfig {
  */
 export function buildDiscountConfig(
   bundle: BundleWithRelations,
-  addOnSets: Awaited<ReturnType<typeof getAddOnSets>>
+  addOnSets: Awaited<ReturnType<typeof getAddOnSets>>,
+  pricingEngine: PricingEngine = "DISCOUNT_FUNCTION"
 ): DiscountFunctionConfig {
+  const rules = buildAddOnRules(addOnSets);
   const addOns: AddOnConfig[] = addOnSets.map((addOn) => ({
     addOnId: addOn.id,
     productTitle: addOn.productTitle || "",
     imageUrl: addOn.productImageUrl || addOn.customImageUrl,
     title: addOn.title,
     targetVariantIds: addOn.selectedVariants.map((v) => v.shopifyVariantId),
+    mainVariantIds: addOn.mainVariants.map((v) => v.shopifyVariantId),
+    ...rules(addOn.id),
     discountType: addOn.discountType,
     discountValue: addOn.discountValue ? Number(addOn.discountValue) : null,
+    currencyValues: buildCurrencyValues(addOn.currencyValues),
     discountLabel: addOn.discountLabel,
     isDefaultSelected: addOn.isDefaultSelected,
+    isRequired: addOn.isRequired,
     subscriptionOnly: addOn.subscriptionOnly,
     showQuantitySelector: addOn.showQuantitySelector,
     maxQuantity: addOn.maxQuantity,
+    addOnsPerMainUnit: addOn.addOnsPerMainUnit,
     message: addOn.discountLabel || getDefaultMessage(addOn.discountType, addOn.discountValue),
   }));
 
   return {
     bundleId: bundle.id,
     addOns,
+    tiers: buildDiscountTiers(bundle),
+    shippingPerk: bundle.shippingPerkEnabled
+      ? {
+          minAddOns: bundle.shippingPerkMinAddOns,
+          percentage: bundle.shippingPerkPercentage,
+          message: bundle.shippingPerkLabel ||
+            (bundle.shippingPerkPercentage >= 100 ? "Free shipping" : `${bundle.shippingPerkPercentage}% off shipping`),
+        }
+      : null,
+    completeBundle: buildCompleteBundleConfig(bundle, addOnSets),
+    customerEligibility: bundle.customerEligibility,
+    pricingEngine,
     selectionStrategy: bundle.selectionMode === "SINGLE" ? "FIRST" : "ALL",
   };
 }
 
+/**
+ * Build the discount function's input query variables
+ */
+export function buildDiscountInputVariables(bundle: BundleWithRelations): DiscountFunctionInputVariables {
+  return {
+    customerTags: bundle.customerEligibility === "TAGGED_CUSTOMERS"
+      ? parseCustomerTags(bundle.eligibleCustomerTags)
+      : [],
+  };
+}
+
+/**
+ * Split a comma-separated customer tag list
+ */
+function parseCustomerTags(tags: string | null): string[] {
+  return (tags || "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Map per-currency discount values by currency code
+ */
+function buildCurrencyValues(
+  currencyValues: Array<{ currencyCode: string; discountValue: unknown }>
+): Record<string, number> {
+  return Object.fromEntries(
+    currencyValues.map((value) => [value.currencyCode, Number(value.discountValue)])
+  );
+}
+
+/**
+ * Resolve the add-on rules into required and excluded add-on IDs per add-on
+ * Exclusions apply both ways, so they are added to both add-ons
+ */
+function buildAddOnRules(
+  addOnSets: Awaited<ReturnType<typeof getAddOnSets>>
+): (addOnId: string) => { requiresAddOnIds: string[]; excludesAddOnIds: string[] } {
+  const requires = new Map<string, Set<string>>();
+  const excludes = new Map<string, Set<string>>();
+  const add = (map: Map<string, Set<string>>, addOnId: string, relatedId: string) => {
+    map.set(addOnId, (map.get(addOnId) ?? new Set<string>()).add(relatedId));
+  };
+
+  for (const addOn of addOnSets) {
+    for (const rule of addOn.rules) {
+      if (rule.type === "REQUIRES") {
+        add(requires, addOn.id, rule.relatedAddOnSetId);
+      } else {
+        add(excludes, addOn.id, rule.relatedAddOnSetId);
+        add(excludes, rule.relatedAddOnSetId, addOn.id);
+      }
+    }
+  }
+
+  return (addOnId) => ({
+    requiresAddOnIds: Array.from(requires.get(addOnId) ?? []),
+    excludesAddOnIds: Array.from(excludes.get(addOnId) ?? []),
+  });
+}
+
+/**
+ * Build the "complete the bundle" order discount configuration
+ * Add-ons marked completesBundle are required; if none are marked, all add-ons are
+ */
+function buildCompleteBundleConfig(
+  bundle: BundleWithRelations,
+  addOnSets: Awaited<ReturnType<typeof getAddOnSets>>
+): CompleteBundleConfig | null {
+  const discountValue = bundle.completeBundleDiscountValue ? Number(bundle.completeBundleDiscountValue) : 0;
+  if (!bundle.completeBundleEnabled || !discountValue || addOnSets.length === 0) {
+    return null;
+  }
+
+  const markedAddOns = addOnSets.filter((addOn) => addOn.completesBundle);
+  const requiredAddOns = markedAddOns.length > 0 ? markedAddOns : addOnSets;
+
+  return {
+    requiredAddOnIds: requiredAddOns.map((addOn) => addOn.id),
+    discountType: bundle.completeBundleDiscountType,
+    discountValue,
+    message: bundle.completeBundleLabel || `Complete the bundle: ${getDefaultMessage(bundle.completeBundleDiscountType, discountValue)}`,
+  };
+}
+
+/**
+ * Build tiered discount configuration (shared by the discount function and the widget)
+ */
+function buildDiscountTiers(bundle: BundleWithRelations): DiscountTierConfig[] {
+  return (bundle.discountTiers ?? [])
+    .map((tier) => ({
+      minAddOns: tier.minAddOns,
+      discountType: tier.discountType,
+      discountValue: Number(tier.discountValue),
+      message: tier.discountLabel || getDefaultMessage(tier.discountType, tier.discountValue),
+    }))
+    .sort((a, b) => a.minAddOns - b.minAddOns);
+}
+
 /**
  * Build widget configuration from bundle data
  * @param productHandles - Map of Shopify Product GID to product handle (for backwards compatibility)
@@ -143,11 +314,40 @@ export function buildWidgetConfig(
       })
     : addOnSets;
 
+  const rules = buildAddOnRules(addOnSets);
+  const widgetAddOns: WidgetAddOnConfig[] = filteredAddOnSets.map((addOn) => ({
+    addOnId: addOn.id,
+    shopifyProductId: addOn.shopifyProductId,
+    productHandle: productHandles.get(addOn.shopifyProductId) || productInfo?.get(addOn.shopifyProductId)?.handle || null,
+    productTitle: addOn.productTitle,
+    imageUrl: addOn.productImageUrl || addOn.customImageUrl,
+    title: addOn.title,
+    discountType: addOn.discountType,
+    discountValue: addOn.discountValue ? Number(addOn.discountValue) : null,
+    currencyValues: buildCurrencyValues(addOn.currencyValues),
+    discountLabel: addOn.discountLabel,
+    isDefaultSelected: addOn.isDefaultSelected,
+    isRequired: addOn.isRequired,
+    subscriptionOnly: addOn.subscriptionOnly,
+    showQuantitySelector: addOn.showQuantitySelector,
+    maxQuantity: addOn.maxQuantity,
+    productGroupId: addOn.productGroupId,
+    mainVariantIds: addOn.mainVariants.map((v) => v.shopifyVariantId),
+    ...rules(addOn.id),
+    selectedVariants: addOn.selectedVariants.map((v) => ({
+      shopifyVariantId: v.shopifyVariantId,
+      variantTitle: v.variantTitle,
+      variantPrice: v.variantPrice ? Number(v.variantPrice) : null,
+    })),
+  }));
+
   return {
     bundleId: bundle.id,
     title: bundle.title,
     subtitle: bundle.subtitle,
     selectionMode: bundle.selectionMode,
+    minSelections: bundle.minSelections,
+    maxSelections: bundle.maxSelections,
     targetingType: bundle.targetingType,
     startDate: bundle.startDate ? bundle.startDate.toISOString() : null,
     endDate: bundle.endDate ? bundle.endDate.toISOString() : null,
@@ -156,26 +356,22 @@ export function buildWidgetConfig(
     // Sold-out handling
     showSoldOutLabel: Boolean(bundleExt.showSoldOutLabel) || false,
     soldOutLabelText: (bundleExt.soldOutLabelText as string) || "Sold out",
-    addOns: filteredAddOnSets.map((addOn) => ({
-      addOnId: addOn.id,
-      shopifyProductId: addOn.shopifyProductId,
-      productHandle: productHandles.get(addOn.shopifyProductId) || productInfo?.get(addOn.shopifyProductId)?.handle || null,
-      productTitle: addOn.productTitle,
-      imageUrl: addOn.productImageUrl || addOn.customImageUrl,
-      title: addOn.title,
-      discountType: addOn.discountType,
-      discountValue: addOn.discountValue ? Number(addOn.discountValue) : null,
-      discountLabel: addOn.discountLabel,
-      isDefaultSelected: addOn.isDefaultSelected,
-      subscriptionOnly: addOn.subscriptionOnly,
-      showQuantitySelector: addOn.showQuantitySelector,
-      maxQuantity: addOn.maxQuantity,
-      selectedVariants: addOn.selectedVariants.map((v) => ({
-        shopifyVariantId: v.shopifyVariantId,
-        variantTitle: v.variantTitle,
-        variantPrice: v.variantPrice ? Number(v.variantPrice) : null,
-      })),
-    })),
+    tiers: buildDiscountTiers(bundle),
+    customerEligibility: bundle.customerEligibility,
+    customerTags: parseCustomerTags(bundle.eligibleCustomerTags),
+    hideBundleForIneligible: bundle.hideBundleForIneligible,
+    addOns: widgetAddOns,
+    // Tabs per product group; narrowed per product by buildProductGroupWidgetConfig
+    productGroups:
+      bundle.targetingType === "PRODUCT_GROUPS" && bundle.productGroups
+        ? bundle.productGroups.map((group) => ({
+            groupId: group.id,
+            title: group.title,
+            addOns: widgetAddOns.filter(
+              (addOn) => !addOn.productGroupId || addOn.productGroupId === group.id
+            ),
+          }))
+        : undefined,
     style: widgetStyle
       ? {
           backgroundColor: widgetStyle.backgroundColor,
@@ -199,6 +395,8 @@ export function buildWidgetConfig(
           discountLabelStyle: widgetStyle.discountLabelStyle,
           // Template design: DEFAULT, MINIMAL, or MODERN
           template: widgetStyle.template || "DEFAULT",
+          // INLINE next to the buy buttons, or MODAL opened by Add to Cart
+          displayMode: widgetStyle.displayMode || "INLINE",
           // Type assertions needed until Prisma client is regenerated
           showCountdownTimer: Boolean((widgetStyle as Record<string, unknown>).showCountdownTimer) || false,
           customCss: String((widgetStyle as Record<string, unknown>).customCss || ""),
@@ -208,6 +406,32 @@ export function buildWidgetConfig(
   };
 }
 
+/**
+ * Narrow a PRODUCT_GROUPS widget config to the groups a product belongs to
+ * Each add-on is listed once, under the first of those groups that offers it
+ */
+export function buildProductGroupWidgetConfig(
+  widgetConfig: WidgetConfig,
+  groupIds: Set<string>
+): WidgetConfig {
+  const listedAddOnIds = new Set<string>();
+
+  const productGroups = (widgetConfig.productGroups || [])
+    .filter((group) => groupIds.has(group.groupId))
+    .map((group) => {
+      const addOns = group.addOns.filter((addOn) => !listedAddOnIds.has(addOn.addOnId));
+      addOns.forEach((addOn) => listedAddOnIds.add(addOn.addOnId));
+      return { ...group, addOns };
+    })
+    .filter((group) => group.addOns.length > 0);
+
+  return {
+    ...widgetConfig,
+    addOns: widgetConfig.addOns.filter((addOn) => listedAddOnIds.has(addOn.addOnId)),
+    productGroups,
+  };
+}
+
 /**
  * Get default discount message
  */
@@ -227,6 +451,14 @@ function getDefaultMessage(discountType: string, value: unknown): string {
   }
 }
 
+/**
+ * One page of a GraphQL connection that only selects node IDs
+ */
+interface ConnectionPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: Array<{ id: string }>;
+}
+
 /**
  * Product info type returned from Shopify
  */
@@ -309,6 +541,145 @@ export async function fetchProductInfo(
   return productInfoMap;
 }
 
+/**
+ * Fetch the IDs of every product in a collection, paging through large collections
+ * Throws on API errors so a partial list is never treated as the full membership
+ */
+export async function fetchCollectionProductIds(
+  admin: AdminGraphQLClient,
+  collectionId: string
+): Promise<string[]> {
+  const productIds: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response = await admin.graphql(
+      `#graphql
+      query GetCollectionProducts($id: ID!, $after: String) {
+        collection(id: $id) {
+          products(first: 250, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+            }
+          }
+        }
+      }`,
+      {
+        variables: { id: collectionId, after: cursor },
+      }
+    );
+
+    const result = await response.json();
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`Failed to fetch products for ${collectionId}: ${result.errors[0].message}`);
+    }
+
+    const products = (result.data as { collection?: { products: ConnectionPage } | null })?.collection?.products;
+    if (!products) {
+      // Collection no longer exists
+      break;
+    }
+
+    productIds.push(...products.nodes.map((node) => node.id));
+    cursor = products.pageInfo.hasNextPage ? products.pageInfo.endCursor : null;
+  } while (cursor);
+
+  console.log("[Metafield Sync] Collection", collectionId, "has", productIds.length, "products");
+  return productIds;
+}
+
+/**
+ * Fetch the IDs of every collection a product belongs to
+ */
+export async function fetchProductCollectionIds(
+  admin: AdminGraphQLClient,
+  productId: string
+): Promise<string[]> {
+  const collectionIds: string[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response = await admin.graphql(
+      `#graphql
+      query GetProductCollections($id: ID!, $after: String) {
+        product(id: $id) {
+          collections(first: 250, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+            }
+          }
+        }
+      }`,
+      {
+        variables: { id: productId, after: cursor },
+      }
+    );
+
+    const result = await response.json();
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`Failed to fetch collections for ${productId}: ${result.errors[0].message}`);
+    }
+
+    const collections = (result.data as { product?: { collections: ConnectionPage } | null })?.product?.collections;
+    if (!collections) {
+      break;
+    }
+
+    collectionIds.push(...collections.nodes.map((node) => node.id));
+    cursor = collections.pageInfo.hasNextPage ? collections.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return collectionIds;
+}
+
+/**
+ * Fetch the synced widget config the theme block shows for a product:
+ * the product's config metafield, else the shop's global config (ALL_PRODUCTS bundles)
+ */
+export async function fetchSyncedWidgetConfig(
+  admin: AdminGraphQLClient,
+  productId: string
+): Promise<WidgetConfig | null> {
+  const response = await admin.graphql(
+    `#graphql
+    query GetSyncedWidgetConfig($id: ID!, $namespace: String!) {
+      product(id: $id) {
+        metafield(namespace: $namespace, key: "config") {
+          value
+        }
+      }
+      shop {
+        metafield(namespace: $namespace, key: "global_config") {
+          value
+        }
+      }
+    }`,
+    {
+      variables: { id: productId, namespace: METAFIELD_NAMESPACE },
+    }
+  );
+
+  const result = await response.json();
+  if (result.errors && result.errors.length > 0) {
+    throw new Error(`Failed to fetch the widget config for ${productId}: ${result.errors[0].message}`);
+  }
+
+  const data = result.data as {
+    product?: { metafield: { value: string } | null } | null;
+    shop?: { metafield: { value: string } | null };
+  };
+  const value = data?.product?.metafield?.value ?? data?.shop?.metafield?.value;
+  return value ? (JSON.parse(value) as WidgetConfig) : null;
+}
+
 /**
  * Filter product IDs to only include Active products
  * Returns array of product GIDs that are Active
@@ -329,6 +700,50 @@ export function filterActiveProducts(
   return activeIds;
 }
 
+/**
+ * Fetch the widget config metafield of each product, normalized to compare with JSON.stringify
+ * Products whose value can't be read are left out (so they are written)
+ */
+async function fetchProductConfigValues(
+  admin: AdminGraphQLClient,
+  productIds: string[]
+): Promise<Map<string, string>> {
+  const values = new Map<string, string>();
+
+  for (const chunk of chunkArray(productIds, 50)) {
+    try {
+      const response = await admin.graphql(
+        `#graphql
+        query GetProductConfigs($ids: [ID!]!, $namespace: String!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              metafield(namespace: $namespace, key: "config") {
+                value
+              }
+            }
+          }
+        }`,
+        {
+          variables: { ids: chunk, namespace: METAFIELD_NAMESPACE },
+        }
+      );
+
+      const result = await response.json();
+      const nodes = (result.data as { nodes?: Array<{ id: string; metafield: { value: string } | null } | null> })?.nodes || [];
+      for (const node of nodes) {
+        if (node?.id && node.metafield) {
+          values.set(node.id, JSON.stringify(JSON.parse(node.metafield.value)));
+        }
+      }
+    } catch (error) {
+      console.error("[Metafield Sync] Error fetching product configs:", error);
+    }
+  }
+
+  return values;
+}
+
 /**
  * Sync bundle configuration to product metafields for widget display
  * Called when bundle targeting includes specific products
@@ -344,10 +759,18 @@ export async function syncProductMetafields(
   }
 
   const configJson = JSON.stringify(widgetConfig);
-  console.log("[Metafield Sync] Syncing to", productIds.length, "products");
+
+  // Skip products already holding this config: every write triggers a products/update webhook
+  const currentValues = await fetchProductConfigValues(admin, productIds);
+  const changedProductIds = productIds.filter((productId) => currentValues.get(productId) !== configJson);
+  if (changedProductIds.length === 0) {
+    console.log("[Metafield Sync] All", productIds.length, "products are up to date");
+    return;
+  }
+  console.log("[Metafield Sync] Syncing to", changedProductIds.length, "of", productIds.length, "products");
 
   // Build metafield input for each product
-  const metafields = productIds.map((productId) => ({
+  const metafields = changedProductIds.map((productId) => ({
     ownerId: productId,
     namespace: METAFIELD_NAMESPACE,
     key: "config",
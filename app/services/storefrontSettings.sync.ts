@@ -0,0 +1,117 @@
+/**
+ * Storefront Settings Sync Service
+ * Writes the shop-wide settings read by the storefront widget script
+ * (theme adapter, all-or-nothing add to cart) to a shop metafield
+ */
+
+import type { ThemeAdapter } from "@prisma/client";
+import { getShopSettings } from "../models/shopSettings.server";
+
+// Admin API client type
+interface AdminGraphQLClient {
+  graphql: (query: string, options?: { variables?: Record<string, unknown> }) => Promise<{
+    json: () => Promise<{ data?: Record<string, unknown>; errors?: Array<{ message: string }> }>;
+  }>;
+}
+
+// Same namespace as the bundle configs (see metafield.sync.ts)
+const METAFIELD_NAMESPACE = "addon-bundle";
+const METAFIELD_KEY = "storefront_settings";
+
+/**
+ * Storefront settings (rendered by the theme app extension for addon-bundle.js)
+ */
+export interface StorefrontSettings {
+  themeAdapter: ThemeAdapter;
+  allOrNothingAddToCart: boolean; // Remove the bundle again when an add-on can't be added
+}
+
+interface SyncStorefrontSettingsResult {
+  success: boolean;
+  error?: string;
+}
+
+// GraphQL response types
+interface UserError {
+  field: string[] | null;
+  message: string;
+}
+
+interface MetafieldsSetResponse {
+  metafieldsSet?: {
+    userErrors?: UserError[];
+  };
+}
+
+/**
+ * Build the storefront settings from the shop settings
+ */
+export async function buildStorefrontSettings(shop: string): Promise<StorefrontSettings> {
+  const settings = await getShopSettings(shop);
+  return {
+    themeAdapter: settings.themeAdapter,
+    allOrNothingAddToCart: settings.allOrNothingAddToCart,
+  };
+}
+
+/**
+ * Push the shop's storefront settings to the `addon-bundle.storefront_settings` shop metafield
+ */
+export async function syncStorefrontSettings(
+  admin: AdminGraphQLClient,
+  shop: string
+): Promise<SyncStorefrontSettingsResult> {
+  try {
+    const storefrontSettings = await buildStorefrontSettings(shop);
+    console.log(
+      "[syncStorefrontSettings] Theme adapter:", storefrontSettings.themeAdapter,
+      "all-or-nothing:", storefrontSettings.allOrNothingAddToCart
+    );
+
+    const shopResponse = await admin.graphql(`query { shop { id } }`);
+    const shopResult = await shopResponse.json();
+    const shopGid = (shopResult.data?.shop as { id?: string })?.id;
+    if (!shopGid) {
+      return { success: false, error: "Could not get shop ID" };
+    }
+
+    const response = await admin.graphql(
+      `#graphql
+      mutation SetStorefrontSettings($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }`,
+      {
+        variables: {
+          metafields: [
+            {
+              ownerId: shopGid,
+              namespace: METAFIELD_NAMESPACE,
+              key: METAFIELD_KEY,
+              type: "json",
+              value: JSON.stringify(storefrontSettings),
+            },
+          ],
+        },
+      }
+    );
+
+    const result = await response.json();
+    const userErrors = (result.data as MetafieldsSetResponse)?.metafieldsSet?.userErrors ?? [];
+    if (result.errors?.length || userErrors.length > 0) {
+      const error = [...(result.errors ?? []), ...userErrors].map((e) => e.message).join(", ");
+      console.error("[syncStorefrontSettings] Failed to sync storefront settings:", error);
+      return { success: false, error };
+    }
+
+    console.log("[syncStorefrontSettings] Storefront settings updated");
+    return { success: true };
+  } catch (error) {
+    console.error("[syncStorefrontSettings] Error syncing storefront settings:", error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -42,6 +42,7 @@ interface STextFieldProps extends BaseProps {
   error?: string;
   required?: boolean;
   placeholder?: string;
+  details?: string;
   min?: string;
   max?: string;
   step?: string;
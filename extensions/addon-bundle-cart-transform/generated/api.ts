@@ -2802,7 +2802,9 @@ export enum WeightUnit {
   Pounds = 'POUNDS'
 }
 
-export type RunInputVariables = Exact<{ [key: string]: never; }>;
+export type RunInputVariables = Exact<{
+  customerTags?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
 
 
-export type RunInput = { __typename?: 'Input', cart: { __typename?: 'Cart', lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, merchandise: { __typename?: 'CustomProduct' } | { __typename?: 'ProductVariant', id: string, product: { __typename?: 'Product', id: string, title: string } }, attribute?: { __typename?: 'Attribute', value?: string | null } | null, bundleId?: { __typename?: 'Attribute', value?: string | null } | null, bundleRole?: { __typename?: 'Attribute', value?: string | null } | null, deleteAddonsFlag?: { __typename?: 'Attribute', value?: string | null } | null }> } };
+export type RunInput = { __typename?: 'Input', presentmentCurrencyRate: any, cart: { __typename?: 'Cart', buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', hasTags: Array<{ __typename?: 'HasTagResponse', tag: string, hasTag: boolean }> } | null, purchasingCompany?: { __typename?: 'PurchasingCompany', company: { __typename?: 'Company', id: string } } | null } | null, lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, cost: { __typename?: 'CartLineCost', amountPerQuantity: { __typename?: 'MoneyV2', amount: any, currencyCode: CurrencyCode } }, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', id: string, product: { __typename?: 'Product', id: string, title: string } }, sellingPlanAllocation?: { __typename?: 'SellingPlanAllocation', sellingPlan: { __typename?: 'SellingPlan', id: string } } | null, bundleGroupId?: { __typename?: 'Attribute', value?: string | null } | null, bundleId?: { __typename?: 'Attribute', value?: string | null } | null, bundleRole?: { __typename?: 'Attribute', value?: string | null } | null, addonBundleId?: { __typename?: 'Attribute', value?: string | null } | null, addonMainProduct?: { __typename?: 'Attribute', value?: string | null } | null, deleteAddonsFlag?: { __typename?: 'Attribute', value?: string | null } | null }> }, shop: { __typename?: 'Shop', localTime: { __typename?: 'LocalTime', date: any } }, cartTransform: { __typename?: 'CartTransform', metafield?: { __typename?: 'Metafield', value: string } | null } };
@@ -0,0 +1,263 @@
+/**
+ * Add-on pricing of the cart transform (pricing engine setting)
+ * Copy of addon-bundle-discount/src/addon_pricing.ts: change both together so
+ * both engines price add-ons identically
+ */
+
+import {
+  BundleCartLine,
+  buildMainLineIndex,
+  countAddOnsByMainLine,
+  filterByMainVariant,
+  filterByPrerequisites,
+  getMainLineKey,
+  getMainQuantity,
+} from './bundle_cart_lines';
+
+/**
+ * Add-on configuration from the bundle config
+ * This matches the structure from buildDiscountConfig in metafield.sync.ts
+ */
+export interface AddOnConfig {
+  addOnId: string;
+  productTitle: string;
+  imageUrl: string | null;
+  title: string | null;
+  targetVariantIds: string[]; // Array of variant GIDs
+  mainVariantIds?: string[]; // Main product variant GIDs the add-on is discounted with (empty = every variant)
+  requiresAddOnIds?: string[]; // Add-ons that must be in the same bundle group for the discount
+  discountType: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FIXED_PRICE' | 'FREE_GIFT';
+  discountValue: number | null; // In the shop's currency
+  currencyValues?: Record<string, number>; // FIXED_AMOUNT/FIXED_PRICE overrides per presentment currency
+  discountLabel: string | null;
+  isDefaultSelected: boolean;
+  subscriptionOnly: boolean;
+  showQuantitySelector: boolean;
+  maxQuantity: number;
+  addOnsPerMainUnit: number | null; // Discounted add-ons per main product unit (null = no limit)
+  message: string;
+}
+
+/**
+ * Tiered discount unlocked by the number of distinct add-ons in a bundle group
+ */
+export interface DiscountTier {
+  minAddOns: number;
+  discountType: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  discountValue: number;
+  message: string;
+}
+
+/**
+ * Cart line fields needed to price add-ons
+ */
+export interface PricedCartLine extends BundleCartLine {
+  id: string;
+  cost: {
+    amountPerQuantity: {
+      amount: string;
+      currencyCode?: string;
+    };
+  };
+  sellingPlanAllocation?: {
+    sellingPlan: {
+      id: string;
+    };
+  } | null;
+}
+
+/**
+ * Price of one add-on line: `quantity` units get the percentage or per-unit amount off
+ */
+export interface AddOnLinePrice {
+  lineId: string;
+  quantity: number;
+  value: { percentage: number } | { amountPerUnit: number };
+  message: string;
+}
+
+/**
+ * Fixed amounts in the config are in the shop's currency, while cart costs and
+ * fixed discount amounts are in the buyer's presentment currency. Use the
+ * merchant's override for the line's currency when set, otherwise convert.
+ */
+function toPresentmentAmount(
+  amount: number,
+  currencyCode: string | undefined,
+  currencyValues: Record<string, number> | undefined,
+  rate: number,
+): number {
+  const override = currencyCode ? currencyValues?.[currencyCode] : undefined;
+  return override !== undefined ? override : amount * rate;
+}
+
+/**
+ * Highest tier unlocked by the given add-on count
+ */
+function findTier(tiers: DiscountTier[] | undefined, addOnCount: number): DiscountTier | null {
+  let match: DiscountTier | null = null;
+  for (const tier of tiers ?? []) {
+    if (addOnCount >= tier.minAddOns && (!match || tier.minAddOns > match.minAddOns)) {
+      match = tier;
+    }
+  }
+  return match;
+}
+
+/**
+ * Map variant IDs to their add-on config for quick lookup
+ */
+export function buildVariantToAddOn(addOns: AddOnConfig[]): Map<string, AddOnConfig> {
+  const variantToAddOn = new Map<string, AddOnConfig>();
+  for (const addOn of addOns) {
+    for (const variantId of addOn.targetVariantIds) {
+      variantToAddOn.set(variantId, addOn);
+    }
+  }
+  return variantToAddOn;
+}
+
+/**
+ * Price the add-on lines in the cart: add-ons need their main product in the
+ * cart (as one of the add-on's main variants, if restricted) along with the
+ * add-ons they require, unlocked tiers
+ * replace the add-on's own discount, and maxQuantity and addOnsPerMainUnit cap
+ * the number of discounted units
+ */
+export function priceAddOnLines(
+  cartLines: PricedCartLine[],
+  tiers: DiscountTier[] | undefined,
+  variantToAddOn: Map<string, AddOnConfig>,
+  currencyRate: number,
+): AddOnLinePrice[] {
+  // Add-ons restricted to other variants of the main product, or missing a
+  // required add-on, are left at full price
+  const lines = filterByPrerequisites(
+    filterByMainVariant(cartLines, (variantId) => variantToAddOn.get(variantId)?.mainVariantIds),
+    (variantId) => variantToAddOn.get(variantId),
+  );
+
+  // Index main product lines so add-ons without their main product are skipped
+  const mainLines = buildMainLineIndex(lines);
+
+  // Discounted quantity already used per main line and add-on (for addOnsPerMainUnit)
+  const usedQuantity = new Map<string, number>();
+
+  // Distinct add-ons per main line decide which discount tier applies
+  const addOnCounts = countAddOnsByMainLine(lines, variantToAddOn, mainLines);
+
+  const prices: AddOnLinePrice[] = [];
+
+  for (const line of lines) {
+    // Only process lines that have the _addon_bundle_id attribute
+    // This identifies them as add-on items added via the widget
+    if (!line.addonBundleId?.value) {
+      continue;
+    }
+
+    // Only discount add-ons whose main product is still in the cart
+    const mainQuantity = getMainQuantity(line, mainLines);
+    if (mainQuantity === 0) {
+      console.error('[AddonPricing] Skipping line (main product not in cart):', line.id);
+      continue;
+    }
+
+    // Only process ProductVariant merchandise
+    if (line.merchandise.__typename !== 'ProductVariant' || !line.merchandise.id) {
+      continue;
+    }
+
+    // Find the add-on config for this variant
+    const addOn = variantToAddOn.get(line.merchandise.id);
+    if (!addOn) {
+      console.error('[AddonPricing] No addOn config found for variant:', line.merchandise.id);
+      continue;
+    }
+
+    // An unlocked tier replaces the add-on's own discount (free gifts stay free)
+    const tier = addOn.discountType !== 'FREE_GIFT'
+      ? findTier(tiers, addOnCounts.get(getMainLineKey(line) ?? '') ?? 0)
+      : null;
+    if (tier) {
+      console.error('[AddonPricing] Tier unlocked:', tier.minAddOns, 'add-ons,', tier.discountType, tier.discountValue);
+    }
+
+    const discountType = tier ? tier.discountType : addOn.discountType;
+    let discountAmount = tier ? tier.discountValue : addOn.discountValue || 0;
+    if (discountType === 'FIXED_AMOUNT' || discountType === 'FIXED_PRICE') {
+      discountAmount = toPresentmentAmount(
+        discountAmount,
+        line.cost.amountPerQuantity.currencyCode,
+        tier ? undefined : addOn.currencyValues,
+        currencyRate,
+      );
+    }
+
+    // Skip if no discount configured
+    if (!discountType || (discountType !== 'FREE_GIFT' && !discountAmount)) {
+      continue;
+    }
+
+    // Check subscription-only restriction
+    if (addOn.subscriptionOnly && !line.sellingPlanAllocation) {
+      continue;
+    }
+
+    // Calculate quantity to discount (respecting max quantity)
+    let quantityToDiscount = Math.min(line.quantity, addOn.maxQuantity || 99);
+
+    // Cap by the add-on ratio, shared across all lines of the same bundle group
+    const usageKey = `${getMainLineKey(line)}:${addOn.addOnId}`;
+    if (addOn.addOnsPerMainUnit) {
+      const allowed = addOn.addOnsPerMainUnit * mainQuantity - (usedQuantity.get(usageKey) ?? 0);
+      quantityToDiscount = Math.min(quantityToDiscount, allowed);
+      if (quantityToDiscount <= 0) {
+        console.error('[AddonPricing] Skipping line (add-on ratio reached):', line.id);
+        continue;
+      }
+    }
+
+    let value: AddOnLinePrice['value'];
+
+    switch (discountType) {
+      case 'PERCENTAGE':
+        value = { percentage: discountAmount };
+        break;
+
+      case 'FIXED_AMOUNT':
+        value = { amountPerUnit: discountAmount };
+        break;
+
+      case 'FIXED_PRICE': {
+        // Calculate discount as: original price - target price
+        const originalPrice = parseFloat(line.cost.amountPerQuantity.amount);
+
+        // Only apply if target price is less than original
+        if (discountAmount >= originalPrice) {
+          continue;
+        }
+        value = { amountPerUnit: originalPrice - discountAmount };
+        break;
+      }
+
+      case 'FREE_GIFT':
+        // 100% off for free gifts
+        value = { percentage: 100 };
+        break;
+
+      default:
+        continue;
+    }
+
+    prices.push({
+      lineId: line.id,
+      quantity: quantityToDiscount,
+      value,
+      message: tier?.message || addOn.discountLabel ||
+        (addOn.discountType === 'FREE_GIFT' ? 'Free Gift' : `Add-On Discount`),
+    });
+    usedQuantity.set(usageKey, (usedQuantity.get(usageKey) ?? 0) + quantityToDiscount);
+  }
+
+  return prices;
+}
@@ -12,20 +12,230 @@
  * the JavaScript adds `parent_id` to the add-on items, creating a parent-child
  * relationship. Shopify automatically removes child items when the parent is removed.
  *
- * This Cart Transform function is kept as a placeholder for potential future use:
- * - Bundle expansion/presentation
- * - Merging bundle items for display
- * - Price updates for bundle discounts
+ * "Present as bundle" mode: bundles listed in the cart transform metafield have the
+ * lines of each add-to-cart action (same `_bundle_group_id`) merged into one parent
+ * line with the bundle's title and image. The merged lines stay visible as components
+ * in order details.
+ *
+ * "Cart transform" pricing engine: add-on prices are set with `update` operations
+ * (Shopify Plus) instead of discounts, using a copy of the discount function's pricing
+ * code (src/addon_pricing.ts). Merged lines get the equivalent percentage decrease instead.
+ *
+ * Scheduled bundles are only merged and priced between their start and end dates,
+ * checked against the shop's local date.
+ */
+
+import type { RunInput, FunctionRunResult, CartOperation } from "../generated/api";
+import {
+  AddOnConfig,
+  DiscountTier,
+  buildVariantToAddOn,
+  priceAddOnLines,
+} from "./addon_pricing";
+import {
+  BuyerIdentity,
+  CustomerEligibility,
+  isBuyerEligible,
+} from "./customer_eligibility";
+
+// Presentation settings for one bundle (synced by the app from the bundle editor)
+interface PresentedBundle {
+  title: string | null;
+  imageUrl: string | null;
+}
+
+// Add-on pricing for one bundle (the discount function config of the bundle)
+interface BundlePricing {
+  addOns: AddOnConfig[];
+  tiers?: DiscountTier[];
+  customerEligibility?: CustomerEligibility;
+  customerTags?: string[];
+}
+
+// Start and end dates of a scheduled bundle (YYYY-MM-DD in the shop's timezone, both included)
+interface BundleSchedule {
+  startDate: string | null;
+  endDate: string | null;
+}
+
+interface CartTransformConfig {
+  bundles: Record<string, PresentedBundle>;
+  pricingEngine?: "DISCOUNT_FUNCTION" | "CART_TRANSFORM";
+  pricing?: Record<string, BundlePricing>; // Keyed by bundle ID (CART_TRANSFORM only)
+  schedules?: Record<string, BundleSchedule>; // Keyed by bundle ID, only scheduled bundles
+}
+
+type CartLine = RunInput["cart"]["lines"][number];
+
+// Line totals before and after add-on pricing (presentment currency)
+interface LinePrice {
+  originalTotal: number;
+  total: number;
+}
+
+/**
+ * Whether a bundle is running today (ISO dates compare as strings)
  */
+function isBundleRunning(config: CartTransformConfig, bundleId: string, today: string): boolean {
+  const schedule = config.schedules?.[bundleId];
+  if (!schedule) return true;
+  if (schedule.startDate && today < schedule.startDate) return false;
+  if (schedule.endDate && today > schedule.endDate) return false;
+  return true;
+}
 
-import type { RunInput, FunctionRunResult } from "../generated/api";
+/**
+ * Buyer identity for one bundle: the query checks the tags of every bundle at once
+ */
+function getBundleBuyerIdentity(
+  buyerIdentity: RunInput["cart"]["buyerIdentity"],
+  customerTags: string[] | undefined,
+): BuyerIdentity {
+  return {
+    customer: buyerIdentity?.customer
+      ? {
+          hasAnyTag: buyerIdentity.customer.hasTags.some(
+            (response) => response.hasTag && (customerTags ?? []).includes(response.tag),
+          ),
+        }
+      : null,
+    purchasingCompany: buyerIdentity?.purchasingCompany,
+  };
+}
+
+/**
+ * Price add-on lines for every bundle priced by the cart transform
+ */
+function priceLines(input: RunInput, config: CartTransformConfig): Map<string, LinePrice> {
+  const prices = new Map<string, LinePrice>();
+  if (config.pricingEngine !== "CART_TRANSFORM" || !config.pricing) {
+    return prices;
+  }
+
+  // Conversion rate for fixed amounts without a per-currency override
+  const currencyRate = parseFloat(input.presentmentCurrencyRate ?? "1") || 1;
+  const linesById = new Map(input.cart.lines.map((line) => [line.id, line]));
+
+  for (const [bundleId, pricing] of Object.entries(config.pricing)) {
+    if (!isBundleRunning(config, bundleId, input.shop.localTime.date)) {
+      continue;
+    }
+
+    const buyerIdentity = getBundleBuyerIdentity(input.cart.buyerIdentity, pricing.customerTags);
+    if (!isBuyerEligible(pricing.customerEligibility, buyerIdentity)) {
+      continue;
+    }
+
+    // Main product lines plus this bundle's add-on lines
+    const lines = input.cart.lines.filter(
+      (line) => !line.addonBundleId?.value || line.addonBundleId.value === bundleId,
+    );
+
+    const linePrices = priceAddOnLines(lines, pricing.tiers, buildVariantToAddOn(pricing.addOns), currencyRate);
+    for (const price of linePrices) {
+      const line = linesById.get(price.lineId);
+      if (!line) continue;
+
+      const unitPrice = parseFloat(line.cost.amountPerQuantity.amount);
+      const amountOff = "percentage" in price.value
+        ? (unitPrice * price.value.percentage) / 100
+        : Math.min(price.value.amountPerUnit, unitPrice);
+
+      prices.set(line.id, {
+        originalTotal: unitPrice * line.quantity,
+        total: unitPrice * line.quantity - amountOff * price.quantity,
+      });
+    }
+  }
+
+  return prices;
+}
 
 /**
  * Main entry point for the Cart Transform function
- * Currently returns empty operations as removal is handled by nested cart lines
  */
-export function run(_input: RunInput): FunctionRunResult {
-  // Cart Transform cannot remove items - return empty operations
-  // Removal is handled by Shopify's Nested Cart Lines feature (parent_id)
-  return { operations: [] };
+export function run(input: RunInput): FunctionRunResult {
+  const metafieldValue = input.cartTransform.metafield?.value;
+  if (!metafieldValue) {
+    return { operations: [] };
+  }
+
+  let config: CartTransformConfig;
+  try {
+    config = JSON.parse(metafieldValue) as CartTransformConfig;
+  } catch (e) {
+    console.error("[AddonCartTransform] Failed to parse config:", e);
+    return { operations: [] };
+  }
+
+  if (!config?.bundles) {
+    return { operations: [] };
+  }
+
+  const prices = priceLines(input, config);
+
+  // Group the lines of each add-to-cart action, keeping cart order
+  const groups = new Map<string, { bundle: PresentedBundle; lines: CartLine[] }>();
+  for (const line of input.cart.lines) {
+    const groupId = line.bundleGroupId?.value;
+    const bundleId = line.bundleId?.value;
+    if (!groupId || !bundleId || !config.bundles[bundleId]) continue;
+    if (!isBundleRunning(config, bundleId, input.shop.localTime.date)) continue;
+
+    const group = groups.get(groupId) ?? { bundle: config.bundles[bundleId], lines: [] };
+    group.lines.push(line);
+    groups.set(groupId, group);
+  }
+
+  const operations: CartOperation[] = [];
+  for (const { bundle, lines } of groups.values()) {
+    const mainLine = lines.find((line) => line.bundleRole?.value === "main");
+    // A main product on its own (all add-ons removed) stays a regular line
+    if (!mainLine || lines.length < 2) continue;
+    if (mainLine.merchandise.__typename !== "ProductVariant") continue;
+
+    // A merged line can't take per-line prices, so apply the group's savings as a percentage
+    let originalTotal = 0;
+    let total = 0;
+    for (const line of lines) {
+      const lineTotal = parseFloat(line.cost.amountPerQuantity.amount) * line.quantity;
+      const price = prices.get(line.id);
+      originalTotal += lineTotal;
+      total += price ? price.total : lineTotal;
+      prices.delete(line.id);
+    }
+    const percentageDecrease = originalTotal > 0 ? ((originalTotal - total) / originalTotal) * 100 : 0;
+
+    operations.push({
+      merge: {
+        parentVariantId: mainLine.merchandise.id,
+        title: bundle.title || `${mainLine.merchandise.product.title} bundle`,
+        ...(bundle.imageUrl ? { image: { url: bundle.imageUrl } } : {}),
+        ...(percentageDecrease > 0 ? { price: { percentageDecrease: { value: percentageDecrease.toFixed(2) } } } : {}),
+        cartLines: lines.map((line) => ({
+          cartLineId: line.id,
+          quantity: line.quantity,
+        })),
+      },
+    });
+  }
+
+  // Remaining priced add-on lines get a fixed price per unit
+  for (const [lineId, price] of prices) {
+    const quantity = input.cart.lines.find((line) => line.id === lineId)?.quantity ?? 1;
+    operations.push({
+      update: {
+        cartLineId: lineId,
+        price: {
+          adjustment: {
+            fixedPricePerUnit: {
+              amount: (price.total / quantity).toFixed(2),
+            },
+          },
+        },
+      },
+    });
+  }
+
+  return { operations };
 }
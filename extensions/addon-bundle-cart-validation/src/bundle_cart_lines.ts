@@ -0,0 +1,231 @@
+/**
+ * Helpers for matching add-on cart lines to the main product line they were added with
+ * Copy of addon-bundle-discount/src/bundle_cart_lines.ts
+ */
+
+/**
+ * Cart line fields both input queries select for bundle matching
+ */
+export interface BundleCartLine {
+  quantity: number;
+  addonBundleId?: {
+    value?: string | null;
+  } | null;
+  addonMainProduct?: {
+    value?: string | null;
+  } | null;
+  bundleGroupId?: {
+    value?: string | null;
+  } | null;
+  merchandise: {
+    __typename: string;
+    id?: string;
+    product?: {
+      id: string;
+    };
+  };
+}
+
+/**
+ * Extract the numeric part of a Shopify GID (the widget stores plain numeric IDs)
+ */
+function extractNumericId(id: string): string {
+  return id.split('/').pop() || id;
+}
+
+/**
+ * Tracks the quantity of main (non add-on) lines in the cart so add-on lines
+ * can be matched to the product they were offered with
+ */
+export interface MainLineIndex {
+  quantityByProduct: Map<string, number>;
+  quantityByGroup: Map<string, Map<string, number>>;
+}
+
+export function buildMainLineIndex(lines: BundleCartLine[]): MainLineIndex {
+  const index: MainLineIndex = {
+    quantityByProduct: new Map(),
+    quantityByGroup: new Map(),
+  };
+
+  for (const line of lines) {
+    if (line.addonBundleId?.value || !line.merchandise.product?.id) {
+      continue;
+    }
+
+    const productId = extractNumericId(line.merchandise.product.id);
+    index.quantityByProduct.set(productId, (index.quantityByProduct.get(productId) ?? 0) + line.quantity);
+
+    const groupId = line.bundleGroupId?.value;
+    if (groupId) {
+      const groupProducts = index.quantityByGroup.get(groupId) ?? new Map<string, number>();
+      groupProducts.set(productId, (groupProducts.get(productId) ?? 0) + line.quantity);
+      index.quantityByGroup.set(groupId, groupProducts);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Key identifying the main line(s) an add-on line belongs to.
+ * Lines added together share a _bundle_group_id; without one, fall back to
+ * the product in _addon_main_product.
+ */
+export function getMainLineKey(line: BundleCartLine): string | null {
+  if (line.bundleGroupId?.value) {
+    return `group:${line.bundleGroupId.value}`;
+  }
+  if (line.addonMainProduct?.value) {
+    return `product:${extractNumericId(line.addonMainProduct.value)}`;
+  }
+  return null;
+}
+
+/**
+ * Quantity of the main product an add-on line was offered with
+ * (0 when the main product is no longer in the cart)
+ */
+export function getMainQuantity(line: BundleCartLine, index: MainLineIndex): number {
+  const mainProductId = line.addonMainProduct?.value
+    ? extractNumericId(line.addonMainProduct.value)
+    : null;
+  const groupId = line.bundleGroupId?.value;
+
+  if (groupId) {
+    const groupProducts = index.quantityByGroup.get(groupId);
+    if (!groupProducts) {
+      return 0;
+    }
+    if (mainProductId) {
+      return groupProducts.get(mainProductId) ?? 0;
+    }
+    let total = 0;
+    for (const quantity of groupProducts.values()) {
+      total += quantity;
+    }
+    return total;
+  }
+
+  return mainProductId ? index.quantityByProduct.get(mainProductId) ?? 0 : 0;
+}
+
+/**
+ * Count the distinct add-on lines offered with each main line
+ * (for tiered discounts and the shipping perk)
+ */
+export function countAddOnsByMainLine(
+  lines: BundleCartLine[],
+  variantToAddOn: ReadonlyMap<string, unknown>,
+  index: MainLineIndex,
+): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (const line of lines) {
+    const variantId = line.merchandise.id;
+    if (!line.addonBundleId?.value || !variantId || !variantToAddOn.has(variantId)) {
+      continue;
+    }
+    if (getMainQuantity(line, index) === 0) {
+      continue;
+    }
+
+    const key = getMainLineKey(line);
+    if (key) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Whether a main (non add-on) line belongs to the given main line key
+ */
+export function mainLineMatchesKey(line: BundleCartLine, key: string): boolean {
+  if (line.addonBundleId?.value || !line.merchandise.product?.id) {
+    return false;
+  }
+  if (key.startsWith('group:')) {
+    return line.bundleGroupId?.value === key.slice('group:'.length);
+  }
+  return key === `product:${extractNumericId(line.merchandise.product.id)}`;
+}
+
+/**
+ * Drop add-on lines whose main line isn't one of the add-on's main product
+ * variants, so they are neither discounted nor counted for tiers and perks.
+ * `getMainVariantIds` returns the add-on's main variant GIDs (empty = every variant).
+ */
+export function filterByMainVariant<T extends BundleCartLine>(
+  lines: T[],
+  getMainVariantIds: (variantId: string) => string[] | undefined,
+): T[] {
+  return lines.filter((line) => {
+    const mainVariantIds = line.addonBundleId?.value && line.merchandise.id
+      ? getMainVariantIds(line.merchandise.id)
+      : undefined;
+    if (!mainVariantIds?.length) {
+      return true;
+    }
+
+    const key = getMainLineKey(line);
+    const mainProductId = line.addonMainProduct?.value
+      ? extractNumericId(line.addonMainProduct.value)
+      : null;
+    const offered = !!key && lines.some((other) =>
+      mainLineMatchesKey(other, key) &&
+      (!mainProductId || extractNumericId(other.merchandise.product?.id ?? '') === mainProductId) &&
+      !!other.merchandise.id &&
+      mainVariantIds.includes(other.merchandise.id)
+    );
+    if (!offered) {
+      console.error('[AddonBundle] Add-on not offered with the main variant:', line.merchandise.id);
+    }
+    return offered;
+  });
+}
+
+/**
+ * Drop add-on lines whose required add-ons aren't in the same bundle group,
+ * repeating until chained requirements settle (A requires B requires C).
+ * `getAddOn` returns the add-on ID and required add-on IDs of an add-on variant.
+ */
+export function filterByPrerequisites<T extends BundleCartLine>(
+  lines: T[],
+  getAddOn: (variantId: string) => { addOnId: string; requiresAddOnIds?: string[] } | undefined,
+): T[] {
+  const lineAddOn = (line: T) =>
+    line.addonBundleId?.value && line.merchandise.id ? getAddOn(line.merchandise.id) : undefined;
+
+  let kept = lines;
+  for (;;) {
+    // Add-ons present per main line
+    const addOnsByKey = new Map<string, Set<string>>();
+    for (const line of kept) {
+      const addOn = lineAddOn(line);
+      const key = getMainLineKey(line);
+      if (addOn && key) {
+        addOnsByKey.set(key, (addOnsByKey.get(key) ?? new Set<string>()).add(addOn.addOnId));
+      }
+    }
+
+    const next = kept.filter((line) => {
+      const requiresAddOnIds = lineAddOn(line)?.requiresAddOnIds;
+      if (!requiresAddOnIds?.length) {
+        return true;
+      }
+      const present = addOnsByKey.get(getMainLineKey(line) ?? '');
+      const met = requiresAddOnIds.every((addOnId) => present?.has(addOnId));
+      if (!met) {
+        console.error('[AddonBundle] Required add-on not in the bundle group:', line.merchandise.id);
+      }
+      return met;
+    });
+
+    if (next.length === kept.length) {
+      return next;
+    }
+    kept = next;
+  }
+}
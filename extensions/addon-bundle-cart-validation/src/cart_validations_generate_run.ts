@@ -0,0 +1,170 @@
+/**
+ * Cart and Checkout Validation Function: Addon Bundle Validation
+ *
+ * Blocks checkout when the cart contains add-ons that can't be sold as configured:
+ * - an add-on line (`_addon_bundle_id`) whose main product is no longer in the cart
+ * - an add-on whose quantity exceeds its maxQuantity for one main product line
+ * - a main product line added with a bundle (`_bundle_role` main) without the
+ *   bundle's required add-ons in its bundle group (those offered with its variant)
+ *
+ * Error messages are set by the merchant in the app settings and support
+ * {addon} and {max} placeholders.
+ */
+
+import type {
+  CartValidationsGenerateRunInput,
+  CartValidationsGenerateRunResult,
+  ValidationError,
+} from '../generated/api';
+import {
+  buildMainLineIndex,
+  getMainLineKey,
+  getMainQuantity,
+} from './bundle_cart_lines';
+
+/**
+ * Add-on limits from the validation config
+ * This matches the structure from buildCartValidationConfig in cartValidation.sync.ts
+ */
+interface AddOnLimit {
+  addOnId: string;
+  title: string;
+  targetVariantIds: string[];
+  maxQuantity: number;
+  isRequired: boolean;
+  mainVariantIds?: string[]; // Main product variants the add-on is offered with (empty = every variant)
+}
+
+interface CartValidationConfig {
+  messages: {
+    orphanedAddOn: string;
+    addOnLimit: string;
+    requiredAddOn: string;
+  };
+  bundles: Record<string, { addOns: AddOnLimit[] }>; // Keyed by bundle ID (`_addon_bundle_id`)
+}
+
+/**
+ * Fill the {addon} and {max} placeholders of a merchant message
+ */
+function formatMessage(template: string, addOnTitle: string, maxQuantity?: number): string {
+  return template
+    .replace(/\{addon\}/g, addOnTitle)
+    .replace(/\{max\}/g, maxQuantity !== undefined ? String(maxQuantity) : '');
+}
+
+export function cartValidationsGenerateRun(
+  input: CartValidationsGenerateRunInput,
+): CartValidationsGenerateRunResult {
+  const metafieldValue = input.validation.metafield?.value;
+  if (!metafieldValue) {
+    return { operations: [] };
+  }
+
+  let config: CartValidationConfig;
+  try {
+    config = JSON.parse(metafieldValue) as CartValidationConfig;
+  } catch (e) {
+    console.error('[AddonValidation] Failed to parse config:', e);
+    return { operations: [] };
+  }
+
+  if (!config?.messages) {
+    return { operations: [] };
+  }
+
+  const lines = input.cart.lines;
+  const mainLines = buildMainLineIndex(lines);
+  const errors: ValidationError[] = [];
+
+  // Add-on quantity per main line and add-on, checked against maxQuantity below
+  const quantities = new Map<string, { addOn: AddOnLimit; quantity: number }>();
+
+  for (const line of lines) {
+    const bundleId = line.addonBundleId?.value;
+    if (!bundleId) {
+      continue;
+    }
+
+    const variant = line.merchandise.__typename === 'ProductVariant' ? line.merchandise : null;
+    const addOn = config.bundles?.[bundleId]?.addOns.find(
+      (candidate) => !!variant && candidate.targetVariantIds.includes(variant.id),
+    );
+    const addOnTitle = addOn?.title || variant?.product.title || 'This add-on';
+
+    // Add-ons are only sold together with the product they were offered with
+    if (getMainQuantity(line, mainLines) === 0) {
+      console.error('[AddonValidation] Main product not in cart for line:', line.id);
+      errors.push({
+        message: formatMessage(config.messages.orphanedAddOn, addOnTitle),
+        target: '$.cart',
+      });
+      continue;
+    }
+
+    if (!addOn?.maxQuantity) {
+      continue;
+    }
+
+    const key = `${getMainLineKey(line)}:${addOn.addOnId}`;
+    const entry = quantities.get(key) ?? { addOn, quantity: 0 };
+    entry.quantity += line.quantity;
+    quantities.set(key, entry);
+  }
+
+  for (const { addOn, quantity } of quantities.values()) {
+    if (quantity > addOn.maxQuantity) {
+      console.error('[AddonValidation] Add-on over limit:', addOn.addOnId, quantity, '>', addOn.maxQuantity);
+      errors.push({
+        message: formatMessage(config.messages.addOnLimit, addOn.title, addOn.maxQuantity),
+        target: '$.cart',
+      });
+    }
+  }
+
+  // Add-on variants per bundle group, for the required add-ons of the main lines
+  const groupVariantIds = new Map<string, Set<string>>();
+  for (const line of lines) {
+    const groupId = line.bundleGroupId?.value;
+    if (!line.addonBundleId?.value || !groupId || line.merchandise.__typename !== 'ProductVariant') {
+      continue;
+    }
+    const variantIds = groupVariantIds.get(groupId) ?? new Set<string>();
+    variantIds.add(line.merchandise.id);
+    groupVariantIds.set(groupId, variantIds);
+  }
+
+  for (const line of lines) {
+    const bundleId = line.bundleId?.value;
+    const groupId = line.bundleGroupId?.value;
+    if (line.addonBundleId?.value || line.bundleRole?.value !== 'main' || !bundleId || !groupId) {
+      continue;
+    }
+
+    const variantIds = groupVariantIds.get(groupId);
+    const mainVariantId = line.merchandise.__typename === 'ProductVariant' ? line.merchandise.id : null;
+    for (const addOn of config.bundles?.[bundleId]?.addOns ?? []) {
+      if (!addOn.isRequired || addOn.targetVariantIds.some((variantId) => variantIds?.has(variantId))) {
+        continue;
+      }
+      // Not offered with this main variant, so the widget didn't add it
+      if (addOn.mainVariantIds?.length && (!mainVariantId || !addOn.mainVariantIds.includes(mainVariantId))) {
+        continue;
+      }
+      console.error('[AddonValidation] Required add-on missing:', addOn.addOnId, 'for line:', line.id);
+      errors.push({
+        message: formatMessage(config.messages.requiredAddOn, addOn.title),
+        target: '$.cart',
+      });
+    }
+  }
+
+  // Identical messages (e.g. one add-on split over several lines) are shown once
+  const uniqueErrors = errors.filter(
+    (error, index) => errors.findIndex((other) => other.message === error.message) === index,
+  );
+
+  return {
+    operations: uniqueErrors.length > 0 ? [{ validationAdd: { errors: uniqueErrors } }] : [],
+  };
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vite";
+
+export default defineConfig({
+  build: {
+    lib: {
+      entry: "./src/index.ts",
+      formats: ["es"],
+      fileName: "function",
+    },
+    rollupOptions: {
+      external: ["@shopify/shopify_function"],
+    },
+    outDir: "dist",
+    emptyOutDir: true,
+  },
+});
@@ -0,0 +1,6 @@
+import '@shopify/ui-extensions';
+
+declare module './src/Checkout.tsx' {
+  const shopify: import('@shopify/ui-extensions/purchase.checkout.cart-line-list.render-after').Api;
+  const globalThis: { shopify: typeof shopify };
+}
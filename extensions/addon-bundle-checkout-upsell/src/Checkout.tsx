@@ -0,0 +1,287 @@
+/** @jsxImportSource preact */
+/**
+ * Checkout UI Extension: Addon Bundle Checkout Upsell
+ *
+ * Rendered below the line items in the order summary. Offers the add-ons of the
+ * bundles configured for the products in the cart that aren't in the cart yet.
+ *
+ * Bundle configs are the widget configs the app writes to the `addon-bundle`
+ * product metafields (and the shop metafield for all-products bundles).
+ * Accepted add-ons get the same line attributes as add-ons added by the
+ * storefront widget, so the discount function prices them.
+ */
+
+import '@shopify/ui-extensions/preact';
+import { render } from 'preact';
+import { useState } from 'preact/hooks';
+import type { Attribute, CartLine } from '@shopify/ui-extensions/checkout';
+
+/**
+ * Bundle config fields used by the extension
+ * This matches the structure from buildWidgetConfig in metafield.sync.ts
+ */
+interface WidgetAddOnConfig {
+  addOnId: string;
+  shopifyProductId: string;
+  productTitle: string | null;
+  imageUrl: string | null;
+  title: string | null;
+  discountLabel: string | null;
+  subscriptionOnly: boolean;
+  mainVariantIds?: string[]; // Main product variant GIDs the add-on is offered with (empty = every variant)
+  requiresAddOnIds?: string[]; // Only offered when these add-ons are in the cart
+  excludesAddOnIds?: string[]; // Not offered when one of these add-ons is in the cart
+  selectedVariants: Array<{
+    shopifyVariantId: string;
+    variantTitle: string | null;
+  }>;
+}
+
+interface WidgetConfig {
+  bundleId: string;
+  deleteAddonsOnMainDelete: boolean;
+  addOns: WidgetAddOnConfig[];
+}
+
+// One add-on offered for one main product line
+interface Offer {
+  key: string;
+  line: CartLine;
+  config: WidgetConfig;
+  addOn: WidgetAddOnConfig;
+}
+
+const DEFAULT_MAX_OFFERS = 3;
+
+export default async () => {
+  render(<Extension />, document.body);
+};
+
+/**
+ * Extract numeric ID from Shopify GID (the widget stores plain numeric IDs)
+ */
+function extractNumericId(id: string): string {
+  return id.split('/').pop() || id;
+}
+
+function getAttribute(line: CartLine, key: string): string | undefined {
+  return line.attributes.find((attribute) => attribute.key === key)?.value;
+}
+
+function parseConfig(value: string | undefined): WidgetConfig | null {
+  if (!value) return null;
+  try {
+    const config = JSON.parse(value) as WidgetConfig;
+    return config?.bundleId && Array.isArray(config.addOns) ? config : null;
+  } catch (e) {
+    console.error('[AddonCheckoutUpsell] Failed to parse config:', e);
+    return null;
+  }
+}
+
+/**
+ * Bundle configs keyed by numeric product ID, plus the all-products bundle (if any)
+ */
+function getBundleConfigs(): { products: Map<string, WidgetConfig>; global: WidgetConfig | null } {
+  const products = new Map<string, WidgetConfig>();
+  let global: WidgetConfig | null = null;
+
+  for (const { target, metafield } of shopify.appMetafields.value) {
+    if (metafield.namespace !== 'addon-bundle') continue;
+
+    if (target.type === 'product' && metafield.key === 'config') {
+      const config = parseConfig(metafield.value);
+      if (config) products.set(extractNumericId(target.id), config);
+    } else if (target.type === 'shop' && metafield.key === 'global_config') {
+      global = parseConfig(metafield.value);
+    }
+  }
+
+  return { products, global };
+}
+
+/**
+ * Add-ons not yet in the cart for each main product line (same rules as the cart page upsell)
+ */
+function buildOffers(lines: CartLine[], maxOffers: number): Offer[] {
+  const configs = getBundleConfigs();
+  const offers: Offer[] = [];
+  const offered = new Set<string>();
+
+  for (const line of lines) {
+    if (getAttribute(line, '_addon_bundle_id')) continue;
+
+    const productId = extractNumericId(line.merchandise.product.id);
+    const config = configs.products.get(productId) ?? configs.global;
+    if (!config) continue;
+
+    // Add-ons already added with this main product line
+    const groupId = getAttribute(line, '_bundle_group_id');
+    const inCart = new Set(
+      lines
+        .filter((other) => {
+          if (getAttribute(other, '_addon_bundle_id') !== config.bundleId) return false;
+          return groupId
+            ? getAttribute(other, '_bundle_group_id') === groupId
+            : getAttribute(other, '_addon_main_product') === productId;
+        })
+        .map((other) => extractNumericId(other.merchandise.product.id))
+    );
+
+    // Add-on rules: required add-ons must be in the cart, excluded ones must not
+    const addOnInCart = (addOnId: string) => {
+      const addOn = config.addOns.find((other) => other.addOnId === addOnId);
+      return !!addOn && inCart.has(extractNumericId(addOn.shopifyProductId));
+    };
+
+    for (const addOn of config.addOns) {
+      const addOnProductId = extractNumericId(addOn.shopifyProductId);
+      if (
+        addOn.subscriptionOnly ||
+        !(addOn.requiresAddOnIds ?? []).every(addOnInCart) ||
+        (addOn.excludesAddOnIds ?? []).some(addOnInCart) ||
+        addOn.selectedVariants.length === 0 ||
+        (addOn.mainVariantIds?.length && !addOn.mainVariantIds.includes(line.merchandise.id)) ||
+        addOnProductId === productId ||
+        inCart.has(addOnProductId) ||
+        offered.has(addOn.addOnId)
+      ) {
+        continue;
+      }
+
+      offered.add(addOn.addOnId);
+      offers.push({ key: `${line.id}:${addOn.addOnId}`, line, config, addOn });
+    }
+  }
+
+  return offers.slice(0, maxOffers);
+}
+
+/**
+ * Add the add-on with the widget's bundle attributes
+ * An ungrouped main line is tagged first so the add-on is matched to it
+ */
+async function addOffer(offer: Offer, variantId: string): Promise<boolean> {
+  const { line, config } = offer;
+  let groupId = getAttribute(line, '_bundle_group_id');
+
+  if (!groupId) {
+    groupId = `bundle_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    const mainAttributes: Attribute[] = [
+      ...line.attributes,
+      { key: '_bundle_group_id', value: groupId },
+      { key: '_bundle_id', value: config.bundleId },
+      { key: '_bundle_role', value: 'main' },
+    ];
+    const result = await shopify.applyCartLinesChange({
+      type: 'updateCartLine',
+      id: line.id,
+      attributes: mainAttributes,
+    });
+    if (result.type === 'error') {
+      console.error('[AddonCheckoutUpsell] Failed to tag main line:', result.message);
+      return false;
+    }
+  }
+
+  const result = await shopify.applyCartLinesChange({
+    type: 'addCartLine',
+    merchandiseId: variantId,
+    quantity: 1,
+    attributes: [
+      { key: '_bundle_group_id', value: groupId },
+      { key: '_bundle_id', value: config.bundleId },
+      { key: '_bundle_role', value: 'addon' },
+      { key: '_addon_bundle_id', value: config.bundleId },
+      { key: '_addon_main_product', value: extractNumericId(line.merchandise.product.id) },
+    ],
+    // Nested cart line, removed by Shopify with its main product
+    ...(config.deleteAddonsOnMainDelete ? { parent: { merchandiseId: line.merchandise.id } } : {}),
+  });
+
+  if (result.type === 'error') {
+    console.error('[AddonCheckoutUpsell] Failed to add add-on:', result.message);
+    return false;
+  }
+  return true;
+}
+
+function Extension() {
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
+  const [addingKey, setAddingKey] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Some checkouts (e.g. draft order invoices) can't add lines
+  if (!shopify.instructions.value.lines.canAddCartLine) {
+    return null;
+  }
+
+  const lines = shopify.lines.value;
+  const settings = shopify.settings.value;
+  const maxOffers = Number(settings.max_offers) || DEFAULT_MAX_OFFERS;
+  const offers = buildOffers(lines, maxOffers);
+  if (offers.length === 0) {
+    return null;
+  }
+
+  const mainLineCount = new Set(offers.map((offer) => offer.line.id)).size;
+
+  async function handleAdd(offer: Offer) {
+    setAddingKey(offer.key);
+    setFailed(false);
+    const variantId = selectedVariants[offer.key] ?? offer.addOn.selectedVariants[0].shopifyVariantId;
+    const added = await addOffer(offer, variantId);
+    setFailed(!added);
+    setAddingKey(null);
+  }
+
+  return (
+    <s-section heading={String(settings.heading || shopify.i18n.translate('heading'))}>
+      <s-stack gap="base">
+        {failed && <s-banner tone="critical">{shopify.i18n.translate('addFailed')}</s-banner>}
+        {offers.map((offer) => {
+          const { addOn } = offer;
+          const title = addOn.title || addOn.productTitle || '';
+          return (
+            <s-grid key={offer.key} gridTemplateColumns="auto 1fr auto" gap="base" alignItems="center">
+              <s-product-thumbnail src={addOn.imageUrl ?? undefined} alt={title} size="small" />
+              <s-stack gap="small-500">
+                <s-text type="strong">{title}</s-text>
+                {mainLineCount > 1 && (
+                  <s-text color="subdued">
+                    {shopify.i18n.translate('withProduct', { product: offer.line.merchandise.title })}
+                  </s-text>
+                )}
+                {addOn.discountLabel && <s-badge tone="neutral">{addOn.discountLabel}</s-badge>}
+                {addOn.selectedVariants.length > 1 && (
+                  <s-select
+                    label={shopify.i18n.translate('variant')}
+                    value={selectedVariants[offer.key] ?? addOn.selectedVariants[0].shopifyVariantId}
+                    onChange={(event) => {
+                      const value = (event.currentTarget as HTMLSelectElement).value;
+                      setSelectedVariants((current) => ({ ...current, [offer.key]: value }));
+                    }}
+                  >
+                    {addOn.selectedVariants.map((variant) => (
+                      <s-option key={variant.shopifyVariantId} value={variant.shopifyVariantId}>
+                        {variant.variantTitle || title}
+                      </s-option>
+                    ))}
+                  </s-select>
+                )}
+              </s-stack>
+              <s-button
+                variant="secondary"
+                loading={addingKey === offer.key}
+                disabled={addingKey !== null && addingKey !== offer.key}
+                onClick={() => handleAdd(offer)}
+              >
+                {shopify.i18n.translate('add')}
+              </s-button>
+            </s-grid>
+          );
+        })}
+      </s-stack>
+    </s-section>
+  );
+}
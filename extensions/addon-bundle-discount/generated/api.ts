@@ -3069,12 +3069,16 @@ export enum WeightUnit {
   Pounds = 'POUNDS'
 }
 
-export type DeliveryInputVariables = Exact<{ [key: string]: never; }>;
+export type DeliveryInputVariables = Exact<{
+  customerTags?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
 
 
-export type DeliveryInput = { __typename?: 'Input', cart: { __typename?: 'Cart', deliveryGroups: Array<{ __typename?: 'CartDeliveryGroup', id: string }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass> } };
+export type DeliveryInput = { __typename?: 'Input', cart: { __typename?: 'Cart', buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', hasAnyTag: boolean } | null, purchasingCompany?: { __typename?: 'PurchasingCompany', company: { __typename?: 'Company', id: string } } | null } | null, lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, addonBundleId?: { __typename?: 'Attribute', value?: string | null } | null, addonMainProduct?: { __typename?: 'Attribute', value?: string | null } | null, bundleGroupId?: { __typename?: 'Attribute', value?: string | null } | null, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', id: string, product: { __typename?: 'Product', id: string } } }>, deliveryGroups: Array<{ __typename?: 'CartDeliveryGroup', id: string, cartLines: Array<{ __typename?: 'CartLine', id: string }> }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass>, metafield?: { __typename?: 'Metafield', value: string } | null } };
 
-export type CartInputVariables = Exact<{ [key: string]: never; }>;
+export type CartInputVariables = Exact<{
+  customerTags?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
 
 
-export type CartInput = { __typename?: 'Input', cart: { __typename?: 'Cart', lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, cost: { __typename?: 'CartLineCost', amountPerQuantity: { __typename?: 'MoneyV2', amount: any } }, addonBundleId?: { __typename?: 'Attribute', value?: string | null } | null, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', id: string, product: { __typename?: 'Product', id: string } }, sellingPlanAllocation?: { __typename?: 'SellingPlanAllocation', sellingPlan: { __typename?: 'SellingPlan', id: string } } | null }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass>, metafield?: { __typename?: 'Metafield', value: string } | null } };
+export type CartInput = { __typename?: 'Input', presentmentCurrencyRate: any, cart: { __typename?: 'Cart', buyerIdentity?: { __typename?: 'BuyerIdentity', customer?: { __typename?: 'Customer', hasAnyTag: boolean } | null, purchasingCompany?: { __typename?: 'PurchasingCompany', company: { __typename?: 'Company', id: string } } | null } | null, lines: Array<{ __typename?: 'CartLine', id: string, quantity: number, cost: { __typename?: 'CartLineCost', amountPerQuantity: { __typename?: 'MoneyV2', amount: any, currencyCode: CurrencyCode } }, addonBundleId?: { __typename?: 'Attribute', value?: string | null } | null, addonMainProduct?: { __typename?: 'Attribute', value?: string | null } | null, bundleGroupId?: { __typename?: 'Attribute', value?: string | null } | null, merchandise: { __typename: 'CustomProduct' } | { __typename: 'ProductVariant', id: string, product: { __typename?: 'Product', id: string } }, sellingPlanAllocation?: { __typename?: 'SellingPlanAllocation', sellingPlan: { __typename?: 'SellingPlan', id: string } } | null }> }, discount: { __typename?: 'Discount', discountClasses: Array<DiscountClass>, metafield?: { __typename?: 'Metafield', value: string } | null } };
@@ -1,16 +1,170 @@
 import {
-  DeliveryInput,
+  DiscountClass,
+  DeliveryDiscountSelectionStrategy,
   CartDeliveryOptionsDiscountsGenerateRunResult,
+  DeliveryDiscountCandidate,
 } from "../generated/api";
+import {
+  BundleCartLine,
+  buildMainLineIndex,
+  countAddOnsByMainLine,
+  filterByMainVariant,
+  filterByPrerequisites,
+  getMainLineKey,
+} from "./bundle_cart_lines";
+import { BuyerIdentity, CustomerEligibility, isBuyerEligible } from "./customer_eligibility";
+
+/**
+ * Shipping perk configuration from discount metafield
+ * This matches the structure from buildDiscountConfig in metafield.sync.ts
+ */
+interface ShippingPerkConfig {
+  minAddOns: number;
+  percentage: number; // 100 = free shipping
+  message: string;
+}
+
+interface BundleConfig {
+  bundleId: string;
+  addOns: Array<{
+    addOnId: string;
+    targetVariantIds: string[];
+    mainVariantIds?: string[]; // Empty = offered with every main product variant
+    requiresAddOnIds?: string[]; // Add-ons that must be in the same bundle group
+  }>;
+  shippingPerk?: ShippingPerkConfig | null;
+  customerEligibility?: CustomerEligibility;
+}
+
+/**
+ * Input types for the function
+ */
+interface CartLine extends BundleCartLine {
+  id: string;
+}
+
+interface FunctionInput {
+  cart: {
+    buyerIdentity?: BuyerIdentity | null;
+    lines: CartLine[];
+    deliveryGroups: Array<{
+      id: string;
+      cartLines: Array<{ id: string }>;
+    }>;
+  };
+  discount: {
+    metafield?: {
+      value: string;
+    } | null;
+    discountClasses: DiscountClass[];
+  };
+}
 
 /**
  * Delivery options discount function for add-on bundles.
- * Currently not used - add-on bundles only apply product discounts.
- * This target is required by the extension but returns no operations.
+ * Applies the bundle's shipping perk (free or discounted shipping) to delivery
+ * groups containing a main product with at least N of its add-ons.
  */
 export function cartDeliveryOptionsDiscountsGenerateRun(
-  _input: DeliveryInput,
+  input: FunctionInput,
 ): CartDeliveryOptionsDiscountsGenerateRunResult {
-  // Add-on bundles don't apply shipping discounts
-  return { operations: [] };
-}
\ No newline at end of file
+  console.error("[AddonDiscount] Delivery function called");
+
+  if (!input.cart.deliveryGroups.length) {
+    return { operations: [] };
+  }
+
+  if (!input.discount.discountClasses.includes(DiscountClass.Shipping)) {
+    console.error("[AddonDiscount] No shipping discount class, returning empty");
+    return { operations: [] };
+  }
+
+  const metafieldValue = input.discount.metafield?.value;
+  if (!metafieldValue) {
+    return { operations: [] };
+  }
+
+  let config: BundleConfig;
+  try {
+    config = JSON.parse(metafieldValue) as BundleConfig;
+  } catch (e) {
+    console.error("[AddonDiscount] Failed to parse config:", e);
+    return { operations: [] };
+  }
+
+  const perk = config.shippingPerk;
+  if (!perk || !perk.percentage) {
+    console.error("[AddonDiscount] No shipping perk configured, returning empty");
+    return { operations: [] };
+  }
+
+  if (!isBuyerEligible(config.customerEligibility, input.cart.buyerIdentity)) {
+    console.error("[AddonDiscount] Buyer not eligible:", config.customerEligibility);
+    return { operations: [] };
+  }
+
+  // Add-on variants belonging to this bundle
+  const addOnVariants = new Map<string, BundleConfig["addOns"][number]>();
+  for (const addOn of config.addOns ?? []) {
+    for (const variantId of addOn.targetVariantIds) {
+      addOnVariants.set(variantId, addOn);
+    }
+  }
+
+  // Add-ons restricted to other main product variants or missing a required add-on
+  // don't count towards the perk
+  const lines = filterByPrerequisites(
+    filterByMainVariant(input.cart.lines, (variantId) => addOnVariants.get(variantId)?.mainVariantIds),
+    (variantId) => addOnVariants.get(variantId),
+  );
+
+  // Count add-ons per main line and collect the add-on lines that unlock the perk
+  const mainLines = buildMainLineIndex(lines);
+  const addOnCounts = countAddOnsByMainLine(lines, addOnVariants, mainLines);
+
+  const qualifyingLineIds = new Set<string>();
+  for (const line of lines) {
+    const key = getMainLineKey(line);
+    if (!line.addonBundleId?.value || !key || !line.merchandise.id || !addOnVariants.has(line.merchandise.id)) {
+      continue;
+    }
+    if ((addOnCounts.get(key) ?? 0) >= perk.minAddOns) {
+      qualifyingLineIds.add(line.id);
+    }
+  }
+
+  console.error("[AddonDiscount] Lines unlocking shipping perk:", qualifyingLineIds.size);
+
+  const candidates: DeliveryDiscountCandidate[] = input.cart.deliveryGroups
+    .filter((group) => group.cartLines.some((line) => qualifyingLineIds.has(line.id)))
+    .map((group) => ({
+      message: perk.message,
+      targets: [
+        {
+          deliveryGroup: {
+            id: group.id,
+          },
+        },
+      ],
+      value: {
+        percentage: {
+          value: Math.min(100, perk.percentage),
+        },
+      },
+    }));
+
+  if (candidates.length === 0) {
+    return { operations: [] };
+  }
+
+  return {
+    operations: [
+      {
+        deliveryDiscountsAdd: {
+          candidates,
+          selectionStrategy: DeliveryDiscountSelectionStrategy.All,
+        },
+      },
+    ],
+  };
+}
@@ -2,68 +2,59 @@ import {
   DiscountClass,
   ProductDiscountSelectionStrategy,
   CartLinesDiscountsGenerateRunResult,
+  CartOperation,
+  OrderDiscountCandidate,
+  OrderDiscountSelectionStrategy,
   ProductDiscountCandidate,
-  ProductDiscountCandidateValue,
 } from '../generated/api';
+import {
+  AddOnConfig,
+  DiscountTier,
+  PricedCartLine,
+  buildVariantToAddOn,
+  priceAddOnLines,
+} from './addon_pricing';
+import {
+  buildMainLineIndex,
+  filterByMainVariant,
+  filterByPrerequisites,
+  getMainLineKey,
+  getMainQuantity,
+  mainLineMatchesKey,
+} from './bundle_cart_lines';
+import { BuyerIdentity, CustomerEligibility, isBuyerEligible } from './customer_eligibility';
 
 /**
- * Add-on configuration from discount metafield
- * This matches the structure from buildDiscountConfig in metafield.sync.ts
+ * Order discount applied when every required add-on is in the cart with its main product
  */
-interface AddOnConfig {
-  addOnId: string;
-  productTitle: string;
-  imageUrl: string | null;
-  title: string | null;
-  targetVariantIds: string[]; // Array of variant GIDs
-  discountType: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FIXED_PRICE' | 'FREE_GIFT';
-  discountValue: number | null;
-  discountLabel: string | null;
-  isDefaultSelected: boolean;
-  subscriptionOnly: boolean;
-  showQuantitySelector: boolean;
-  maxQuantity: number;
+interface CompleteBundleConfig {
+  requiredAddOnIds: string[];
+  discountType: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  discountValue: number;
   message: string;
 }
 
 interface BundleConfig {
   bundleId: string;
   addOns: AddOnConfig[];
+  tiers?: DiscountTier[]; // Sorted by minAddOns ascending
+  completeBundle?: CompleteBundleConfig | null;
+  customerEligibility?: CustomerEligibility;
+  pricingEngine?: 'DISCOUNT_FUNCTION' | 'CART_TRANSFORM'; // CART_TRANSFORM: add-on prices are set by the cart transform
   selectionStrategy: 'FIRST' | 'ALL';
 }
 
 /**
  * Input types for the function
  */
-interface CartLine {
-  id: string;
-  quantity: number;
-  cost: {
-    amountPerQuantity: {
-      amount: string;
-    };
-  };
-  addonBundleId?: {
-    value: string;
-  } | null;
-  merchandise: {
-    __typename: string;
-    id?: string;
-    product?: {
-      id: string;
-    };
-  };
-  sellingPlanAllocation?: {
-    sellingPlan: {
-      id: string;
-    };
-  } | null;
-}
+type CartLine = PricedCartLine;
 
 interface FunctionInput {
   cart: {
+    buyerIdentity?: BuyerIdentity | null;
     lines: CartLine[];
   };
+  presentmentCurrencyRate?: string; // Shop currency to presentment currency
   discount: {
     metafield?: {
       value: string;
@@ -72,6 +63,86 @@ interface FunctionInput {
   };
 }
 
+/**
+ * Build the order discount for completed bundles: the discount applies to the
+ * subtotal of the main and add-on lines of every bundle group that contains
+ * all required add-ons
+ */
+function buildCompleteBundleCandidate(
+  lines: CartLine[],
+  completeBundle: CompleteBundleConfig,
+  variantToAddOn: Map<string, AddOnConfig>,
+  mainLines: ReturnType<typeof buildMainLineIndex>,
+  currencyRate: number,
+): OrderDiscountCandidate | null {
+  if (!completeBundle.requiredAddOnIds.length || !completeBundle.discountValue) {
+    return null;
+  }
+
+  // Add-ons (and their lines) present per main line
+  const addOnsByKey = new Map<string, { addOnIds: Set<string>; lineIds: string[] }>();
+  for (const line of lines) {
+    const addOn = line.merchandise.id ? variantToAddOn.get(line.merchandise.id) : undefined;
+    if (!line.addonBundleId?.value || !addOn || getMainQuantity(line, mainLines) === 0) {
+      continue;
+    }
+
+    const key = getMainLineKey(line);
+    if (!key) {
+      continue;
+    }
+    const entry = addOnsByKey.get(key) ?? { addOnIds: new Set<string>(), lineIds: [] };
+    entry.addOnIds.add(addOn.addOnId);
+    entry.lineIds.push(line.id);
+    addOnsByKey.set(key, entry);
+  }
+
+  const bundledLineIds = new Set<string>();
+  let completedBundles = 0;
+  for (const [key, entry] of addOnsByKey) {
+    if (!completeBundle.requiredAddOnIds.every((addOnId) => entry.addOnIds.has(addOnId))) {
+      continue;
+    }
+    completedBundles++;
+    entry.lineIds.forEach((lineId) => bundledLineIds.add(lineId));
+    for (const line of lines) {
+      if (mainLineMatchesKey(line, key)) {
+        bundledLineIds.add(line.id);
+      }
+    }
+  }
+
+  console.error('[AddonDiscount] Completed bundles:', completedBundles);
+
+  if (completedBundles === 0) {
+    return null;
+  }
+
+  return {
+    message: completeBundle.message,
+    targets: [
+      {
+        orderSubtotal: {
+          excludedCartLineIds: lines
+            .filter((line) => !bundledLineIds.has(line.id))
+            .map((line) => line.id),
+        },
+      },
+    ],
+    value: completeBundle.discountType === 'FIXED_AMOUNT'
+      ? {
+          fixedAmount: {
+            amount: (completeBundle.discountValue * currencyRate * completedBundles).toFixed(2),
+          },
+        }
+      : {
+          percentage: {
+            value: completeBundle.discountValue,
+          },
+        },
+  };
+}
+
 export function cartLinesDiscountsGenerateRun(
   input: FunctionInput,
 ): CartLinesDiscountsGenerateRunResult {
@@ -91,10 +162,16 @@ export function cartLinesDiscountsGenerateRun(
     DiscountClass.Product,
   );
 
+  // Order class is only registered for bundles with a "complete the bundle" discount
+  const hasOrderDiscountClass = input.discount.discountClasses.includes(
+    DiscountClass.Order,
+  );
+
   console.error('[AddonDiscount] Has product discount class:', hasProductDiscountClass);
+  console.error('[AddonDiscount] Has order discount class:', hasOrderDiscountClass);
 
-  if (!hasProductDiscountClass) {
-    console.error('[AddonDiscount] No product discount class, returning empty');
+  if (!hasProductDiscountClass && !hasOrderDiscountClass) {
+    console.error('[AddonDiscount] No product or order discount class, returning empty');
     return { operations: [] };
   }
 
@@ -122,19 +199,21 @@ export function cartLinesDiscountsGenerateRun(
     return { operations: [] };
   }
 
-  // Build a map of variant ID to add-on config for quick lookup
-  const variantToAddOn = new Map<string, AddOnConfig>();
-  for (const addOn of config.addOns) {
-    console.error('[AddonDiscount] AddOn:', addOn.addOnId, 'targetVariantIds:', JSON.stringify(addOn.targetVariantIds));
-    for (const variantId of addOn.targetVariantIds) {
-      variantToAddOn.set(variantId, addOn);
-    }
+  // Tagged-customer or B2B-only bundles skip ineligible buyers entirely
+  if (!isBuyerEligible(config.customerEligibility, input.cart.buyerIdentity)) {
+    console.error('[AddonDiscount] Buyer not eligible:', config.customerEligibility);
+    return { operations: [] };
   }
 
+  // Build a map of variant ID to add-on config for quick lookup
+  const variantToAddOn = buildVariantToAddOn(config.addOns);
   console.error('[AddonDiscount] Variant map size:', variantToAddOn.size);
 
-  // Build discount candidates for cart lines that are add-ons
-  const candidates: ProductDiscountCandidate[] = [];
+  // Conversion rate for fixed amounts without a per-currency override
+  const currencyRate = parseFloat(input.presentmentCurrencyRate ?? '1') || 1;
+
+  // Index main product lines for the complete-the-bundle discount
+  const mainLines = buildMainLineIndex(input.cart.lines);
 
   // Debug: Log all cart lines
   for (const line of input.cart.lines) {
@@ -142,145 +221,86 @@ export function cartLinesDiscountsGenerateRun(
     console.error('[AddonDiscount]   - typename:', line.merchandise.__typename);
     console.error('[AddonDiscount]   - variantId:', line.merchandise.id);
     console.error('[AddonDiscount]   - addonBundleId:', line.addonBundleId?.value || 'NOT SET');
+    console.error('[AddonDiscount]   - addonMainProduct:', line.addonMainProduct?.value || 'NOT SET');
+    console.error('[AddonDiscount]   - bundleGroupId:', line.bundleGroupId?.value || 'NOT SET');
   }
 
-  for (const line of input.cart.lines) {
-    // Only process lines that have the _addon_bundle_id attribute
-    // This identifies them as add-on items added via the widget
-    if (!line.addonBundleId?.value) {
-      console.error('[AddonDiscount] Skipping line (no addonBundleId):', line.id);
-      continue;
-    }
-
-    console.error('[AddonDiscount] Processing add-on line:', line.id, 'bundleId:', line.addonBundleId.value);
+  // Product discounts only apply when the product class is registered, and
+  // not when the cart transform already sets add-on prices
+  const productLines = hasProductDiscountClass && config.pricingEngine !== 'CART_TRANSFORM'
+    ? input.cart.lines
+    : [];
 
-    // Only process ProductVariant merchandise
-    if (line.merchandise.__typename !== 'ProductVariant') {
-      console.error('[AddonDiscount] Skipping line (not ProductVariant):', line.id);
-      continue;
-    }
-
-    const variantId = line.merchandise.id;
-    if (!variantId) {
-      console.error('[AddonDiscount] Skipping line (no variantId):', line.id);
-      continue;
-    }
-
-    console.error('[AddonDiscount] Looking up variant:', variantId);
-
-    // Find the add-on config for this variant
-    const addOn = variantToAddOn.get(variantId);
-    if (!addOn) {
-      console.error('[AddonDiscount] No addOn config found for variant:', variantId);
-      console.error('[AddonDiscount] Available variants in map:', Array.from(variantToAddOn.keys()));
-      continue;
-    }
-
-    console.error('[AddonDiscount] Found addOn config:', addOn.addOnId, 'discountType:', addOn.discountType, 'discountValue:', addOn.discountValue);
-
-    // Skip if no discount configured
-    if (!addOn.discountType || (addOn.discountType !== 'FREE_GIFT' && !addOn.discountValue)) {
-      continue;
-    }
-
-    // Check subscription-only restriction
-    if (addOn.subscriptionOnly && !line.sellingPlanAllocation) {
-      continue;
-    }
-
-    // Calculate quantity to discount (respecting max quantity)
-    const quantityToDiscount = Math.min(line.quantity, addOn.maxQuantity || 99);
-
-    // Calculate discount value based on type
-    let discountValue: ProductDiscountCandidateValue;
-    const discountAmount = addOn.discountValue || 0;
-
-    switch (addOn.discountType) {
-      case 'PERCENTAGE':
-        discountValue = {
+  // Build discount candidates for cart lines that are add-ons
+  const candidates: ProductDiscountCandidate[] = priceAddOnLines(
+    productLines,
+    config.tiers,
+    variantToAddOn,
+    currencyRate,
+  ).map((price) => ({
+    message: price.message,
+    targets: [
+      {
+        cartLine: {
+          id: price.lineId,
+          quantity: price.quantity,
+        },
+      },
+    ],
+    value: 'percentage' in price.value
+      ? {
           percentage: {
-            value: discountAmount,
+            value: price.value.percentage,
           },
-        };
-        break;
-
-      case 'FIXED_AMOUNT':
-        discountValue = {
-          fixedAmount: {
-            amount: discountAmount.toString(),
-            appliesToEachItem: true,
-          },
-        };
-        break;
-
-      case 'FIXED_PRICE': {
-        // Calculate discount as: original price - target price
-        const originalPrice = parseFloat(line.cost.amountPerQuantity.amount);
-        const targetPrice = discountAmount;
-
-        // Only apply if target price is less than original
-        if (targetPrice >= originalPrice) {
-          continue;
         }
-
-        const amountOff = originalPrice - targetPrice;
-        discountValue = {
+      : {
           fixedAmount: {
-            amount: amountOff.toFixed(2),
+            amount: price.value.amountPerUnit.toFixed(2),
             appliesToEachItem: true,
           },
-        };
-        break;
-      }
-
-      case 'FREE_GIFT':
-        // 100% off for free gifts
-        discountValue = {
-          percentage: {
-            value: 100,
-          },
-        };
-        break;
+        },
+  }));
 
-      default:
-        continue;
-    }
+  console.error('[AddonDiscount] Total candidates created:', candidates.length);
 
-    // Create discount message
-    const message = addOn.discountLabel ||
-      (addOn.discountType === 'FREE_GIFT' ? 'Free Gift' : `Add-On Discount`);
-
-    candidates.push({
-      message,
-      targets: [
-        {
-          cartLine: {
-            id: line.id,
-            quantity: quantityToDiscount,
-          },
-        },
-      ],
-      value: discountValue,
+  const operations: CartOperation[] = [];
+  if (candidates.length > 0) {
+    console.error('[AddonDiscount] Returning', candidates.length, 'discount candidates');
+    operations.push({
+      productDiscountsAdd: {
+        candidates,
+        selectionStrategy: ProductDiscountSelectionStrategy.All,
+      },
     });
   }
 
-  // Return early if no discounts to apply
-  console.error('[AddonDiscount] Total candidates created:', candidates.length);
+  // Order discount for carts that contain a complete bundle
+  if (hasOrderDiscountClass && config.completeBundle) {
+    // Add-ons restricted to other main product variants or missing a required add-on
+    // don't complete the bundle
+    const orderCandidate = buildCompleteBundleCandidate(
+      filterByPrerequisites(
+        filterByMainVariant(input.cart.lines, (variantId) => variantToAddOn.get(variantId)?.mainVariantIds),
+        (variantId) => variantToAddOn.get(variantId),
+      ),
+      config.completeBundle,
+      variantToAddOn,
+      mainLines,
+      currencyRate,
+    );
+    if (orderCandidate) {
+      operations.push({
+        orderDiscountsAdd: {
+          candidates: [orderCandidate],
+          selectionStrategy: OrderDiscountSelectionStrategy.Maximum,
+        },
+      });
+    }
+  }
 
-  if (candidates.length === 0) {
+  if (operations.length === 0) {
     console.error('[AddonDiscount] No candidates, returning empty operations');
-    return { operations: [] };
   }
 
-  console.error('[AddonDiscount] Returning', candidates.length, 'discount candidates');
-  return {
-    operations: [
-      {
-        productDiscountsAdd: {
-          candidates,
-          selectionStrategy: ProductDiscountSelectionStrategy.All,
-        },
-      },
-    ],
-  };
+  return { operations };
 }
@@ -0,0 +1,36 @@
+/**
+ * Customer eligibility check shared by the discount targets
+ * (the cart transform keeps a copy in its src/customer_eligibility.ts)
+ * Tagged-customer bundles pass their tags to hasAnyTag via the function-input
+ * metafield, so the query already answers whether the customer matches
+ */
+
+export type CustomerEligibility = 'ALL_CUSTOMERS' | 'TAGGED_CUSTOMERS' | 'B2B_CUSTOMERS';
+
+/**
+ * Buyer identity fields both input queries select
+ */
+export interface BuyerIdentity {
+  customer?: {
+    hasAnyTag: boolean;
+  } | null;
+  purchasingCompany?: {
+    company: {
+      id: string;
+    };
+  } | null;
+}
+
+export function isBuyerEligible(
+  eligibility: CustomerEligibility | undefined,
+  buyerIdentity: BuyerIdentity | null | undefined,
+): boolean {
+  switch (eligibility) {
+    case 'TAGGED_CUSTOMERS':
+      return Boolean(buyerIdentity?.customer?.hasAnyTag);
+    case 'B2B_CUSTOMERS':
+      return Boolean(buyerIdentity?.purchasingCompany);
+    default:
+      return true;
+  }
+}
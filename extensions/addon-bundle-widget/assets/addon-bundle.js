@@ -1,6 +1,29 @@
 /**
  * Add-On Bundle Widget JavaScript
  * Handles selection state and adds selected add-ons to cart with main product
+ *
+ * Public API (for theme developers), available once the widget is initialized:
+ *   window.AddonBundle.getState()                      -> selection, main variant and totals
+ *   window.AddonBundle.select(addonId, { variantId, quantity }) -> true when selected
+ *   window.AddonBundle.deselect(addonId)                -> true when deselected
+ *   window.AddonBundle.addToCart({ variantId, quantity }) -> Promise of the cart response (null on failure)
+ *   window.AddonBundle.refresh()                        -> re-reads a re-rendered widget
+ *   window.AddonBundle.registerThemeAdapter(adapter)    -> adds a theme adapter (see THEME ADAPTERS)
+ *
+ * Earlier members, still available:
+ *   window.AddonBundle.getSelectedAddOns()              -> selected add-ons
+ *   window.AddonBundle.getBundleId()                    -> bundle ID of the widget
+ *   window.AddonBundle.checkOrphanedAddons()            -> removes add-ons whose main product left the cart
+ *   window.AddonBundle.isCartMonitoringEnabled()        -> whether cart monitoring is running
+ *   window.AddonBundle.addToCart(variantId, quantity)   -> same as addToCart({ variantId, quantity })
+ * getState() returns a snapshot instead of the internal state object: selectedAddOns
+ * is an array (no longer a Map) and changing the result has no effect.
+ *
+ * DOM events (CustomEvents dispatched on the widget, bubbling to document):
+ *   addon-bundle:ready            detail: state
+ *   addon-bundle:selection-change detail: { addonId, selected, state }
+ *   addon-bundle:added-to-cart    detail: { items, bundleGroupId, cart, state }
+ *   addon-bundle:error            detail: { message, error, state, failedAddOns? }
  */
 
 (function () {
@@ -14,8 +37,16 @@
     deleteAddonsOnMainDelete: false, // Per-bundle setting for Cart Transform
     showSoldOutLabel: false, // Show sold-out label for out-of-stock variants
     soldOutLabelText: 'Sold out', // Custom label text for sold-out items
+    tiers: [], // Tiered discounts sorted by minAddOns (from data-tiers)
+    displayMode: 'INLINE', // MODAL: widget opens in a modal after Add to Cart
+    mainVariantId: null, // Selected main product variant (numeric), for variant-specific add-ons
+    mainVariantPrices: {}, // Main product variant ID -> price in cents (from data-main-variant-prices)
+    minSelections: 0, // Add-ons required before adding to cart (from data-min-selections)
+    maxSelections: null, // Further checkboxes are disabled at this count (null = no limit)
+    updatingAvailability: false, // Guards updateAddOnAvailability against re-entry
     initialized: false,
     isInternalRequest: false, // Flag to prevent double-interception
+    skipNextSubmit: false, // Lets the theme handle the next product form submit (add-on modal declined)
   };
 
   /**
@@ -164,6 +195,90 @@
     console.log('[AddonBundle] Widget repositioned successfully');
   }
 
+  // Pending "Add selected" / "No thanks" choice while the add-on modal is open
+  let modalResolve = null;
+  let modalPromise = null;
+
+  /**
+   * Modal display mode: move the widget into a modal that opens after Add to Cart
+   */
+  function setupAddOnModal(widget) {
+    const modal = document.createElement('div');
+    modal.className = 'addon-bundle-modal';
+    modal.hidden = true;
+    modal.innerHTML = `
+      <div class="addon-bundle-modal__dialog" role="dialog" aria-modal="true">
+        <div class="addon-bundle-modal__body"></div>
+        <div class="addon-bundle-modal__footer">
+          <button type="button" class="addon-bundle-modal__decline">No thanks</button>
+          <button type="button" class="addon-bundle-modal__accept">Add selected</button>
+        </div>
+      </div>
+    `;
+
+    // The widget's style variables are set inline on the widget, the footer needs them too
+    const dialog = modal.querySelector('.addon-bundle-modal__dialog');
+    for (const property of Array.from(widget.style)) {
+      if (property.startsWith('--addon-')) {
+        dialog.style.setProperty(property, widget.style.getPropertyValue(property));
+      }
+    }
+
+    modal.querySelector('.addon-bundle-modal__body').appendChild(widget);
+    widget.hidden = false;
+    document.body.appendChild(modal);
+
+    // "Add selected" stays open until the required add-ons and the minimum are selected
+    modal.querySelector('.addon-bundle-modal__accept').addEventListener('click', () => {
+      if (rejectInvalidSelection()) return;
+      closeAddOnModal(true);
+    });
+    modal.querySelector('.addon-bundle-modal__decline').addEventListener('click', () => closeAddOnModal(false));
+    // Clicking the backdrop or pressing Escape counts as "No thanks"
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) closeAddOnModal(false);
+    });
+    document.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && !modal.hidden) closeAddOnModal(false);
+    });
+
+    console.log('[AddonBundle] Widget moved into add-on modal');
+  }
+
+  /**
+   * Open the add-on modal; resolves true for "Add selected", false for "No thanks"
+   */
+  function openAddOnModal() {
+    if (modalPromise) return modalPromise;
+
+    const modal = document.querySelector('.addon-bundle-modal');
+    if (!modal) return Promise.resolve(true);
+
+    modalPromise = new Promise(resolve => {
+      modalResolve = resolve;
+    });
+    modal.hidden = false;
+    document.body.classList.add('addon-bundle-modal-open');
+    modal.querySelector('.addon-bundle-modal__accept').focus();
+
+    return modalPromise;
+  }
+
+  /**
+   * Close the add-on modal and settle the pending choice
+   */
+  function closeAddOnModal(addSelected) {
+    const modal = document.querySelector('.addon-bundle-modal');
+    if (modal) modal.hidden = true;
+    document.body.classList.remove('addon-bundle-modal-open');
+
+    if (modalResolve) {
+      modalResolve(addSelected);
+    }
+    modalResolve = null;
+    modalPromise = null;
+  }
+
   /**
    * Initialize the widget
    */
@@ -173,28 +288,31 @@
     const widget = document.querySelector('.addon-bundle-widget');
     if (!widget) return;
 
-    // Auto-position widget near buy buttons for optimal UX
-    autoPositionWidget(widget);
+    state.displayMode = widget.dataset.displayMode === 'MODAL' ? 'MODAL' : 'INLINE';
 
-    state.bundleId = widget.dataset.bundleId;
-    state.productId = widget.dataset.productId;
-    state.deleteAddonsOnMainDelete = widget.dataset.deleteAddonsOnMainDelete === 'true';
-    state.showSoldOutLabel = widget.dataset.showSoldOutLabel === 'true';
-    state.soldOutLabelText = widget.dataset.soldOutLabelText || 'Sold out';
+    // Auto-position widget near buy buttons for optimal UX (modal mode moves it into the modal)
+    if (state.displayMode === 'MODAL') {
+      setupAddOnModal(widget);
+    } else {
+      autoPositionWidget(widget);
+    }
+
+    readWidgetData(widget);
     state.initialized = true;
 
     console.log('[AddonBundle] Widget initialized', {
       bundleId: state.bundleId,
+      displayMode: state.displayMode,
       deleteAddonsOnMainDelete: state.deleteAddonsOnMainDelete,
       showSoldOutLabel: state.showSoldOutLabel,
       soldOutLabelText: state.soldOutLabelText
     });
 
     // Setup all listeners
-    setupSelectionListeners();
-    setupVariantListeners();
-    setupQuantityListeners();
+    setupWidgetListeners(widget);
     initializeSelections();
+    setupMainVariantListeners();
+    updateBundleTotals();
 
     // Initialize countdown timer if present
     initCountdownTimer();
@@ -207,6 +325,37 @@
 
     // Start cart monitoring for auto-removal of orphaned add-ons
     initCartMonitoring();
+
+    dispatchWidgetEvent('ready', getPublicState());
+  }
+
+  /**
+   * Read the bundle settings rendered on the widget element
+   */
+  function readWidgetData(widget) {
+    state.bundleId = widget.dataset.bundleId;
+    state.productId = widget.dataset.productId;
+    state.deleteAddonsOnMainDelete = widget.dataset.deleteAddonsOnMainDelete === 'true';
+    state.showSoldOutLabel = widget.dataset.showSoldOutLabel === 'true';
+    state.soldOutLabelText = widget.dataset.soldOutLabelText || 'Sold out';
+    state.tiers = parseTiers(widget);
+    state.mainVariantId = widget.dataset.mainVariantId || null;
+    state.mainVariantPrices = parseMainVariantPrices(widget);
+    state.minSelections = parseInt(widget.dataset.minSelections) || 0;
+    state.maxSelections = parseInt(widget.dataset.maxSelections) || null;
+  }
+
+  /**
+   * Attach the listeners of the widget's add-on items
+   * (marked on the widget so a re-rendered widget gets them again on refresh)
+   */
+  function setupWidgetListeners(widget) {
+    setupSelectionListeners();
+    setupVariantListeners();
+    setupQuantityListeners();
+    setupTabListeners();
+    setupCarousels();
+    widget.dataset.listenersAttached = 'true';
   }
 
   /**
@@ -254,6 +403,7 @@
     });
 
     await Promise.all(fetchPromises);
+    updateBundleTotals();
     console.log('[AddonBundle] Market prices updated');
   }
 
@@ -315,54 +465,17 @@
       // Get discount info from the input element
       const input = item.querySelector('.addon-item__input');
       const discountType = input?.dataset.discountType;
-      const discountValue = parseFloat(input?.dataset.discountValue) || 0;
+      const discountValue = getPresentmentDiscountValue(input);
 
       // Calculate discounted price
-      let discountedPrice = marketPrice;
-      let hasDiscount = false;
-
-      switch (discountType) {
-        case 'PERCENTAGE':
-          if (discountValue > 0) {
-            discountedPrice = marketPrice - (marketPrice * discountValue / 100);
-            hasDiscount = true;
-          }
-          break;
-        case 'FIXED_AMOUNT':
-          if (discountValue > 0) {
-            discountedPrice = Math.max(0, marketPrice - discountValue);
-            hasDiscount = true;
-          }
-          break;
-        case 'FIXED_PRICE':
-          discountedPrice = discountValue;
-          hasDiscount = true;
-          break;
-        case 'FREE_GIFT':
-          discountedPrice = 0;
-          hasDiscount = true;
-          break;
-      }
+      const { discountedPrice, hasDiscount } = calculateDiscountedPrice(marketPrice, discountType, discountValue);
 
       item.dataset.discountedPrice = discountedPrice;
 
       // Update the price display in the DOM
       const priceRow = item.querySelector('.addon-item__price-row');
       if (priceRow) {
-        // Format prices using the shop's currency format
-        const formattedOriginal = formatMoney(marketPrice * 100);
-        const formattedDiscounted = discountedPrice === 0 ? 'FREE' : formatMoney(discountedPrice * 100);
-
-        if (hasDiscount) {
-          priceRow.innerHTML = `
-            <span class="addon-item__price addon-item__price--original">${formattedOriginal}</span>
-            <span class="addon-item__price addon-item__price--discounted">${formattedDiscounted}</span>
-          `;
-        } else {
-          priceRow.innerHTML = `
-            <span class="addon-item__price">${formattedOriginal}</span>
-          `;
-        }
+        renderPriceRow(priceRow, marketPrice, discountedPrice, hasDiscount);
       }
 
       // Update sold-out state dynamically based on real-time inventory
@@ -478,6 +591,100 @@
     }
   }
 
+  /**
+   * Get an input's discount value in the storefront's active currency
+   * FIXED_AMOUNT/FIXED_PRICE values are stored in the shop's currency: use the
+   * merchant's override for the active currency, otherwise convert with the
+   * storefront's rate (matches the discount function)
+   */
+  function getPresentmentDiscountValue(input) {
+    const discountType = input?.dataset.discountType;
+    const discountValue = parseFloat(input?.dataset.discountValue) || 0;
+    if (discountType !== 'FIXED_AMOUNT' && discountType !== 'FIXED_PRICE') {
+      return discountValue;
+    }
+
+    let currencyValues = {};
+    try {
+      currencyValues = JSON.parse(input.dataset.currencyValues || '{}') || {};
+    } catch (e) {
+      console.warn('[AddonBundle] Invalid currency values:', input.dataset.currencyValues);
+    }
+
+    return toPresentmentDiscountValue(discountType, discountValue, currencyValues);
+  }
+
+  /**
+   * Convert a config discount value to the storefront's active currency
+   * (see getPresentmentDiscountValue)
+   */
+  function toPresentmentDiscountValue(discountType, discountValue, currencyValues) {
+    if (discountType !== 'FIXED_AMOUNT' && discountType !== 'FIXED_PRICE') {
+      return discountValue;
+    }
+
+    const activeCurrency = window.Shopify?.currency?.active;
+    if (activeCurrency && currencyValues?.[activeCurrency] !== undefined) {
+      return parseFloat(currencyValues[activeCurrency]) || 0;
+    }
+
+    const rate = parseFloat(window.Shopify?.currency?.rate) || 1;
+    return discountValue * rate;
+  }
+
+  /**
+   * Apply an add-on discount to a price (in dollars, not cents)
+   */
+  function calculateDiscountedPrice(originalPrice, discountType, discountValue) {
+    let discountedPrice = originalPrice;
+    let hasDiscount = false;
+
+    switch (discountType) {
+      case 'PERCENTAGE':
+        if (discountValue > 0) {
+          discountedPrice = originalPrice - (originalPrice * discountValue / 100);
+          hasDiscount = true;
+        }
+        break;
+      case 'FIXED_AMOUNT':
+        if (discountValue > 0) {
+          discountedPrice = Math.max(0, originalPrice - discountValue);
+          hasDiscount = true;
+        }
+        break;
+      case 'FIXED_PRICE':
+        discountedPrice = discountValue;
+        hasDiscount = true;
+        break;
+      case 'FREE_GIFT':
+        discountedPrice = 0;
+        hasDiscount = true;
+        break;
+    }
+
+    return { discountedPrice, hasDiscount };
+  }
+
+  /**
+   * Render original and discounted prices into a price row
+   */
+  function renderPriceRow(priceRow, originalPrice, discountedPrice, hasDiscount) {
+    // Format prices (convert to cents for formatMoney)
+    const formattedOriginal = formatMoney(originalPrice * 100);
+    const formattedDiscounted = discountedPrice === 0 ? 'FREE' : formatMoney(discountedPrice * 100);
+
+    if (hasDiscount) {
+      priceRow.innerHTML = `
+        <span class="addon-item__price addon-item__price--original">${formattedOriginal}</span>
+        <span class="addon-item__price addon-item__price--discounted">${formattedDiscounted}</span>
+      `;
+    } else {
+      priceRow.innerHTML = `
+        <span class="addon-item__price">${formattedOriginal}</span>
+      `;
+    }
+  }
+
   /**
    * Format money using Shopify's money format
    * Falls back to basic formatting if Shopify.formatMoney is not available
@@ -557,8 +764,8 @@
    */
   function initializeSelections() {
     // Auto-select all FREE_GIFT items (they are always included)
-    // But skip sold-out FREE_GIFT items
-    document.querySelectorAll('.addon-item--free-gift').forEach(addonItem => {
+    // But skip sold-out FREE_GIFT items and those for other main product variants
+    document.querySelectorAll('.addon-item--free-gift:not([hidden])').forEach(addonItem => {
       // Skip sold-out free gifts
       if (addonItem.dataset.soldOut === 'true' || addonItem.dataset.allVariantsSoldOut === 'true') {
         console.log('[AddonBundle] Skipping sold-out FREE_GIFT:', addonItem.dataset.addonId);
@@ -574,6 +781,11 @@
       const addonItem = input.closest('.addon-item');
       // Skip if it's a free gift (already handled above) or sold out
       if (addonItem && !addonItem.classList.contains('addon-item--free-gift')) {
+        // Skip items restricted to another main product variant
+        if (addonItem.hidden) {
+          input.checked = false;
+          return;
+        }
         // Skip sold-out items
         if (addonItem.dataset.soldOut === 'true' || addonItem.dataset.allVariantsSoldOut === 'true') {
           input.checked = false;
@@ -585,6 +797,7 @@
     });
 
     console.log('[AddonBundle] Initial selections:', state.selectedAddOns.size);
+    updateTierProgress();
   }
 
   /**
@@ -693,6 +906,197 @@
       addonItem.classList.remove('addon-item--selected');
       state.selectedAddOns.delete(addonId);
     }
+
+    // Enforce the add-on rules: exclusions, then add-ons requiring this one
+    if (isSelected) {
+      deselectExcludedAddOns(addonItem);
+    }
+    updateAddOnAvailability();
+
+    updateSelectionLimits();
+    updateTierProgress();
+    updateBundleTotals();
+
+    dispatchWidgetEvent('selection-change', { addonId, selected: isSelected, state: getPublicState() });
+  }
+
+  /**
+   * Read tiered discount definitions from the progress element
+   */
+  function parseTiers(widget) {
+    const progress = widget.querySelector('.addon-bundle-widget__tier-progress');
+    if (!progress || !progress.dataset.tiers) return [];
+
+    try {
+      const tiers = JSON.parse(progress.dataset.tiers);
+      return Array.isArray(tiers) ? tiers.sort((a, b) => a.minAddOns - b.minAddOns) : [];
+    } catch (error) {
+      console.error('[AddonBundle] Failed to parse tiers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Update the "add 1 more to unlock" message for tiered discounts
+   * Counts distinct selected add-ons, matching the discount function
+   */
+  function updateTierProgress() {
+    const progress = document.querySelector('.addon-bundle-widget__tier-progress');
+    if (!progress || state.tiers.length === 0) return;
+
+    const count = state.selectedAddOns.size;
+    const unlocked = state.tiers.filter(tier => count >= tier.minAddOns).pop();
+    const next = state.tiers.find(tier => count < tier.minAddOns);
+
+    let message = '';
+    if (next) {
+      const remaining = next.minAddOns - count;
+      const addMore = `Add ${remaining} more add-on${remaining === 1 ? '' : 's'} to unlock ${next.message}`;
+      message = unlocked ? `${unlocked.message} unlocked! ${addMore}` : addMore;
+    } else if (unlocked) {
+      message = `${unlocked.message} unlocked!`;
+    }
+
+    progress.textContent = message;
+    progress.classList.toggle('addon-bundle-widget__tier-progress--complete', !next && !!unlocked);
+  }
+
+  /**
+   * Read the main product variant prices (cents) rendered by the block
+   */
+  function parseMainVariantPrices(widget) {
+    if (!widget.dataset.mainVariantPrices) return {};
+
+    try {
+      return JSON.parse(widget.dataset.mainVariantPrices) || {};
+    } catch (error) {
+      console.error('[AddonBundle] Failed to parse main variant prices:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Price of one unit of a selected add-on in cents, before and after its discount
+   * Same rules as the discount function: an unlocked tier replaces the add-on's
+   * own discount (free gifts stay free) and a fixed price that isn't lower than
+   * the price is ignored
+   */
+  function getAddOnUnitPrice(addonItem, tier) {
+    const originalPrice = parseFloat(addonItem.dataset.originalPrice) || 0;
+    const input = addonItem.querySelector('.addon-item__input');
+    let discountType = input?.dataset.discountType;
+    let discountValue = getPresentmentDiscountValue(input);
+
+    if (tier && discountType !== 'FREE_GIFT') {
+      discountType = tier.discountType;
+      discountValue = toPresentmentDiscountValue(tier.discountType, tier.discountValue, {});
+    }
+    if (discountType === 'FIXED_PRICE' && discountValue >= originalPrice) {
+      discountType = null;
+    }
+
+    const { discountedPrice } = calculateDiscountedPrice(originalPrice, discountType, discountValue);
+    return {
+      original: Math.round(originalPrice * 100),
+      discounted: Math.round(discountedPrice * 100),
+    };
+  }
+
+  /**
+   * How many units of a selected add-on get its discount, with the discount
+   * function's limits: the max quantity, the add-ons per main product unit
+   * (times the product form's quantity) and subscription-only discounts
+   */
+  function getDiscountedAddOnQuantity(addonItem, quantity, mainForm) {
+    const input = addonItem.querySelector('.addon-item__input');
+    if (input?.dataset.subscriptionOnly === 'true' && !mainForm.sellingPlan) {
+      return 0;
+    }
+
+    let discountedQuantity = Math.min(quantity, parseInt(input?.dataset.maxQuantity) || 99);
+    const addOnsPerMainUnit = parseInt(input?.dataset.addonsPerMainUnit);
+    if (addOnsPerMainUnit) {
+      discountedQuantity = Math.min(discountedQuantity, addOnsPerMainUnit * mainForm.quantity);
+    }
+    return discountedQuantity;
+  }
+
+  /**
+   * Main product + selected add-ons, in cents of the storefront's currency
+   */
+  function calculateBundleTotal() {
+    const prices = Object.values(state.mainVariantPrices);
+    const mainPrice = state.mainVariantPrices[state.mainVariantId] ?? prices[0] ?? 0;
+
+    // Tiers are unlocked by the number of distinct add-ons (see updateTierProgress)
+    const tier = state.tiers.filter(t => state.selectedAddOns.size >= t.minAddOns).pop() || null;
+
+    const form = getMainProductForm();
+    const formData = form ? new FormData(form) : null;
+    const mainForm = {
+      quantity: parseInt(formData?.get('quantity')) || 1,
+      sellingPlan: formData?.get('selling_plan') || null,
+    };
+
+    let addOnsPrice = 0;
+    let savings = 0;
+    state.selectedAddOns.forEach((selection, addonId) => {
+      const addonItem = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`);
+      if (!addonItem) return;
+
+      const { original, discounted } = getAddOnUnitPrice(addonItem, tier);
+      const quantity = selection.quantity || 1;
+      const discountedQuantity = getDiscountedAddOnQuantity(addonItem, quantity, mainForm);
+      addOnsPrice += discounted * discountedQuantity + original * (quantity - discountedQuantity);
+      savings += (original - discounted) * discountedQuantity;
+    });
+
+    return { mainPrice, addOnsPrice, savings, total: mainPrice + addOnsPrice };
+  }
+
+  /**
+   * Refresh every total shown by the widget after a selection, quantity,
+   * variant or price change
+   */
+  function updateBundleTotals() {
+    const totals = calculateBundleTotal();
+    updateBundleSummary(totals);
+    updateFrequentlyBoughtTogether(totals);
+  }
+
+  /**
+   * Update the summary row under the add-on list
+   */
+  function updateBundleSummary(totals) {
+    const summary = document.querySelector('.addon-bundle-widget__summary');
+    if (!summary) return;
+
+    summary.querySelector('[data-summary-main]').textContent = formatMoney(totals.mainPrice);
+    summary.querySelector('[data-summary-addons]').textContent = formatMoney(totals.addOnsPrice);
+    summary.querySelector('[data-summary-total]').textContent = formatMoney(totals.total);
+
+    const savings = summary.querySelector('[data-summary-savings]');
+    savings.textContent = `You save ${formatMoney(totals.savings)}`;
+    savings.hidden = totals.savings <= 0;
+  }
+
+  /**
+   * Update the frequently bought together strip: dim unselected add-ons, hide
+   * unavailable ones and show the main product + selected add-ons total
+   */
+  function updateFrequentlyBoughtTogether(totals) {
+    const strip = document.querySelector('.addon-bundle-fbt');
+    if (!strip) return;
+
+    strip.querySelectorAll('.addon-bundle-fbt__product[data-addon-id]').forEach(product => {
+      const addonId = product.dataset.addonId;
+      const addonItem = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`);
+      product.hidden = !addonItem || addonItem.hidden;
+      product.classList.toggle('addon-bundle-fbt__product--unselected', !state.selectedAddOns.has(addonId));
+    });
+
+    const totalElement = strip.querySelector('[data-fbt-total]');
+    if (totalElement) totalElement.textContent = formatMoney(totals.total);
   }
 
   /**
@@ -746,52 +1150,16 @@
 
     const input = addonItem.querySelector('.addon-item__input');
     const discountType = input?.dataset.discountType;
-    const discountValue = parseFloat(input?.dataset.discountValue) || 0;
+    const discountValue = getPresentmentDiscountValue(input);
 
-    let discountedPrice = originalPrice;
-    let hasDiscount = false;
-
-    switch (discountType) {
-      case 'PERCENTAGE':
-        if (discountValue > 0) {
-          discountedPrice = originalPrice - (originalPrice * discountValue / 100);
-          hasDiscount = true;
-        }
-        break;
-      case 'FIXED_AMOUNT':
-        if (discountValue > 0) {
-          discountedPrice = Math.max(0, originalPrice - discountValue);
-          hasDiscount = true;
-        }
-        break;
-      case 'FIXED_PRICE':
-        discountedPrice = discountValue;
-        hasDiscount = true;
-        break;
-      case 'FREE_GIFT':
-        discountedPrice = 0;
-        hasDiscount = true;
-        break;
-    }
+    const { discountedPrice, hasDiscount } = calculateDiscountedPrice(originalPrice, discountType, discountValue);
 
     // Update data attributes
     addonItem.dataset.originalPrice = originalPrice;
     addonItem.dataset.discountedPrice = discountedPrice;
 
-    // Format prices (convert to cents for formatMoney)
-    const formattedOriginal = formatMoney(originalPrice * 100);
-    const formattedDiscounted = discountedPrice === 0 ? 'FREE' : formatMoney(discountedPrice * 100);
-
-    if (hasDiscount) {
-      priceRow.innerHTML = `
-        <span class="addon-item__price addon-item__price--original">${formattedOriginal}</span>
-        <span class="addon-item__price addon-item__price--discounted">${formattedDiscounted}</span>
-      `;
-    } else {
-      priceRow.innerHTML = `
-        <span class="addon-item__price">${formattedOriginal}</span>
-      `;
-    }
+    renderPriceRow(priceRow, originalPrice, discountedPrice, hasDiscount);
+    updateBundleTotals();
   }
 
   /**
@@ -806,27 +1174,359 @@
         if (selection) {
           selection.quantity = Math.max(1, parseInt(e.target.value) || 1);
         }
+        updateBundleTotals();
       });
     });
   }
 
   /**
-   * Override add to cart - the main function to intercept cart additions
+   * Setup product group tab listeners (rendered by addon-tabs.liquid)
+   * Selections persist across tabs - only visibility changes
    */
-  function overrideAddToCart() {
-    // Method 1: Override fetch to intercept AJAX cart requests
-    const originalFetch = window.fetch;
-    window.fetch = async function(url, options) {
-      const urlStr = typeof url === 'string' ? url : url.toString();
+  function setupTabListeners() {
+    document.querySelectorAll('.addon-tabs').forEach(tabs => {
+      const tabButtons = tabs.querySelectorAll('.addon-tabs__tab');
+      const panels = tabs.querySelectorAll('.addon-tabs__panel');
+
+      tabButtons.forEach(tab => {
+        tab.addEventListener('click', (e) => {
+          e.preventDefault();
+          const index = tab.dataset.tabIndex;
+
+          tabButtons.forEach(button => {
+            const isActive = button === tab;
+            button.classList.toggle('addon-tabs__tab--active', isActive);
+            button.setAttribute('aria-selected', isActive ? 'true' : 'false');
+          });
 
-      // Skip if this is our own internal request (prevents double-adding)
-      if (state.isInternalRequest) {
-        return originalFetch.apply(this, arguments);
+          panels.forEach(panel => {
+            const isActive = panel.id === `addon-panel-${index}`;
+            panel.classList.toggle('addon-tabs__panel--active', isActive);
+            panel.hidden = !isActive;
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Add prev/next buttons to carousel lists (the list itself scrolls and swipes natively)
+   */
+  function setupCarousels() {
+    document.querySelectorAll('.addon-bundle-widget__list--carousel').forEach(list => {
+      const carousel = document.createElement('div');
+      carousel.className = 'addon-bundle-carousel';
+      list.parentNode.insertBefore(carousel, list);
+      carousel.appendChild(list);
+
+      const createButton = (direction, label, text) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = `addon-bundle-carousel__button addon-bundle-carousel__button--${direction}`;
+        button.setAttribute('aria-label', label);
+        button.textContent = text;
+        button.addEventListener('click', (e) => {
+          e.preventDefault();
+          const distance = list.clientWidth * 0.8;
+          list.scrollBy({ left: direction === 'prev' ? -distance : distance, behavior: 'smooth' });
+        });
+        carousel.appendChild(button);
+        return button;
+      };
+      const prevButton = createButton('prev', 'Previous add-ons', '\u2039');
+      const nextButton = createButton('next', 'Next add-ons', '\u203A');
+
+      // Buttons are hidden at the ends and when everything fits
+      const updateButtons = () => {
+        prevButton.disabled = list.scrollLeft <= 1;
+        nextButton.disabled = list.scrollLeft + list.clientWidth >= list.scrollWidth - 1;
+      };
+      list.addEventListener('scroll', updateButtons, { passive: true });
+      if (window.ResizeObserver) {
+        new ResizeObserver(updateButtons).observe(list);
+      }
+      updateButtons();
+    });
+  }
+
+  /**
+   * Switch the add-ons to another main product variant
+   */
+  function applyMainVariant(variantId) {
+    variantId = extractNumericId(variantId);
+    if (!variantId || variantId === state.mainVariantId) return;
+    state.mainVariantId = variantId;
+
+    updateAddOnAvailability();
+    updateBundleTotals();
+    console.log('[AddonBundle] Main variant changed:', variantId, 'selected add-ons:', state.selectedAddOns.size);
+  }
+
+  /**
+   * Whether the add-on is offered with the selected main product variant
+   */
+  function isOfferedWithMainVariant(addonItem) {
+    const mainVariantIds = addonItem.dataset.mainVariantIds;
+    return !mainVariantIds || !state.mainVariantId || mainVariantIds.split(',').includes(state.mainVariantId);
+  }
+
+  /**
+   * Whether every add-on this add-on requires is selected
+   */
+  function hasRequiredAddOns(addonItem) {
+    const requires = addonItem.dataset.requires;
+    return !requires || requires.split(',').every(addonId => state.selectedAddOns.has(addonId));
+  }
+
+  /**
+   * Show only the add-ons available for the main variant and current selection
+   * Hidden add-ons are deselected (which can hide the add-ons requiring them);
+   * free gifts are included again when shown
+   */
+  function updateAddOnAvailability() {
+    if (state.updatingAvailability) return;
+    state.updatingAvailability = true;
+
+    try {
+      // Repeat until chained requirements settle (capped in case rules contradict each other)
+      for (let pass = 0; pass < 10; pass++) {
+        let changed = false;
+
+        document.querySelectorAll('.addon-item').forEach(addonItem => {
+          const available = isOfferedWithMainVariant(addonItem) && hasRequiredAddOns(addonItem);
+          if (available !== addonItem.hidden) return;
+          addonItem.hidden = !available;
+          changed = true;
+
+          if (!available) {
+            const input = addonItem.querySelector('.addon-item__input');
+            if (input && input.type !== 'hidden') input.checked = false;
+            updateSelectionState(addonItem, false);
+          } else if (
+            addonItem.classList.contains('addon-item--free-gift') &&
+            addonItem.dataset.soldOut !== 'true' &&
+            addonItem.dataset.allVariantsSoldOut !== 'true'
+          ) {
+            updateSelectionState(addonItem, true);
+          }
+        });
+
+        if (!changed) break;
+      }
+    } finally {
+      state.updatingAvailability = false;
+    }
+  }
+
+  /**
+   * Deselect the add-ons that can't be selected together with this one
+   */
+  function deselectExcludedAddOns(addonItem) {
+    const excludes = addonItem.dataset.excludes;
+    if (!excludes) return;
+
+    excludes.split(',').forEach(addonId => {
+      if (!state.selectedAddOns.has(addonId)) return;
+      const excludedItem = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`);
+      if (!excludedItem) return;
+
+      const input = excludedItem.querySelector('.addon-item__input');
+      if (input && input.type !== 'hidden') input.checked = false;
+      updateSelectionState(excludedItem, false);
+      console.log('[AddonBundle] Deselected excluded add-on:', addonId);
+    });
+  }
+
+  /**
+   * Whether the customer can select the add-on (shown and in stock)
+   */
+  function isSelectable(addonItem) {
+    return !addonItem.hidden &&
+      addonItem.dataset.soldOut !== 'true' &&
+      addonItem.dataset.allVariantsSoldOut !== 'true';
+  }
+
+  /**
+   * Number of add-ons the customer selected (free gifts are always included, so they don't count)
+   */
+  function getSelectionCount(selectedAddOns = state.selectedAddOns) {
+    let count = 0;
+    selectedAddOns.forEach((selection, addonId) => {
+      const addonItem = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`);
+      if (!addonItem?.classList.contains('addon-item--free-gift')) count++;
+    });
+    return count;
+  }
+
+  /**
+   * Why the selection can't be added to the cart, or null when it can
+   * Only add-ons the customer can currently select are required or counted
+   * towards the minimum
+   */
+  function getSelectionError(selectedAddOns = state.selectedAddOns) {
+    const missing = Array.from(document.querySelectorAll('.addon-item[data-required="true"]'))
+      .find(addonItem => isSelectable(addonItem) && !selectedAddOns.has(addonItem.dataset.addonId));
+    if (missing) {
+      const title = missing.querySelector('.addon-item__title')?.textContent.trim();
+      return title ? `Please select ${title}` : 'Please select the required add-ons';
+    }
+
+    // Items can appear in several tabs, so selectable add-ons are counted by ID
+    const selectableIds = new Set();
+    document.querySelectorAll('.addon-item:not(.addon-item--free-gift)').forEach(addonItem => {
+      if (isSelectable(addonItem)) selectableIds.add(addonItem.dataset.addonId);
+    });
+    const minSelections = Math.min(state.minSelections, selectableIds.size);
+    if (getSelectionCount(selectedAddOns) < minSelections) {
+      return `Please select at least ${minSelections} add-on${minSelections === 1 ? '' : 's'}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Disable the unselected checkboxes once the maximum is reached
+   */
+  function updateSelectionLimits() {
+    const limitReached = state.maxSelections !== null && getSelectionCount() >= state.maxSelections;
+
+    document.querySelectorAll('.addon-item:not(.addon-item--free-gift)').forEach(addonItem => {
+      const input = addonItem.querySelector('.addon-item__input');
+      if (!input || input.type !== 'checkbox') return;
+
+      const disabled = limitReached && !state.selectedAddOns.has(addonItem.dataset.addonId);
+      addonItem.classList.toggle('addon-item--limit-reached', disabled);
+      // Sold-out items stay disabled
+      if (addonItem.dataset.allVariantsSoldOut !== 'true') input.disabled = disabled;
+    });
+
+    // The blocked add to cart message goes away once the selection is complete
+    if (!getSelectionError()) showSelectionMessage(null);
+  }
+
+  /**
+   * Show (or clear, with null) the inline selection message
+   */
+  function showSelectionMessage(message) {
+    const element = document.querySelector('.addon-bundle-widget__selection-message');
+    if (!element) return;
+    element.textContent = message || '';
+    element.hidden = !message;
+  }
+
+  /**
+   * Block add to cart while required add-ons or the minimum are missing
+   * Returns true when blocked. Pass an empty selection when the customer
+   * declined the add-on modal.
+   */
+  function rejectInvalidSelection(selectedAddOns = state.selectedAddOns) {
+    const error = getSelectionError(selectedAddOns);
+    if (!error) return false;
+
+    console.log('[AddonBundle] Add to cart blocked:', error);
+    showSelectionMessage(error);
+
+    // The widget isn't visible when the add-on modal was dismissed
+    const widget = document.querySelector('.addon-bundle-widget');
+    if (widget && widget.offsetParent !== null) {
+      widget.querySelector('.addon-bundle-widget__selection-message')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      showNotification(error, true);
+    }
+    dispatchWidgetEvent('error', { message: error, error: null, state: getPublicState() });
+    return true;
+  }
+
+  /**
+   * Cart API style error for a blocked fetch to /cart/add, so themes show their usual error
+   */
+  function selectionErrorResponse(selectedAddOns = state.selectedAddOns) {
+    return new Response(
+      JSON.stringify({ status: 422, message: 'Cart Error', description: getSelectionError(selectedAddOns) }),
+      { status: 422, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  /**
+   * Follow the main product's variant picker so variant-specific add-ons and the
+   * bundle total are updated live (and its quantity and selling plan, which limit
+   * the add-on discounts)
+   * Themes either update the product form's variant input or the `variant` URL param
+   */
+  function setupMainVariantListeners() {
+    document.addEventListener('change', (e) => {
+      const input = e.target;
+      if (!input?.closest || !input.closest('form[action*="/cart/add"]') || input.closest('.addon-bundle-widget')) return;
+      if (input.name === 'id') {
+        applyMainVariant(input.value);
+      } else if (input.name === 'quantity' || input.name === 'selling_plan') {
+        updateBundleTotals();
+      }
+    });
+
+    const applyUrlVariant = () => {
+      const variantId = new URLSearchParams(window.location.search).get('variant');
+      if (variantId) applyMainVariant(variantId);
+    };
+
+    // Variant pickers update the URL without navigating
+    ['pushState', 'replaceState'].forEach(method => {
+      const original = history[method];
+      history[method] = function (...args) {
+        const result = original.apply(this, args);
+        applyUrlVariant();
+        return result;
+      };
+    });
+    window.addEventListener('popstate', applyUrlVariant);
+
+    applyUrlVariant();
+  }
+
+  /**
+   * Override add to cart - the main function to intercept cart additions
+   * The theme adapter decides how (see THEME ADAPTERS)
+   */
+  function overrideAddToCart() {
+    const adapter = getThemeAdapter();
+    installedThemeAdapter = adapter;
+    adapter.install();
+    console.log('[AddonBundle] Add to cart override installed, theme adapter:', adapter.name);
+  }
+
+  /**
+   * Intercept every add to cart request: fetch, XHR, form submits and button clicks
+   * (used by the fallback and section rendering adapters, while the adapter is installed)
+   */
+  function installRequestInterception(adapter) {
+    // Method 1: Override fetch to intercept AJAX cart requests
+    const originalFetch = window.fetch;
+    window.fetch = async function(url, options) {
+      const urlStr = typeof url === 'string' ? url : url.toString();
+
+      // Skip if this is our own internal request (prevents double-adding)
+      if (state.isInternalRequest || installedThemeAdapter !== adapter) {
+        return originalFetch.apply(this, arguments);
+      }
+
+      // Required add-ons and the minimum selection (checked after the modal in modal mode)
+      if (urlStr.includes('/cart/add') && state.displayMode !== 'MODAL' && rejectInvalidSelection()) {
+        return selectionErrorResponse();
       }
 
       // Intercept cart/add requests (always intercept if there are add-ons, including free gifts)
-      if (urlStr.includes('/cart/add') && (state.selectedAddOns.size > 0 || hasFreeGiftAddons())) {
+      if (urlStr.includes('/cart/add') && shouldInterceptCartAdd()) {
         console.log('[AddonBundle] Intercepting fetch to /cart/add');
+        if (state.displayMode === 'MODAL') {
+          const addSelected = await openAddOnModal();
+          const selectedAddOns = addSelected ? state.selectedAddOns : new Map();
+          if (rejectInvalidSelection(selectedAddOns)) {
+            return selectionErrorResponse(selectedAddOns);
+          }
+          if (!addSelected) {
+            return originalFetch(url, options);
+          }
+        }
         return handleCartAddIntercept(url, options, originalFetch);
       }
 
@@ -843,10 +1543,36 @@
     };
 
     XMLHttpRequest.prototype.send = function(body) {
+      if (installedThemeAdapter !== adapter) {
+        return originalXHRSend.apply(this, arguments);
+      }
+
+      // Required add-ons and the minimum selection: the request is dropped
+      if (this._addonBundleUrl &&
+          this._addonBundleUrl.includes('/cart/add') &&
+          state.displayMode !== 'MODAL' &&
+          rejectInvalidSelection()) {
+        this.abort();
+        return;
+      }
+
       if (this._addonBundleUrl &&
           this._addonBundleUrl.includes('/cart/add') &&
-          (state.selectedAddOns.size > 0 || hasFreeGiftAddons())) {
+          shouldInterceptCartAdd()) {
         console.log('[AddonBundle] Intercepting XHR to /cart/add');
+        if (state.displayMode === 'MODAL') {
+          const xhr = this;
+          openAddOnModal().then(addSelected => {
+            if (rejectInvalidSelection(addSelected ? state.selectedAddOns : new Map())) {
+              xhr.abort();
+            } else if (addSelected) {
+              handleXHRCartAdd(xhr, body, originalXHRSend);
+            } else {
+              originalXHRSend.call(xhr, body);
+            }
+          });
+          return;
+        }
         // Add our items to the request
         handleXHRCartAdd(this, body, originalXHRSend);
         return;
@@ -855,22 +1581,26 @@
     };
 
     // Method 3: Intercept form submissions
-    document.addEventListener('submit', handleFormSubmit, true);
+    document.addEventListener('submit', whileInstalled(adapter, handleFormSubmit), true);
 
     // Method 4: Intercept button clicks
-    document.addEventListener('click', handleButtonClick, true);
-
-    console.log('[AddonBundle] Add to cart override installed');
+    document.addEventListener('click', whileInstalled(adapter, handleButtonClick), true);
   }
 
   /**
    * Handle fetch interception for cart/add
+   * The bundle is added in steps (see addBundleItems) and the theme gets one combined response
    */
   async function handleCartAddIntercept(url, options, originalFetch) {
+    // Once the bundle requests started, the original request must not be resent
+    let bundleRequestSent = false;
     try {
       let body = options?.body;
       let items = [];
       let mainItem = null;
+      // Sections the theme asked to re-render with the response (Section Rendering API)
+      let sections = null;
+      let sectionsUrl = null;
 
       // Parse the original request body
       if (body) {
@@ -882,6 +1612,8 @@
             } else if (parsed.id) {
               mainItem = { id: parsed.id, quantity: parsed.quantity || 1 };
             }
+            sections = parsed.sections || null;
+            sectionsUrl = parsed.sections_url || null;
           } catch (e) {
             // Might be form data
             const params = new URLSearchParams(body);
@@ -889,12 +1621,16 @@
               id: params.get('id'),
               quantity: parseInt(params.get('quantity')) || 1
             };
+            sections = params.get('sections');
+            sectionsUrl = params.get('sections_url');
           }
         } else if (body instanceof FormData) {
           mainItem = {
             id: body.get('id'),
             quantity: parseInt(body.get('quantity')) || 1
           };
+          sections = body.get('sections');
+          sectionsUrl = body.get('sections_url');
         }
       }
 
@@ -909,6 +1645,7 @@
 
       // Build combined items array
       const allItems = [];
+      const addOns = [];
 
       // Get main product variant ID for nested cart lines
       let mainVariantId = null;
@@ -939,6 +1676,9 @@
         });
       }
 
+      // Drop add-ons that aren't offered with the variant actually being added
+      applyMainVariant(mainVariantId);
+
       // Add selected add-ons as NESTED CART LINES (children of main product)
       // When deleteAddonsOnMainDelete is true, use parent_id to create nested relationship
       // Shopify will automatically remove children when parent is removed
@@ -956,33 +1696,50 @@
           };
 
           // If deleteAddonsOnMainDelete is enabled, create nested cart line
-          // by specifying parent_id (Shopify will auto-remove when parent is removed)
+          // by specifying parent_id (Shopify will auto-remove when parent is removed);
+          // addBundleItems swaps it for the main line's key
           if (state.deleteAddonsOnMainDelete && mainVariantId) {
             addonItem.parent_id = mainVariantId;
           }
 
           allItems.push(addonItem);
+          addOns.push({ addonId: selection.addonId, item: addonItem });
         }
       });
 
       console.log('[AddonBundle] Adding items to cart:', allItems);
+      reportFailedAddOns([]);
 
-      // Make the actual cart request with all items
+      // Main product (and any other items of the original request) first, then the add-ons
       // Set flag to prevent re-interception
       state.isInternalRequest = true;
+      bundleRequestSent = true;
       try {
-        const response = await originalFetch('/cart/add.js', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ items: allItems })
+        const added = await addBundleItems({
+          mainItems: allItems.filter(item => item.properties?._bundle_role !== 'addon'),
+          addOns,
+          bundleGroupId,
+          sections,
+          sectionsUrl: sectionsUrl || window.location.pathname,
+          fetchFn: originalFetch,
         });
 
-        if (response.ok) {
-          console.log('[AddonBundle] Successfully added all items to cart');
-          const freeGiftCount = document.querySelectorAll('.addon-item--free-gift').length;
-          const regularCount = state.selectedAddOns.size - freeGiftCount;
+        // The theme gets a regular /cart/add.js response
+        const response = added.ok
+          ? new Response(JSON.stringify(added.cart), { status: 200, headers: { 'Content-Type': 'application/json' } })
+          : new Response(
+            JSON.stringify({ status: added.status, message: 'Cart Error', description: added.error }),
+            { status: added.status, headers: { 'Content-Type': 'application/json' } }
+          );
+
+        if (added.ok) {
+          console.log('[AddonBundle] Successfully added the bundle to cart');
+          const failedIds = new Set(added.failedAddOns.map(failed => failed.addonId));
+          const addedAddOns = addOns.filter(addOn => !failedIds.has(addOn.addonId));
+          const freeGiftCount = addedAddOns.filter(addOn =>
+            document.querySelector(`.addon-item[data-addon-id="${addOn.addonId}"]`)?.classList.contains('addon-item--free-gift')
+          ).length;
+          const regularCount = addedAddOns.length - freeGiftCount;
           let message = 'Added to cart';
           if (freeGiftCount > 0 && regularCount > 0) {
             message += ` with ${regularCount} add-on(s) + ${freeGiftCount} free gift(s)!`;
@@ -994,7 +1751,13 @@
             message += '!';
           }
           showNotification(message);
+          reportFailedAddOns(added.failedAddOns);
           refreshCartUI();
+          dispatchWidgetEvent('added-to-cart', { items: allItems, bundleGroupId, cart: added.cart, state: getPublicState() });
+        } else if (added.rolledBack) {
+          reportFailedAddOns(added.failedAddOns, true);
+        } else {
+          dispatchWidgetEvent('error', { message: added.error, error: null, state: getPublicState() });
         }
 
         return response;
@@ -1003,25 +1766,27 @@
       }
     } catch (error) {
       console.error('[AddonBundle] Error intercepting cart add:', error);
+      dispatchWidgetEvent('error', { message: 'Failed to add add-ons to cart', error, state: getPublicState() });
+      if (bundleRequestSent) {
+        return new Response(
+          JSON.stringify({ status: 500, message: 'Cart Error', description: 'Failed to add items to cart' }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
       return originalFetch(url, options);
     }
   }
 
   /**
    * Handle XHR cart add interception
+   * The bundle is added in steps (see addBundleItems) and the XHR completes with one combined response
    */
-  function handleXHRCartAdd(xhr, body, originalSend) {
-    // Generate unique bundle group ID for this add-to-cart action
-    const bundleGroupId = generateBundleGroupId();
-
-    // Common bundle properties for tracking
-    const bundleProperties = {
-      _bundle_group_id: bundleGroupId,
-      _bundle_id: state.bundleId
-    };
-
+  async function handleXHRCartAdd(xhr, body, originalSend) {
     // Parse original body
     let mainItem = null;
+    // Sections the theme asked to re-render with the response (Section Rendering API)
+    let sections = null;
+    let sectionsUrl = null;
 
     if (body) {
       if (typeof body === 'string') {
@@ -1030,39 +1795,56 @@
           if (parsed.id) {
             mainItem = { id: parsed.id, quantity: parsed.quantity || 1 };
           }
+          sections = parsed.sections || null;
+          sectionsUrl = parsed.sections_url || null;
         } catch (e) {
           const params = new URLSearchParams(body);
           mainItem = {
             id: params.get('id'),
             quantity: parseInt(params.get('quantity')) || 1
           };
+          sections = params.get('sections');
+          sectionsUrl = params.get('sections_url');
         }
       } else if (body instanceof FormData) {
         mainItem = {
           id: body.get('id'),
           quantity: parseInt(body.get('quantity')) || 1
         };
+        sections = body.get('sections');
+        sectionsUrl = body.get('sections_url');
       }
     }
 
-    // Build items array
-    const items = [];
+    // Without a main product there is no bundle to add
+    if (!mainItem || !mainItem.id) {
+      originalSend.call(xhr, body);
+      return;
+    }
+
+    // Generate unique bundle group ID for this add-to-cart action
+    const bundleGroupId = generateBundleGroupId();
 
-    // Get main product variant ID for nested cart lines
-    let mainVariantId = null;
+    // Common bundle properties for tracking
+    const bundleProperties = {
+      _bundle_group_id: bundleGroupId,
+      _bundle_id: state.bundleId
+    };
 
     // Add main product with bundle properties
-    if (mainItem && mainItem.id) {
-      mainVariantId = parseInt(extractNumericId(mainItem.id));
-      items.push({
-        id: mainVariantId,
-        quantity: mainItem.quantity,
-        properties: {
-          ...bundleProperties,
-          _bundle_role: 'main'
-        }
-      });
-    }
+    const mainVariantId = parseInt(extractNumericId(mainItem.id));
+    const items = [{
+      id: mainVariantId,
+      quantity: mainItem.quantity,
+      properties: {
+        ...bundleProperties,
+        _bundle_role: 'main'
+      }
+    }];
+    const addOns = [];
+
+    // Drop add-ons that aren't offered with the variant actually being added
+    applyMainVariant(mainVariantId);
 
     // Add addons as NESTED CART LINES (children of main product)
     // When deleteAddonsOnMainDelete is true, use parent_id to create nested relationship
@@ -1080,25 +1862,72 @@
         };
 
         // If deleteAddonsOnMainDelete is enabled, create nested cart line
+        // (addBundleItems swaps parent_id for the main line's key)
         if (state.deleteAddonsOnMainDelete && mainVariantId) {
           addonItem.parent_id = mainVariantId;
         }
 
         items.push(addonItem);
+        addOns.push({ addonId: selection.addonId, item: addonItem });
       }
     });
 
     console.log('[AddonBundle] XHR adding items:', items);
+    reportFailedAddOns([]);
 
-    // Send modified request
-    xhr.setRequestHeader('Content-Type', 'application/json');
-    originalSend.call(xhr, JSON.stringify({ items }));
+    // Set flag to prevent re-interception
+    state.isInternalRequest = true;
+    try {
+      const added = await addBundleItems({
+        mainItems: [items[0]],
+        addOns,
+        bundleGroupId,
+        sections,
+        sectionsUrl: sectionsUrl || window.location.pathname,
+      });
 
-    xhr.addEventListener('load', () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        showNotification(`Added to cart with ${state.selectedAddOns.size} add-on(s)!`);
+      if (added.ok) {
+        const addedCount = addOns.length - added.failedAddOns.length;
+        showNotification(`Added to cart with ${addedCount} add-on(s)!`);
+        reportFailedAddOns(added.failedAddOns);
         refreshCartUI();
+        dispatchWidgetEvent('added-to-cart', { items, bundleGroupId, cart: added.cart, state: getPublicState() });
+        completeXHR(xhr, 200, added.cart);
+      } else {
+        if (added.rolledBack) {
+          reportFailedAddOns(added.failedAddOns, true);
+        } else {
+          dispatchWidgetEvent('error', { message: added.error, error: null, state: getPublicState() });
+        }
+        completeXHR(xhr, added.status, { status: added.status, message: 'Cart Error', description: added.error });
       }
+    } catch (error) {
+      console.error('[AddonBundle] Error intercepting XHR cart add:', error);
+      dispatchWidgetEvent('error', { message: 'Failed to add items to cart', error, state: getPublicState() });
+      completeXHR(xhr, 500, { status: 500, message: 'Cart Error', description: 'Failed to add items to cart' });
+    } finally {
+      state.isInternalRequest = false;
+    }
+  }
+
+  /**
+   * Finish an intercepted XHR that was never sent with the given JSON response,
+   * so the theme's load / readystatechange handlers run as usual
+   */
+  function completeXHR(xhr, status, data) {
+    const responseText = JSON.stringify(data);
+    const values = {
+      readyState: 4,
+      status,
+      statusText: status >= 200 && status < 300 ? 'OK' : 'Error',
+      responseText,
+      response: xhr.responseType === 'json' ? data : responseText,
+    };
+    Object.entries(values).forEach(([key, value]) => {
+      Object.defineProperty(xhr, key, { configurable: true, value });
+    });
+    ['readystatechange', 'load', 'loadend'].forEach(type => {
+      xhr.dispatchEvent(new ProgressEvent(type));
     });
   }
 
@@ -1106,7 +1935,16 @@
    * Check if there are any FREE_GIFT add-ons on the page
    */
   function hasFreeGiftAddons() {
-    return document.querySelectorAll('.addon-item--free-gift').length > 0;
+    return document.querySelectorAll('.addon-item--free-gift:not([hidden])').length > 0;
+  }
+
+  /**
+   * Whether Add to Cart should be intercepted: add-ons are selected (or free gifts
+   * are included), or the add-ons still have to be offered in the modal
+   */
+  function shouldInterceptCartAdd() {
+    if (state.selectedAddOns.size > 0 || hasFreeGiftAddons()) return true;
+    return state.displayMode === 'MODAL' && document.querySelectorAll('.addon-item:not([hidden])').length > 0;
   }
 
   /**
@@ -1115,7 +1953,21 @@
   function handleFormSubmit(e) {
     const form = e.target;
     if (!form.matches || !form.matches('form[action*="/cart/add"]')) return;
-    if (state.selectedAddOns.size === 0 && !hasFreeGiftAddons()) return;
+
+    // Resubmitted by the theme adapter for the theme to handle
+    if (state.skipNextSubmit) {
+      state.skipNextSubmit = false;
+      return;
+    }
+
+    // Required add-ons and the minimum selection (checked after the modal in modal mode)
+    if (state.displayMode !== 'MODAL' && rejectInvalidSelection()) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      return;
+    }
+
+    if (!shouldInterceptCartAdd()) return;
 
     e.preventDefault();
     e.stopImmediatePropagation();
@@ -1132,6 +1984,26 @@
       return;
     }
 
+    // Only offer the add-ons for the variant being added
+    applyMainVariant(mainVariantId);
+
+    if (state.displayMode === 'MODAL') {
+      openAddOnModal().then(addSelected => {
+        if (rejectInvalidSelection(addSelected ? state.selectedAddOns : new Map())) {
+          return;
+        }
+        const adapter = getThemeAdapter();
+        if (addSelected) {
+          addAllItemsToCart(mainVariantId, mainQuantity);
+        } else if (adapter.submitWithoutAddOns) {
+          adapter.submitWithoutAddOns(form);
+        } else {
+          form.submit();
+        }
+      });
+      return;
+    }
+
     addAllItemsToCart(mainVariantId, mainQuantity);
   }
 
@@ -1144,7 +2016,7 @@
 
     const form = button.closest('form[action*="/cart/add"]');
     if (!form) return;
-    if (state.selectedAddOns.size === 0 && !hasFreeGiftAddons()) return;
+    if (!shouldInterceptCartAdd()) return;
 
     // Check if this is the add to cart button
     const isAddToCart = button.matches('[type="submit"]') ||
@@ -1162,6 +2034,7 @@
 
   /**
    * Add main product and add-ons to cart
+   * Resolves with the cart response, or null when the request failed
    */
   async function addAllItemsToCart(mainVariantId, mainQuantity) {
     // Generate unique bundle group ID for this add-to-cart action
@@ -1177,14 +2050,19 @@
     const parsedMainVariantId = parseInt(mainVariantId);
 
     // Add main product with bundle properties
-    const items = [{
+    const mainItem = {
       id: parsedMainVariantId,
       quantity: mainQuantity,
       properties: {
         ...bundleProperties,
         _bundle_role: 'main'
       }
-    }];
+    };
+    const items = [mainItem];
+    const addOns = [];
+
+    // Drop add-ons that aren't offered with the variant actually being added
+    applyMainVariant(mainVariantId);
 
     // Add addons as NESTED CART LINES (children of main product)
     // When deleteAddonsOnMainDelete is true, use parent_id to create nested relationship
@@ -1202,45 +2080,67 @@
         };
 
         // If deleteAddonsOnMainDelete is enabled, create nested cart line
+        // (addBundleItems swaps parent_id for the main line's key)
         if (state.deleteAddonsOnMainDelete && parsedMainVariantId) {
           addonItem.parent_id = parsedMainVariantId;
         }
 
         items.push(addonItem);
+        addOns.push({ addonId: selection.addonId, item: addonItem });
       }
     });
 
     console.log('[AddonBundle] Adding all items:', items);
+    reportFailedAddOns([]);
+
+    // Cart sections the theme adapter re-renders from the response
+    const adapter = getThemeAdapter();
+    const sections = adapter.getSections ? adapter.getSections() : [];
 
     // Set flag to prevent re-interception
     state.isInternalRequest = true;
     try {
-      const response = await fetch('/cart/add.js', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items })
+      const added = await addBundleItems({
+        mainItems: [mainItem],
+        addOns,
+        bundleGroupId,
+        sections: sections.length > 0 ? sections : null,
+        sectionsUrl: window.location.pathname,
       });
 
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('[AddonBundle] Cart API error:', error);
-        throw new Error(error);
+      if (!added.ok) {
+        if (added.rolledBack) {
+          reportFailedAddOns(added.failedAddOns, true);
+          return null;
+        }
+        console.error('[AddonBundle] Cart API error:', added.error);
+        throw new Error(added.error);
       }
 
-      const result = await response.json();
+      const result = added.cart;
       console.log('[AddonBundle] Cart add result:', result);
 
-      showNotification(`Added to cart with ${state.selectedAddOns.size} add-on(s)!`);
-      refreshCartUI();
+      const addedCount = addOns.length - added.failedAddOns.length;
+      showNotification(`Added to cart with ${addedCount} add-on(s)!`);
+      reportFailedAddOns(added.failedAddOns);
+      if (adapter.onAdded) {
+        adapter.onAdded(result);
+      } else {
+        refreshCartUI();
+      }
+      dispatchWidgetEvent('added-to-cart', { items, bundleGroupId, cart: result, state: getPublicState() });
 
       // Check if should redirect to cart
       const form = document.querySelector('form[action*="/cart/add"]');
       if (form && (form.action.includes('checkout') || form.dataset.redirectToCart)) {
         window.location.href = '/cart';
       }
+      return result;
     } catch (error) {
       console.error('[AddonBundle] Failed to add items:', error);
       showNotification('Failed to add items to cart', true);
+      dispatchWidgetEvent('error', { message: 'Failed to add items to cart', error, state: getPublicState() });
+      return null;
     } finally {
       state.isInternalRequest = false;
     }
@@ -1276,9 +2176,20 @@
   }
 
   /**
-   * Refresh cart UI
+   * Refresh cart UI with the theme adapter's re-render path, then the cart events
    */
   function refreshCartUI() {
+    const adapter = getThemeAdapter();
+    if (adapter.refresh) {
+      adapter.refresh();
+    }
+    dispatchCartEvents();
+  }
+
+  /**
+   * Update cart count badges and dispatch the cart events themes commonly listen for
+   */
+  function dispatchCartEvents() {
     fetch('/cart.js')
       .then(res => res.json())
       .then(cart => {
@@ -1300,33 +2211,495 @@
   }
 
   // ============================================
-  // CART MONITORING - Auto-remove orphaned add-ons
+  // BUNDLE ADD TO CART - Main product first, then the add-ons that can be added
   // ============================================
 
-  let cartMonitoringEnabled = false;
-  let lastKnownCart = null;
-  let isProcessingRemoval = false;
-
   /**
-   * Initialize cart monitoring to detect when main products are removed
-   * and automatically remove their associated add-ons
+   * POST items to /cart/add.js; resolves { ok, status, data }
    */
-  function initCartMonitoring() {
-    if (cartMonitoringEnabled) return;
-    cartMonitoringEnabled = true;
+  async function postCartAdd(fetchFn, items) {
+    const response = await fetchFn('/cart/add.js', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items })
+    });
+    const data = await response.json().catch(() => null);
+    return { ok: response.ok, status: response.status, data };
+  }
 
-    console.log('[AddonBundle] Cart monitoring initialized');
+  /**
+   * Whether an add-on variant can currently be bought (unknown counts as available,
+   * the cart decides then)
+   */
+  async function isAddOnVariantAvailable(addonId, variantId) {
+    const handle = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`)?.dataset.productHandle;
+    if (!handle) return true;
 
-    // Get initial cart state
-    fetchCartState();
+    const product = await fetchProductPrices(handle);
+    if (!product || !Array.isArray(product.variants)) return true;
 
-    // Listen for various cart update events
-    document.addEventListener('cart:refresh', handleCartChange);
-    document.addEventListener('cart:updated', handleCartChange);
-    document.addEventListener('cart:change', handleCartChange);
+    const variant = product.variants.find(v => String(v.id) === String(variantId));
+    return !!variant && variant.available !== false;
+  }
 
-    // Override cart change/update requests to detect removals
-    overrideCartChangeRequests();
+  /**
+   * Remove every cart line of a bundle group (all-or-nothing rollback)
+   */
+  async function removeBundleGroup(bundleGroupId, fetchFn) {
+    const cart = await fetchFn('/cart.js').then(res => res.json());
+    const updates = {};
+    (cart.items || []).forEach(item => {
+      if (item.properties?._bundle_group_id === bundleGroupId) {
+        updates[item.key] = 0;
+      }
+    });
+    if (Object.keys(updates).length === 0) return;
+
+    const response = await fetchFn('/cart/update.js', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ updates })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to remove bundle group ${bundleGroupId}: ${response.status}`);
+    }
+    console.log('[AddonBundle] Removed partially added bundle:', bundleGroupId);
+  }
+
+  /**
+   * Add a bundle in steps, so one unavailable add-on doesn't reject the whole
+   * request: add-on availability is checked first, then the main product is
+   * added, then the available add-ons (one by one if the cart rejects them
+   * together). With the all-or-nothing setting, a bundle with unavailable
+   * add-ons isn't added, and one whose add-ons the cart rejected is removed
+   * again by its `_bundle_group_id`.
+   *
+   * addOns are { addonId, item } pairs; an item's parent_id is replaced with the
+   * key of the added main line. Resolves with
+   * { ok, status, error, cart, failedAddOns, rolledBack }; cart is shaped like a
+   * /cart/add.js response (added items plus the requested sections)
+   */
+  async function addBundleItems({ mainItems, addOns, bundleGroupId, sections, sectionsUrl, fetchFn = fetch }) {
+    const failedAddOns = [];
+
+    // 1. Availability of the add-ons, from the product JSON
+    const availability = await Promise.all(
+      addOns.map(addOn => isAddOnVariantAvailable(addOn.addonId, addOn.item.id))
+    );
+    const availableAddOns = addOns.filter((addOn, index) => {
+      if (!availability[index]) {
+        failedAddOns.push({ addonId: addOn.addonId, reason: 'Sold out' });
+      }
+      return availability[index];
+    });
+
+    // All-or-nothing: a bundle already missing add-ons isn't added at all
+    if (failedAddOns.length > 0 && readStorefrontSettings().allOrNothingAddToCart) {
+      console.warn('[AddonBundle] Add-ons not available:', failedAddOns);
+      return {
+        ok: false,
+        status: 422,
+        error: getFailedAddOnsMessage(failedAddOns, true),
+        cart: null,
+        failedAddOns,
+        rolledBack: true,
+      };
+    }
+
+    // 2. Main product - nothing is added when it fails
+    const mainResult = await postCartAdd(fetchFn, mainItems);
+    if (!mainResult.ok) {
+      console.error('[AddonBundle] Main product could not be added:', mainResult.data);
+      return {
+        ok: false,
+        status: mainResult.status,
+        error: mainResult.data?.description || 'Failed to add the product to cart',
+        cart: null,
+        failedAddOns: [],
+        rolledBack: false,
+      };
+    }
+    const addedItems = [...(mainResult.data?.items || [])];
+
+    // Nested add-ons belong to the line just added, not to any line of the main variant
+    const mainLineKey = addedItems[0]?.key;
+    if (mainLineKey) {
+      availableAddOns.forEach(addOn => {
+        if (addOn.item.parent_id) {
+          addOn.item.parent_id = mainLineKey;
+        }
+      });
+    }
+
+    // 3. Available add-ons, one by one when the cart rejects them together
+    if (availableAddOns.length > 0) {
+      const addOnsResult = await postCartAdd(fetchFn, availableAddOns.map(addOn => addOn.item));
+      if (addOnsResult.ok) {
+        addedItems.push(...(addOnsResult.data?.items || []));
+      } else {
+        for (const addOn of availableAddOns) {
+          const result = await postCartAdd(fetchFn, [addOn.item]);
+          if (result.ok) {
+            addedItems.push(...(result.data?.items || []));
+          } else {
+            failedAddOns.push({ addonId: addOn.addonId, reason: result.data?.description || 'Could not be added' });
+          }
+        }
+      }
+    }
+
+    if (failedAddOns.length > 0) {
+      console.warn('[AddonBundle] Add-ons not added:', failedAddOns);
+    }
+
+    // 4. All-or-nothing: take the partial bundle out of the cart again
+    if (failedAddOns.length > 0 && readStorefrontSettings().allOrNothingAddToCart) {
+      try {
+        await removeBundleGroup(bundleGroupId, fetchFn);
+      } catch (error) {
+        console.error('[AddonBundle] Failed to remove partial bundle:', error);
+      }
+      return {
+        ok: false,
+        status: 422,
+        error: getFailedAddOnsMessage(failedAddOns, true),
+        cart: null,
+        failedAddOns,
+        rolledBack: true,
+      };
+    }
+
+    const cart = { items: addedItems };
+    if (sections) {
+      const sectionIds = Array.isArray(sections) ? sections : String(sections).split(',');
+      cart.sections = await fetchSections(sectionIds.filter(Boolean), sectionsUrl).catch(error => {
+        console.error('[AddonBundle] Failed to render cart sections:', error);
+        return null;
+      });
+    }
+
+    return { ok: true, status: 200, error: null, cart, failedAddOns, rolledBack: false };
+  }
+
+  /**
+   * Message naming the add-ons that couldn't be added
+   */
+  function getFailedAddOnsMessage(failedAddOns, rolledBack) {
+    const titles = failedAddOns.map(failed => {
+      const addonItem = document.querySelector(`.addon-item[data-addon-id="${failed.addonId}"]`);
+      return addonItem?.querySelector('.addon-item__title')?.textContent.trim() || 'An add-on';
+    });
+    const names = titles.join(', ');
+    const verb = titles.length === 1 ? 'is' : 'are';
+
+    return rolledBack
+      ? `The bundle wasn't added to your cart: ${names} ${verb} unavailable`
+      : `Added to cart without ${names}: ${titles.length === 1 ? 'it is' : 'they are'} unavailable`;
+  }
+
+  /**
+   * Show which add-ons couldn't be added in the widget (or a notification when
+   * the widget isn't visible), and clear it with an empty list
+   */
+  function reportFailedAddOns(failedAddOns, rolledBack = false) {
+    document.querySelectorAll('.addon-item--add-failed').forEach(item => item.classList.remove('addon-item--add-failed'));
+    const element = document.querySelector('.addon-bundle-widget__add-to-cart-message');
+    if (failedAddOns.length === 0) {
+      if (element) element.hidden = true;
+      return;
+    }
+
+    const message = getFailedAddOnsMessage(failedAddOns, rolledBack);
+    failedAddOns.forEach(failed => {
+      document.querySelectorAll(`.addon-item[data-addon-id="${failed.addonId}"]`)
+        .forEach(item => item.classList.add('addon-item--add-failed'));
+    });
+
+    const widget = document.querySelector('.addon-bundle-widget');
+    if (element && widget && widget.offsetParent !== null) {
+      element.textContent = message;
+      element.hidden = false;
+    } else {
+      showNotification(message, true);
+    }
+    dispatchWidgetEvent('error', { message, error: null, failedAddOns, state: getPublicState() });
+  }
+
+  // ============================================
+  // THEME ADAPTERS - How the widget hooks into the theme's add to cart and cart UI
+  // ============================================
+  //
+  // An adapter is an object with:
+  //   name                    - matches the theme adapter app setting (DAWN, SECTION_RENDERING, FALLBACK)
+  //   detect()                - true when the current theme looks supported (used with the AUTO setting)
+  //   install()               - intercepts the theme's add to cart
+  //   getSections()           - optional, Section Rendering API section IDs to request with the bundle add
+  //   onAdded(cart)           - optional, shows the theme's cart UI after the bundle was added
+  //   refresh()               - optional, re-renders the theme's cart UI after other cart changes
+  //   submitWithoutAddOns(form) - optional, lets the theme add the product when the add-on modal is declined
+
+  // Most specific first; the fallback always matches
+  const themeAdapters = [];
+  let activeThemeAdapter = null;
+  // The adapter whose install() intercepts add to cart (replaced when a registered adapter takes over)
+  let installedThemeAdapter = null;
+
+  /**
+   * Register a theme adapter (custom adapters are detected before the built-in ones)
+   * An adapter registered after the widget initialized is installed when it's the one
+   * that now matches, and the previously installed adapter stops intercepting
+   */
+  function registerThemeAdapter(adapter, builtIn = false) {
+    if (!adapter || !adapter.name || typeof adapter.install !== 'function') {
+      console.error('[AddonBundle] Invalid theme adapter:', adapter);
+      return;
+    }
+
+    const index = themeAdapters.findIndex(existing => existing.name === adapter.name);
+    if (index !== -1) themeAdapters.splice(index, 1);
+    if (builtIn) {
+      themeAdapters.push(adapter);
+    } else {
+      themeAdapters.unshift(adapter);
+    }
+
+    // Resolve the adapter again on the next use
+    activeThemeAdapter = null;
+    if (installedThemeAdapter && getThemeAdapter() !== installedThemeAdapter) {
+      installedThemeAdapter = getThemeAdapter();
+      installedThemeAdapter.install();
+      console.log('[AddonBundle] Theme adapter replaced:', installedThemeAdapter.name);
+    }
+  }
+
+  /**
+   * Event listener that only runs while the given adapter is the installed one
+   */
+  function whileInstalled(adapter, listener) {
+    return event => {
+      if (installedThemeAdapter === adapter) listener(event);
+    };
+  }
+
+  /**
+   * Read the storefront settings rendered by addon-storefront-settings.liquid
+   */
+  function readStorefrontSettings() {
+    const script = document.querySelector('script[data-addon-bundle-settings]');
+    if (!script) return {};
+
+    try {
+      return JSON.parse(script.textContent) || {};
+    } catch (error) {
+      console.error('[AddonBundle] Failed to parse storefront settings:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Theme adapter from the app settings, or the first one detecting the theme
+   */
+  function getThemeAdapter() {
+    if (activeThemeAdapter) return activeThemeAdapter;
+
+    const configured = readStorefrontSettings().themeAdapter;
+    let adapter = configured && configured !== 'AUTO'
+      ? themeAdapters.find(candidate => candidate.name === configured)
+      : null;
+
+    if (!adapter) {
+      adapter = themeAdapters.find(candidate => {
+        try {
+          return !candidate.detect || candidate.detect();
+        } catch (error) {
+          console.error('[AddonBundle] Theme adapter detection failed:', candidate.name, error);
+          return false;
+        }
+      });
+    }
+
+    activeThemeAdapter = adapter || fallbackThemeAdapter;
+    console.log('[AddonBundle] Theme adapter:', activeThemeAdapter.name, configured ? `(setting: ${configured})` : '');
+    return activeThemeAdapter;
+  }
+
+  /**
+   * Fetch rendered sections with the Section Rendering API
+   * (rendered in the context of sectionsUrl, the shop root by default)
+   */
+  async function fetchSections(sectionIds, sectionsUrl) {
+    if (sectionIds.length === 0) return {};
+
+    const path = sectionsUrl || window.Shopify?.routes?.root || '/';
+    const response = await fetch(`${path}?sections=${encodeURIComponent(sectionIds.join(','))}`);
+    if (!response.ok) throw new Error(`Section rendering failed: ${response.status}`);
+    return response.json();
+  }
+
+  /**
+   * Replace sections on the page with their re-rendered HTML
+   * Sections are { id, selector } like Dawn's getSectionsToRender(): without a
+   * selector the section's content goes into the element with the section ID
+   */
+  function renderSections(sections, sectionsHtml) {
+    const parser = new DOMParser();
+    sections.forEach(section => {
+      const html = sectionsHtml?.[section.id];
+      if (!html) return;
+
+      const target = section.selector
+        ? document.querySelector(section.selector)
+        : document.getElementById(section.id) || document.getElementById(`shopify-section-${section.id}`);
+      const source = parser.parseFromString(html, 'text/html').querySelector(section.selector || '.shopify-section');
+      if (target && source) {
+        target.innerHTML = source.innerHTML;
+      }
+    });
+  }
+
+  /**
+   * Dawn's cart drawer or cart notification element
+   */
+  function getDawnCart() {
+    return document.querySelector('cart-notification') || document.querySelector('cart-drawer');
+  }
+
+  /**
+   * Dawn and Dawn-based themes: the product form submit is handled here and the
+   * bundle is shown with the cart drawer/notification's own renderContents
+   */
+  const dawnThemeAdapter = {
+    name: 'DAWN',
+    detect() {
+      return !!window.customElements?.get('product-form') && !!getDawnCart();
+    },
+    install() {
+      document.addEventListener('submit', whileInstalled(dawnThemeAdapter, handleFormSubmit), true);
+    },
+    getSections() {
+      const cart = getDawnCart();
+      return cart?.getSectionsToRender ? cart.getSectionsToRender().map(section => section.id) : [];
+    },
+    onAdded(cart) {
+      const cartElement = getDawnCart();
+      if (!cartElement?.renderContents || !cart?.sections) {
+        refreshCartUI();
+        return;
+      }
+
+      // Dawn shows the first added line (the main product) in the notification
+      cartElement.classList.remove('is-empty');
+      cartElement.renderContents({ ...cart, key: cart.items?.[0]?.key, id: cart.items?.[0]?.id });
+    },
+    refresh() {
+      // Cart page and cart drawer line items re-render themselves (Dawn 9+)
+      const cartItems = Array.from(document.querySelectorAll('cart-items, cart-drawer-items'))
+        .filter(element => typeof element.onCartUpdate === 'function');
+      cartItems.forEach(element => element.onCartUpdate());
+
+      const cart = getDawnCart();
+      const sections = cart?.getSectionsToRender ? cart.getSectionsToRender() : [{ id: 'cart-icon-bubble' }];
+      // The drawer is already re-rendered with its line items
+      const toRender = cartItems.length > 0 ? sections.filter(section => section.id === 'cart-icon-bubble') : sections;
+      fetchSections(toRender.map(section => section.id))
+        .then(sectionsHtml => renderSections(toRender, sectionsHtml))
+        .catch(error => console.error('[AddonBundle] Failed to re-render Dawn cart sections:', error));
+    },
+    submitWithoutAddOns(form) {
+      if (!form.requestSubmit) {
+        form.submit();
+        return;
+      }
+      state.skipNextSubmit = true;
+      form.requestSubmit();
+    },
+  };
+
+  /**
+   * Cart sections on the page (cart drawer, cart icon), by their Section Rendering API ID
+   * The API renders up to 5 sections per request
+   */
+  function getCartSectionIds() {
+    return Array.from(document.querySelectorAll('[id^="shopify-section-"]'))
+      .map(element => element.id.replace('shopify-section-', ''))
+      .filter(id => /cart/i.test(id))
+      .slice(0, 5);
+  }
+
+  /**
+   * Themes with cart sections: add to cart requests are intercepted like the
+   * fallback, and the cart sections are re-rendered with the Section Rendering API
+   */
+  const sectionRenderingThemeAdapter = {
+    name: 'SECTION_RENDERING',
+    detect() {
+      return getCartSectionIds().length > 0;
+    },
+    install() {
+      installRequestInterception(sectionRenderingThemeAdapter);
+    },
+    getSections() {
+      return getCartSectionIds();
+    },
+    onAdded(cart) {
+      if (!cart?.sections) {
+        refreshCartUI();
+        return;
+      }
+      renderSections(getCartSectionIds().map(id => ({ id })), cart.sections);
+      dispatchCartEvents();
+    },
+    refresh() {
+      const sectionIds = getCartSectionIds();
+      fetchSections(sectionIds)
+        .then(sectionsHtml => renderSections(sectionIds.map(id => ({ id })), sectionsHtml))
+        .catch(error => console.error('[AddonBundle] Failed to re-render cart sections:', error));
+    },
+  };
+
+  /**
+   * Any theme: every add to cart request is intercepted and the cart UI is
+   * refreshed with the cart events only
+   */
+  const fallbackThemeAdapter = {
+    name: 'FALLBACK',
+    install() {
+      installRequestInterception(fallbackThemeAdapter);
+    },
+  };
+
+  registerThemeAdapter(dawnThemeAdapter, true);
+  registerThemeAdapter(sectionRenderingThemeAdapter, true);
+  registerThemeAdapter(fallbackThemeAdapter, true);
+
+  // ============================================
+  // CART MONITORING - Auto-remove orphaned add-ons
+  // ============================================
+
+  let cartMonitoringEnabled = false;
+  let lastKnownCart = null;
+  let isProcessingRemoval = false;
+
+  /**
+   * Initialize cart monitoring to detect when main products are removed
+   * and automatically remove their associated add-ons
+   */
+  function initCartMonitoring() {
+    if (cartMonitoringEnabled) return;
+    cartMonitoringEnabled = true;
+
+    console.log('[AddonBundle] Cart monitoring initialized');
+
+    // Get initial cart state
+    fetchCartState();
+
+    // Listen for various cart update events
+    document.addEventListener('cart:refresh', handleCartChange);
+    document.addEventListener('cart:updated', handleCartChange);
+    document.addEventListener('cart:change', handleCartChange);
+
+    // Override cart change/update requests to detect removals
+    overrideCartChangeRequests();
 
     // Also poll periodically as a fallback (every 3 seconds when on cart page)
     if (window.location.pathname.includes('/cart')) {
@@ -1345,6 +2718,9 @@
 
       // Check if this was a cart update or change request
       const urlStr = typeof url === 'string' ? url : url?.url || '';
+      if (urlStr.includes('/cart/add') || urlStr.includes('/cart/change') || urlStr.includes('/cart/update')) {
+        scheduleCartUpsellRender();
+      }
       if (urlStr.includes('/cart/change') || urlStr.includes('/cart/update')) {
         // After cart change, check for orphaned add-ons
         setTimeout(() => {
@@ -1510,16 +2886,360 @@
     }
   }
 
-  // Public API
-  window.AddonBundle = {
-    getSelectedAddOns: () => Array.from(state.selectedAddOns.values()),
-    getBundleId: () => state.bundleId,
-    getState: () => ({ ...state }),
-    addToCart: addAllItemsToCart,
-    checkOrphanedAddons: checkForOrphanedAddons,
-    isCartMonitoringEnabled: () => cartMonitoringEnabled,
+  // ============================================
+  // CART UPSELL - Offer add-ons on the cart page and in the cart drawer
+  // ============================================
+
+  // Theme cart drawer containers, most specific first (the upsell goes before the footer)
+  const CART_DRAWER_SELECTORS = [
+    'cart-drawer .drawer__footer',      // Dawn, Refresh themes
+    '#CartDrawer .cart-drawer__footer', // Various themes
+    '.cart-drawer__footer',
+    '.drawer--cart .drawer__footer',
+    '#cart-drawer .cart-footer',
+  ];
+
+  const cartUpsell = {
+    configs: new Map(), // Product ID -> bundle config (rendered by addon-cart-config.liquid)
+    showInDrawer: false,
+    initialized: false,
+    renderTimer: null,
   };
 
+  /**
+   * Read the bundle configs of the products in the cart
+   */
+  function readCartConfigs() {
+    document.querySelectorAll('script[data-addon-cart-config]').forEach(script => {
+      if (script.dataset.showInDrawer === 'true') {
+        cartUpsell.showInDrawer = true;
+      }
+      try {
+        const config = JSON.parse(script.textContent);
+        if (config && config.bundleId && Array.isArray(config.addOns)) {
+          cartUpsell.configs.set(String(script.dataset.productId), config);
+        }
+      } catch (error) {
+        console.error('[AddonBundle] Failed to parse cart config for product:', script.dataset.productId, error);
+      }
+    });
+  }
+
+  /**
+   * Initialize the cart upsell (cart page block and/or cart drawer)
+   */
+  function initCartUpsell() {
+    if (cartUpsell.initialized) return;
+
+    readCartConfigs();
+    const hasBlock = !!document.querySelector('.addon-cart-upsell');
+    if (cartUpsell.configs.size === 0 || (!hasBlock && !cartUpsell.showInDrawer)) return;
+
+    cartUpsell.initialized = true;
+    console.log('[AddonBundle] Cart upsell initialized for', cartUpsell.configs.size, 'product(s)');
+
+    document.addEventListener('cart:refresh', scheduleCartUpsellRender);
+    document.addEventListener('cart:updated', scheduleCartUpsellRender);
+    document.addEventListener('cart:change', scheduleCartUpsellRender);
+
+    renderCartUpsell();
+  }
+
+  /**
+   * Re-render the cart upsell once the theme has updated the cart
+   */
+  function scheduleCartUpsellRender() {
+    if (!cartUpsell.initialized) return;
+    clearTimeout(cartUpsell.renderTimer);
+    cartUpsell.renderTimer = setTimeout(renderCartUpsell, 400);
+  }
+
+  /**
+   * Cart page blocks plus the cart drawer container (injected on demand,
+   * since theme drawers re-render their markup on every cart change)
+   */
+  function getCartUpsellContainers() {
+    const containers = Array.from(document.querySelectorAll('.addon-cart-upsell'));
+    if (!cartUpsell.showInDrawer) return containers;
+
+    for (const selector of CART_DRAWER_SELECTORS) {
+      const footer = document.querySelector(selector);
+      if (!footer) continue;
+
+      let drawerContainer = footer.parentNode.querySelector('.addon-cart-upsell--drawer');
+      if (!drawerContainer) {
+        drawerContainer = document.createElement('div');
+        drawerContainer.className = 'addon-cart-upsell addon-cart-upsell--drawer';
+        drawerContainer.dataset.maxOffers = '2';
+        footer.parentNode.insertBefore(drawerContainer, footer);
+      }
+      containers.push(drawerContainer);
+      break;
+    }
+
+    return containers;
+  }
+
+  /**
+   * Find the add-ons to offer for each main product line in the cart:
+   * lines with a bundle config that aren't add-ons themselves, minus add-ons
+   * already in the cart for that line
+   */
+  function buildCartOffers(cart) {
+    const offers = [];
+
+    cart.items.forEach((item, index) => {
+      const properties = item.properties || {};
+      if (properties._addon_bundle_id) return;
+
+      const config = cartUpsell.configs.get(String(item.product_id));
+      if (!config) return;
+
+      const groupId = properties._bundle_group_id || null;
+      const inCart = new Set(
+        cart.items
+          .filter(other => {
+            const otherProperties = other.properties || {};
+            if (otherProperties._addon_bundle_id !== config.bundleId) return false;
+            return groupId
+              ? otherProperties._bundle_group_id === groupId
+              : String(otherProperties._addon_main_product) === String(item.product_id);
+          })
+          .map(other => String(other.product_id))
+      );
+
+      // Add-on rules: required add-ons must be in the cart, excluded ones must not
+      const addOnInCart = addOnId => {
+        const addOn = config.addOns.find(other => other.addOnId === addOnId);
+        return !!addOn && inCart.has(extractNumericId(addOn.shopifyProductId));
+      };
+
+      const addOns = config.addOns.filter(addOn =>
+        !addOn.subscriptionOnly &&
+        (addOn.requiresAddOnIds || []).every(addOnInCart) &&
+        !(addOn.excludesAddOnIds || []).some(addOnInCart) &&
+        addOn.selectedVariants?.length > 0 &&
+        (!addOn.mainVariantIds?.length || addOn.mainVariantIds.some(id => extractNumericId(id) === String(item.variant_id))) &&
+        extractNumericId(addOn.shopifyProductId) !== String(item.product_id) &&
+        !inCart.has(extractNumericId(addOn.shopifyProductId))
+      );
+
+      if (addOns.length > 0) {
+        offers.push({ item, line: index + 1, config, addOns });
+      }
+    });
+
+    return offers;
+  }
+
+  /**
+   * Render the add-on offers into every cart upsell container
+   */
+  async function renderCartUpsell() {
+    const containers = getCartUpsellContainers();
+    if (containers.length === 0) return;
+
+    try {
+      const response = await fetch('/cart.js');
+      if (!response.ok) return;
+      const cart = await response.json();
+      const offers = buildCartOffers(cart);
+
+      // Market prices per product handle (same source as the product page widget)
+      const handles = new Set();
+      offers.forEach(offer => offer.addOns.forEach(addOn => addOn.productHandle && handles.add(addOn.productHandle)));
+      const products = new Map();
+      await Promise.all(Array.from(handles).map(async handle => {
+        const product = await fetchProductPrices(handle);
+        if (product) products.set(handle, product);
+      }));
+
+      containers.forEach(container => renderCartUpsellContainer(container, offers, products));
+    } catch (error) {
+      console.error('[AddonBundle] Error rendering cart upsell:', error);
+    }
+  }
+
+  /**
+   * Render offers into one container, up to its data-max-offers add-ons
+   */
+  function renderCartUpsellContainer(container, offers, products) {
+    const maxOffers = parseInt(container.dataset.maxOffers) || 4;
+    let list = container.querySelector('.addon-cart-upsell__list');
+    if (!list) {
+      const heading = document.createElement('p');
+      heading.className = 'addon-cart-upsell__heading';
+      heading.textContent = container.dataset.heading || 'Complete your order';
+      list = document.createElement('div');
+      list.className = 'addon-cart-upsell__list';
+      container.append(heading, list);
+    }
+    list.innerHTML = '';
+
+    let rendered = 0;
+    for (const offer of offers) {
+      for (const addOn of offer.addOns) {
+        if (rendered >= maxOffers) break;
+        list.appendChild(buildCartUpsellItem(offer, addOn, products.get(addOn.productHandle)));
+        rendered++;
+      }
+    }
+
+    container.hidden = rendered === 0;
+  }
+
+  /**
+   * Build one add-on offer (image, title, price, variant select and add button)
+   */
+  function buildCartUpsellItem(offer, addOn, product) {
+    const element = document.createElement('div');
+    element.className = 'addon-cart-upsell__item';
+    element.dataset.addonId = addOn.addOnId;
+
+    if (addOn.imageUrl) {
+      const image = document.createElement('img');
+      image.className = 'addon-cart-upsell__image';
+      image.src = addOn.imageUrl;
+      image.alt = '';
+      image.loading = 'lazy';
+      element.appendChild(image);
+    }
+
+    const details = document.createElement('div');
+    details.className = 'addon-cart-upsell__details';
+
+    const title = document.createElement('span');
+    title.className = 'addon-cart-upsell__title';
+    title.textContent = addOn.title || addOn.productTitle || '';
+
+    const context = document.createElement('span');
+    context.className = 'addon-cart-upsell__context';
+    context.textContent = `For ${offer.item.product_title}`;
+
+    const priceRow = document.createElement('div');
+    priceRow.className = 'addon-item__price-row';
+
+    details.append(title, context, priceRow);
+
+    // Variant prices in the storefront currency, falling back to the synced shop price
+    const variantPrice = (variantId) => {
+      const variant = product?.variants?.find(v => String(v.id) === extractNumericId(variantId));
+      if (variant) return variant.price / 100;
+      const selected = addOn.selectedVariants.find(v => extractNumericId(v.shopifyVariantId) === extractNumericId(variantId));
+      return selected?.variantPrice ?? null;
+    };
+    const updatePrice = (variantId) => {
+      const originalPrice = variantPrice(variantId);
+      if (originalPrice === null) {
+        priceRow.innerHTML = '';
+        return;
+      }
+      const discountValue = toPresentmentDiscountValue(addOn.discountType, addOn.discountValue || 0, addOn.currencyValues);
+      const { discountedPrice, hasDiscount } = calculateDiscountedPrice(originalPrice, addOn.discountType, discountValue);
+      renderPriceRow(priceRow, originalPrice, discountedPrice, hasDiscount);
+    };
+
+    let variantSelect = null;
+    if (addOn.selectedVariants.length > 1) {
+      variantSelect = document.createElement('select');
+      variantSelect.className = 'addon-item__variant-select addon-cart-upsell__variant-select';
+      addOn.selectedVariants.forEach(variant => {
+        const option = document.createElement('option');
+        option.value = extractNumericId(variant.shopifyVariantId);
+        option.textContent = variant.variantTitle || option.value;
+        variantSelect.appendChild(option);
+      });
+      variantSelect.addEventListener('change', () => updatePrice(variantSelect.value));
+      details.appendChild(variantSelect);
+    }
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'addon-cart-upsell__add';
+    button.textContent = addOn.discountType === 'FREE_GIFT' ? 'Add free' : 'Add';
+    button.addEventListener('click', () => {
+      const variantId = variantSelect ? variantSelect.value : extractNumericId(addOn.selectedVariants[0].shopifyVariantId);
+      addCartUpsellAddOn(offer, addOn, variantId, button);
+    });
+
+    element.append(details, button);
+    updatePrice(variantSelect ? variantSelect.value : addOn.selectedVariants[0].shopifyVariantId);
+    return element;
+  }
+
+  /**
+   * Add an add-on for a main product line that is already in the cart
+   * Main lines without a bundle group (e.g. added from collection quick-add)
+   * are tagged first so the add-on is matched to that exact line
+   */
+  async function addCartUpsellAddOn(offer, addOn, variantId, button) {
+    button.disabled = true;
+    state.isInternalRequest = true;
+
+    try {
+      const { item, line, config } = offer;
+      let groupId = item.properties?._bundle_group_id;
+
+      if (!groupId) {
+        groupId = generateBundleGroupId();
+        const changeResponse = await fetch('/cart/change.js', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            line,
+            quantity: item.quantity,
+            properties: {
+              ...(item.properties || {}),
+              _bundle_group_id: groupId,
+              _bundle_id: config.bundleId,
+              _bundle_role: 'main'
+            }
+          })
+        });
+        if (!changeResponse.ok) {
+          throw new Error(await changeResponse.text());
+        }
+      }
+
+      const addonItem = {
+        id: parseInt(variantId),
+        quantity: 1,
+        properties: {
+          _bundle_group_id: groupId,
+          _bundle_id: config.bundleId,
+          _bundle_role: 'addon',
+          _addon_bundle_id: config.bundleId,
+          _addon_main_product: String(item.product_id)
+        }
+      };
+
+      // Nested cart line, removed by Shopify with its main product
+      if (config.deleteAddonsOnMainDelete) {
+        addonItem.parent_id = item.variant_id;
+      }
+
+      console.log('[AddonBundle] Adding cart upsell item:', addonItem);
+
+      const response = await fetch('/cart/add.js', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items: [addonItem] })
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      showNotification(`${addOn.title || addOn.productTitle} added to cart!`);
+      refreshCartUI();
+    } catch (error) {
+      console.error('[AddonBundle] Failed to add cart upsell item:', error);
+      showNotification('Failed to add add-on to cart', true);
+      button.disabled = false;
+    } finally {
+      state.isInternalRequest = false;
+    }
+  }
+
   /**
    * Initialize cart monitoring globally (runs on all pages)
    * This ensures add-ons are removed even when main product is deleted from cart page
@@ -1549,21 +3269,174 @@
     }
   }
 
+  // ============================================
+  // PUBLIC API - window.AddonBundle and addon-bundle:* events (see top of file)
+  // ============================================
+
+  /**
+   * Dispatch an addon-bundle:<name> event from the widget (bubbles to document)
+   */
+  function dispatchWidgetEvent(name, detail) {
+    const target = document.querySelector('.addon-bundle-widget') || document;
+    target.dispatchEvent(new CustomEvent(`addon-bundle:${name}`, { bubbles: true, detail }));
+  }
+
+  /**
+   * Snapshot of the widget state for theme code (changing it has no effect)
+   */
+  function getPublicState() {
+    return {
+      bundleId: state.bundleId,
+      productId: state.productId,
+      mainVariantId: state.mainVariantId,
+      displayMode: state.displayMode,
+      selectedAddOns: Array.from(state.selectedAddOns.values()).map(selection => ({ ...selection })),
+      selectionError: state.initialized ? getSelectionError() : null,
+      totals: state.initialized ? calculateBundleTotal() : null,
+    };
+  }
+
+  /**
+   * Select an add-on as if the customer checked it
+   * Returns false when the add-on isn't on the page or can't be selected
+   */
+  function selectAddOn(addonId, options = {}) {
+    const addonItem = document.querySelector(`.addon-item[data-addon-id="${addonId}"]`);
+    const input = addonItem?.querySelector('.addon-item__input');
+    if (!addonItem || !input || !isSelectable(addonItem) || input.disabled) return false;
+
+    const variantSelect = addonItem.querySelector('.addon-item__variant-select');
+    if (options.variantId && variantSelect) {
+      const variantId = extractNumericId(String(options.variantId));
+      const option = Array.from(variantSelect.options).find(opt => extractNumericId(opt.value) === variantId);
+      if (!option) return false;
+      variantSelect.value = option.value;
+      variantSelect.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    const quantityInput = addonItem.querySelector('.addon-item__quantity-input');
+    if (options.quantity && quantityInput) {
+      quantityInput.value = Math.min(Math.max(1, parseInt(options.quantity) || 1), parseInt(quantityInput.max) || 99);
+      quantityInput.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    // Free gifts are always selected
+    if (input.type !== 'hidden' && !input.checked) {
+      input.checked = true;
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+    return state.selectedAddOns.has(addonId);
+  }
+
+  /**
+   * Deselect an add-on as if the customer unchecked it (free gifts stay selected)
+   */
+  function deselectAddOn(addonId) {
+    const input = document.querySelector(`.addon-item[data-addon-id="${addonId}"] .addon-item__input`);
+    if (!input || input.type === 'hidden') return false;
+
+    if (input.checked) {
+      input.checked = false;
+      if (input.type === 'radio') {
+        updateSelectionState(input.closest('.addon-item'), false);
+      } else {
+        input.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+    }
+    return !state.selectedAddOns.has(addonId);
+  }
+
+  /**
+   * The theme's product form (the first add to cart form outside the widget)
+   */
+  function getMainProductForm() {
+    return Array.from(document.querySelectorAll('form[action*="/cart/add"]'))
+      .find(candidate => !candidate.closest('.addon-bundle-widget')) || null;
+  }
+
+  /**
+   * Add the main product and the selected add-ons to the cart
+   * Defaults to the product form's variant and quantity
+   * (also accepts the earlier addToCart(variantId, quantity) arguments)
+   */
+  function addBundleToCart(options = {}, legacyQuantity) {
+    if (typeof options !== 'object' || options === null) {
+      options = { variantId: options, quantity: legacyQuantity };
+    }
+    const form = getMainProductForm();
+    const formData = form ? new FormData(form) : null;
+    const mainVariantId = extractNumericId(String(options.variantId || formData?.get('id') || state.mainVariantId || ''));
+    const mainQuantity = parseInt(options.quantity) || parseInt(formData?.get('quantity')) || 1;
+
+    if (!mainVariantId) {
+      dispatchWidgetEvent('error', { message: 'No product variant to add', error: null, state: getPublicState() });
+      return Promise.resolve(null);
+    }
+
+    applyMainVariant(mainVariantId);
+    if (rejectInvalidSelection()) return Promise.resolve(null);
+
+    return addAllItemsToCart(mainVariantId, mainQuantity);
+  }
+
+  /**
+   * Re-read the widget after the theme re-rendered it (e.g. a quick view or
+   * section re-render), keeping the cart interception already in place
+   */
+  function refreshWidget() {
+    const widget = document.querySelector('.addon-bundle-widget');
+    if (!widget) return;
+    if (!state.initialized) {
+      init();
+      return;
+    }
+
+    readWidgetData(widget);
+    if (widget.dataset.listenersAttached !== 'true') {
+      setupWidgetListeners(widget);
+    }
+
+    state.selectedAddOns.clear();
+    initializeSelections();
+    updateAddOnAvailability();
+    updateSelectionLimits();
+    updateBundleTotals();
+    fetchMarketPrices();
+    console.log('[AddonBundle] Widget refreshed');
+  }
+
+  window.AddonBundle = {
+    getState: getPublicState,
+    select: selectAddOn,
+    deselect: deselectAddOn,
+    addToCart: addBundleToCart,
+    refresh: refreshWidget,
+    registerThemeAdapter: adapter => registerThemeAdapter(adapter),
+    // Earlier API (see top of file)
+    getSelectedAddOns: () => Array.from(state.selectedAddOns.values()),
+    getBundleId: () => state.bundleId,
+    checkOrphanedAddons: checkForOrphanedAddons,
+    isCartMonitoringEnabled: () => cartMonitoringEnabled,
+  };
+
   // Initialize
   if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', () => {
       init();
       // Always init global cart monitoring
       initGlobalCartMonitoring();
+      initCartUpsell();
     });
   } else {
     init();
     initGlobalCartMonitoring();
+    initCartUpsell();
   }
 
   // Fallback initialization
   setTimeout(() => {
     init();
     initGlobalCartMonitoring();
+    initCartUpsell();
   }, 500);
 })();
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "BundleSyncedProduct" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bundleId" TEXT NOT NULL,
+    "shopifyProductId" TEXT NOT NULL,
+    CONSTRAINT "BundleSyncedProduct_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "BundleSyncedProduct_bundleId_idx" ON "BundleSyncedProduct"("bundleId");
+
+-- CreateIndex
+CREATE INDEX "BundleSyncedProduct_shopifyProductId_idx" ON "BundleSyncedProduct"("shopifyProductId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BundleSyncedProduct_bundleId_shopifyProductId_key" ON "BundleSyncedProduct"("bundleId", "shopifyProductId");
@@ -0,0 +1,35 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AddOnSet" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "shopifyProductId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "productImageUrl" TEXT,
+    "title" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "discountType" TEXT NOT NULL DEFAULT 'PERCENTAGE',
+    "discountValue" DECIMAL,
+    "discountLabel" TEXT,
+    "customImageUrl" TEXT,
+    "isDefaultSelected" BOOLEAN NOT NULL DEFAULT false,
+    "subscriptionOnly" BOOLEAN NOT NULL DEFAULT false,
+    "showQuantitySelector" BOOLEAN NOT NULL DEFAULT false,
+    "maxQuantity" INTEGER NOT NULL DEFAULT 10,
+    "addOnsPerMainUnit" INTEGER,
+    "productGroupId" TEXT,
+    CONSTRAINT "AddOnSet_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AddOnSet_productGroupId_fkey" FOREIGN KEY ("productGroupId") REFERENCES "ProductGroup" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_AddOnSet" ("bundleId", "createdAt", "customImageUrl", "discountLabel", "discountType", "discountValue", "id", "isDefaultSelected", "maxQuantity", "position", "productGroupId", "productImageUrl", "productTitle", "shopifyProductId", "showQuantitySelector", "subscriptionOnly", "title", "updatedAt") SELECT "bundleId", "createdAt", "customImageUrl", "discountLabel", "discountType", "discountValue", "id", "isDefaultSelected", "maxQuantity", "position", "productGroupId", "productImageUrl", "productTitle", "shopifyProductId", "showQuantitySelector", "subscriptionOnly", "title", "updatedAt" FROM "AddOnSet";
+DROP TABLE "AddOnSet";
+ALTER TABLE "new_AddOnSet" RENAME TO "AddOnSet";
+CREATE INDEX "AddOnSet_bundleId_idx" ON "AddOnSet"("bundleId");
+CREATE INDEX "AddOnSet_bundleId_position_idx" ON "AddOnSet"("bundleId", "position");
+CREATE INDEX "AddOnSet_shopifyProductId_idx" ON "AddOnSet"("shopifyProductId");
+CREATE INDEX "AddOnSet_productGroupId_idx" ON "AddOnSet"("productGroupId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "BundleDiscountTier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "bundleId" TEXT NOT NULL,
+    "minAddOns" INTEGER NOT NULL,
+    "discountType" TEXT NOT NULL DEFAULT 'PERCENTAGE',
+    "discountValue" DECIMAL NOT NULL,
+    "discountLabel" TEXT,
+    CONSTRAINT "BundleDiscountTier_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "BundleDiscountTier_bundleId_idx" ON "BundleDiscountTier"("bundleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BundleDiscountTier_bundleId_minAddOns_key" ON "BundleDiscountTier"("bundleId", "minAddOns");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AddOnSetCurrencyValue" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "addOnSetId" TEXT NOT NULL,
+    "currencyCode" TEXT NOT NULL,
+    "discountValue" DECIMAL NOT NULL,
+    CONSTRAINT "AddOnSetCurrencyValue_addOnSetId_fkey" FOREIGN KEY ("addOnSetId") REFERENCES "AddOnSet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AddOnSetCurrencyValue_addOnSetId_idx" ON "AddOnSetCurrencyValue"("addOnSetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddOnSetCurrencyValue_addOnSetId_currencyCode_key" ON "AddOnSetCurrencyValue"("addOnSetId", "currencyCode");
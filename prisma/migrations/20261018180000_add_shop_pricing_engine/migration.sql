@@ -0,0 +1,27 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ShopSettings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "defaultSelectionMode" TEXT NOT NULL DEFAULT 'MULTIPLE',
+    "defaultLayoutType" TEXT NOT NULL DEFAULT 'LIST',
+    "defaultImageSize" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "defaultBackgroundColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "defaultFontColor" TEXT NOT NULL DEFAULT '#000000',
+    "defaultButtonColor" TEXT NOT NULL DEFAULT '#000000',
+    "defaultButtonTextColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "analyticsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "pricingEngine" TEXT NOT NULL DEFAULT 'DISCOUNT_FUNCTION',
+    "installedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uninstalledAt" DATETIME
+);
+INSERT INTO "new_ShopSettings" ("analyticsEnabled", "createdAt", "defaultBackgroundColor", "defaultButtonColor", "defaultButtonTextColor", "defaultFontColor", "defaultImageSize", "defaultLayoutType", "defaultSelectionMode", "id", "installedAt", "shop", "uninstalledAt", "updatedAt") SELECT "analyticsEnabled", "createdAt", "defaultBackgroundColor", "defaultButtonColor", "defaultButtonTextColor", "defaultFontColor", "defaultImageSize", "defaultLayoutType", "defaultSelectionMode", "id", "installedAt", "shop", "uninstalledAt", "updatedAt" FROM "ShopSettings";
+DROP TABLE "ShopSettings";
+ALTER TABLE "new_ShopSettings" RENAME TO "ShopSettings";
+CREATE UNIQUE INDEX "ShopSettings_shop_key" ON "ShopSettings"("shop");
+CREATE INDEX "ShopSettings_shop_idx" ON "ShopSettings"("shop");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
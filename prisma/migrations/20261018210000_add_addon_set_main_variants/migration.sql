@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "AddOnSetMainVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "addOnSetId" TEXT NOT NULL,
+    "shopifyVariantId" TEXT NOT NULL,
+    "variantTitle" TEXT,
+    "productTitle" TEXT,
+    CONSTRAINT "AddOnSetMainVariant_addOnSetId_fkey" FOREIGN KEY ("addOnSetId") REFERENCES "AddOnSet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AddOnSetMainVariant_addOnSetId_idx" ON "AddOnSetMainVariant"("addOnSetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddOnSetMainVariant_addOnSetId_shopifyVariantId_key" ON "AddOnSetMainVariant"("addOnSetId", "shopifyVariantId");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "AddOnSetRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" TEXT NOT NULL,
+    "addOnSetId" TEXT NOT NULL,
+    "relatedAddOnSetId" TEXT NOT NULL,
+    CONSTRAINT "AddOnSetRule_addOnSetId_fkey" FOREIGN KEY ("addOnSetId") REFERENCES "AddOnSet" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AddOnSetRule_relatedAddOnSetId_fkey" FOREIGN KEY ("relatedAddOnSetId") REFERENCES "AddOnSet" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AddOnSetRule_addOnSetId_idx" ON "AddOnSetRule"("addOnSetId");
+
+-- CreateIndex
+CREATE INDEX "AddOnSetRule_relatedAddOnSetId_idx" ON "AddOnSetRule"("relatedAddOnSetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AddOnSetRule_addOnSetId_relatedAddOnSetId_key" ON "AddOnSetRule"("addOnSetId", "relatedAddOnSetId");
@@ -0,0 +1,105 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AddOnSet" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "shopifyProductId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "productImageUrl" TEXT,
+    "title" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "discountType" TEXT NOT NULL DEFAULT 'PERCENTAGE',
+    "discountValue" DECIMAL,
+    "discountLabel" TEXT,
+    "customImageUrl" TEXT,
+    "isDefaultSelected" BOOLEAN NOT NULL DEFAULT false,
+    "isRequired" BOOLEAN NOT NULL DEFAULT false,
+    "subscriptionOnly" BOOLEAN NOT NULL DEFAULT false,
+    "showQuantitySelector" BOOLEAN NOT NULL DEFAULT false,
+    "maxQuantity" INTEGER NOT NULL DEFAULT 10,
+    "addOnsPerMainUnit" INTEGER,
+    "completesBundle" BOOLEAN NOT NULL DEFAULT false,
+    "productGroupId" TEXT,
+    CONSTRAINT "AddOnSet_bundleId_fkey" FOREIGN KEY ("bundleId") REFERENCES "Bundle" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AddOnSet_productGroupId_fkey" FOREIGN KEY ("productGroupId") REFERENCES "ProductGroup" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_AddOnSet" ("addOnsPerMainUnit", "bundleId", "completesBundle", "createdAt", "customImageUrl", "discountLabel", "discountType", "discountValue", "id", "isDefaultSelected", "maxQuantity", "position", "productGroupId", "productImageUrl", "productTitle", "shopifyProductId", "showQuantitySelector", "subscriptionOnly", "title", "updatedAt") SELECT "addOnsPerMainUnit", "bundleId", "completesBundle", "createdAt", "customImageUrl", "discountLabel", "discountType", "discountValue", "id", "isDefaultSelected", "maxQuantity", "position", "productGroupId", "productImageUrl", "productTitle", "shopifyProductId", "showQuantitySelector", "subscriptionOnly", "title", "updatedAt" FROM "AddOnSet";
+DROP TABLE "AddOnSet";
+ALTER TABLE "new_AddOnSet" RENAME TO "AddOnSet";
+CREATE INDEX "AddOnSet_bundleId_idx" ON "AddOnSet"("bundleId");
+CREATE INDEX "AddOnSet_bundleId_position_idx" ON "AddOnSet"("bundleId", "position");
+CREATE INDEX "AddOnSet_shopifyProductId_idx" ON "AddOnSet"("shopifyProductId");
+CREATE INDEX "AddOnSet_productGroupId_idx" ON "AddOnSet"("productGroupId");
+CREATE TABLE "new_Bundle" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "subtitle" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "startDate" DATETIME,
+    "endDate" DATETIME,
+    "selectionMode" TEXT NOT NULL DEFAULT 'MULTIPLE',
+    "minSelections" INTEGER NOT NULL DEFAULT 0,
+    "maxSelections" INTEGER,
+    "targetingType" TEXT NOT NULL DEFAULT 'ALL_PRODUCTS',
+    "combineWithProductDiscounts" TEXT NOT NULL DEFAULT 'COMBINE',
+    "combineWithOrderDiscounts" TEXT NOT NULL DEFAULT 'COMBINE',
+    "combineWithShippingDiscounts" TEXT NOT NULL DEFAULT 'COMBINE',
+    "deleteAddOnsWithMain" BOOLEAN NOT NULL DEFAULT false,
+    "showSoldOutLabel" BOOLEAN NOT NULL DEFAULT false,
+    "soldOutLabelText" TEXT NOT NULL DEFAULT 'Sold out',
+    "shippingPerkEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "shippingPerkMinAddOns" INTEGER NOT NULL DEFAULT 1,
+    "shippingPerkPercentage" INTEGER NOT NULL DEFAULT 100,
+    "shippingPerkLabel" TEXT,
+    "completeBundleEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "completeBundleDiscountType" TEXT NOT NULL DEFAULT 'PERCENTAGE',
+    "completeBundleDiscountValue" DECIMAL,
+    "completeBundleLabel" TEXT,
+    "customerEligibility" TEXT NOT NULL DEFAULT 'ALL_CUSTOMERS',
+    "eligibleCustomerTags" TEXT,
+    "hideBundleForIneligible" BOOLEAN NOT NULL DEFAULT false,
+    "presentAsBundle" BOOLEAN NOT NULL DEFAULT false,
+    "bundleLineTitle" TEXT,
+    "bundleLineImage" TEXT,
+    "shopifyDiscountId" TEXT
+);
+INSERT INTO "new_Bundle" ("bundleLineImage", "bundleLineTitle", "combineWithOrderDiscounts", "combineWithProductDiscounts", "combineWithShippingDiscounts", "completeBundleDiscountType", "completeBundleDiscountValue", "completeBundleEnabled", "completeBundleLabel", "createdAt", "customerEligibility", "deleteAddOnsWithMain", "eligibleCustomerTags", "endDate", "hideBundleForIneligible", "id", "presentAsBundle", "selectionMode", "shippingPerkEnabled", "shippingPerkLabel", "shippingPerkMinAddOns", "shippingPerkPercentage", "shop", "shopifyDiscountId", "showSoldOutLabel", "soldOutLabelText", "startDate", "status", "subtitle", "targetingType", "title", "updatedAt") SELECT "bundleLineImage", "bundleLineTitle", "combineWithOrderDiscounts", "combineWithProductDiscounts", "combineWithShippingDiscounts", "completeBundleDiscountType", "completeBundleDiscountValue", "completeBundleEnabled", "completeBundleLabel", "createdAt", "customerEligibility", "deleteAddOnsWithMain", "eligibleCustomerTags", "endDate", "hideBundleForIneligible", "id", "presentAsBundle", "selectionMode", "shippingPerkEnabled", "shippingPerkLabel", "shippingPerkMinAddOns", "shippingPerkPercentage", "shop", "shopifyDiscountId", "showSoldOutLabel", "soldOutLabelText", "startDate", "status", "subtitle", "targetingType", "title", "updatedAt" FROM "Bundle";
+DROP TABLE "Bundle";
+ALTER TABLE "new_Bundle" RENAME TO "Bundle";
+CREATE INDEX "Bundle_shop_idx" ON "Bundle"("shop");
+CREATE INDEX "Bundle_shop_status_idx" ON "Bundle"("shop", "status");
+CREATE INDEX "Bundle_shop_status_startDate_endDate_idx" ON "Bundle"("shop", "status", "startDate", "endDate");
+CREATE TABLE "new_ShopSettings" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "defaultSelectionMode" TEXT NOT NULL DEFAULT 'MULTIPLE',
+    "defaultLayoutType" TEXT NOT NULL DEFAULT 'LIST',
+    "defaultImageSize" TEXT NOT NULL DEFAULT 'MEDIUM',
+    "defaultBackgroundColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "defaultFontColor" TEXT NOT NULL DEFAULT '#000000',
+    "defaultButtonColor" TEXT NOT NULL DEFAULT '#000000',
+    "defaultButtonTextColor" TEXT NOT NULL DEFAULT '#ffffff',
+    "analyticsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "pricingEngine" TEXT NOT NULL DEFAULT 'DISCOUNT_FUNCTION',
+    "checkoutValidationEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "orphanedAddOnMessage" TEXT NOT NULL DEFAULT '{addon} can only be purchased with its main product. Add the main product back or remove {addon}.',
+    "addOnLimitMessage" TEXT NOT NULL DEFAULT 'You can add up to {max} of {addon} per bundle.',
+    "requiredAddOnMessage" TEXT NOT NULL DEFAULT '{addon} is required with this product. Add {addon} or remove the product.',
+    "installedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uninstalledAt" DATETIME
+);
+INSERT INTO "new_ShopSettings" ("addOnLimitMessage", "analyticsEnabled", "checkoutValidationEnabled", "createdAt", "defaultBackgroundColor", "defaultButtonColor", "defaultButtonTextColor", "defaultFontColor", "defaultImageSize", "defaultLayoutType", "defaultSelectionMode", "id", "installedAt", "orphanedAddOnMessage", "pricingEngine", "shop", "uninstalledAt", "updatedAt") SELECT "addOnLimitMessage", "analyticsEnabled", "checkoutValidationEnabled", "createdAt", "defaultBackgroundColor", "defaultButtonColor", "defaultButtonTextColor", "defaultFontColor", "defaultImageSize", "defaultLayoutType", "defaultSelectionMode", "id", "installedAt", "orphanedAddOnMessage", "pricingEngine", "shop", "uninstalledAt", "updatedAt" FROM "ShopSettings";
+DROP TABLE "ShopSettings";
+ALTER TABLE "new_ShopSettings" RENAME TO "ShopSettings";
+CREATE UNIQUE INDEX "ShopSettings_shop_key" ON "ShopSettings"("shop");
+CREATE INDEX "ShopSettings_shop_idx" ON "ShopSettings"("shop");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
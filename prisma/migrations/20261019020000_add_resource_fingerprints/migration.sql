@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "ResourceFingerprint" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "updatedAt" DATETIME NOT NULL,
+    "shop" TEXT NOT NULL,
+    "shopifyResourceId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResourceFingerprint_shop_shopifyResourceId_key" ON "ResourceFingerprint"("shop", "shopifyResourceId");